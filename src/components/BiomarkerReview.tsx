@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { createDraftRow, fromDraftRow, validateDraftRow, type DraftAnalyteRow } from '../lib/biomarkers';
+import { saveBiomarkerRecord, type NewBiomarkerRecord } from '../lib/biomarkerRecords';
+import { Plus, Trash2, AlertCircle, AlertTriangle } from 'lucide-react';
+
+interface BiomarkerReviewProps {
+  sourceType: NewBiomarkerRecord['sourceType'];
+  initialRows: DraftAnalyteRow[];
+  initialTestDate: string | null;
+  rawData: NewBiomarkerRecord['rawData'];
+  rowConfidence?: Record<string, number>;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+const LOW_CONFIDENCE = 75;
+
+export function BiomarkerReview({ sourceType, initialRows, initialTestDate, rawData, rowConfidence, onSaved, onCancel }: BiomarkerReviewProps) {
+  const [rows, setRows] = useState<DraftAnalyteRow[]>(initialRows.length > 0 ? initialRows : [createDraftRow()]);
+  const [testDate, setTestDate] = useState(initialTestDate || new Date().toISOString().split('T')[0]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isLowConfidence = (key: string) => rowConfidence?.[key] !== undefined && rowConfidence[key] < LOW_CONFIDENCE;
+  const lowConfidenceCount = rows.filter((row) => isLowConfidence(row.key)).length;
+
+  const updateRow = (key: string, field: keyof Omit<DraftAnalyteRow, 'key'>, value: string) => {
+    setRows(rows.map((row) => (row.key === key ? { ...row, [field]: value } : row)));
+  };
+
+  const removeRow = (key: string) => {
+    setRows(rows.filter((row) => row.key !== key));
+  };
+
+  const handleSave = async () => {
+    setError(null);
+
+    if (rows.length === 0) {
+      setError('Add at least one result before saving');
+      return;
+    }
+
+    const validationError = rows.map(validateDraftRow).find((message) => message !== null);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await saveBiomarkerRecord({
+        testDate,
+        sourceType,
+        rawData,
+        analytes: rows.map(fromDraftRow),
+      });
+      onSaved();
+    } catch (err) {
+      console.error('Error saving biomarker record:', err);
+      setError('Failed to save biomarker record');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-8 shadow-sm">
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h2 className="text-2xl font-heading mb-1">REVIEW RESULTS</h2>
+          <p className="font-light text-gray-600">
+            Check each row against your lab report and correct anything that was read incorrectly
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">Test Date</label>
+          <input
+            type="date"
+            value={testDate}
+            onChange={(e) => setTestDate(e.target.value)}
+            required
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+          />
+        </div>
+      </div>
+
+      {lowConfidenceCount > 0 && (
+        <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center space-x-2">
+          <AlertTriangle className="w-5 h-5 text-yellow-600" />
+          <p className="text-sm text-yellow-700">
+            {lowConfidenceCount} {lowConfidenceCount === 1 ? 'row was' : 'rows were'} hard to read - check the highlighted rows against your report
+          </p>
+        </div>
+      )}
+
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2 pr-2 font-medium">Analyte</th>
+              <th className="py-2 pr-2 font-medium">Value</th>
+              <th className="py-2 pr-2 font-medium">Unit</th>
+              <th className="py-2 pr-2 font-medium">Ref. Low</th>
+              <th className="py-2 pr-2 font-medium">Ref. High</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const rowError = validateDraftRow(row);
+              return (
+                <tr
+                  key={row.key}
+                  title={isLowConfidence(row.key) ? `Low recognition confidence (${rowConfidence![row.key]}%)` : undefined}
+                  className={`border-b border-gray-100 ${isLowConfidence(row.key) ? 'bg-yellow-50' : ''}`}
+                >
+                  <td className="py-2 pr-2">
+                    <input
+                      type="text"
+                      value={row.name}
+                      onChange={(e) => updateRow(row.key, 'name', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={row.value}
+                      onChange={(e) => updateRow(row.key, 'value', e.target.value)}
+                      title={rowError ?? undefined}
+                      className={`w-24 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark ${
+                        rowError ? 'border-red-400 bg-red-50' : 'border-gray-300'
+                      }`}
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input
+                      type="text"
+                      value={row.unit}
+                      onChange={(e) => updateRow(row.key, 'unit', e.target.value)}
+                      className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={row.reference_low}
+                      onChange={(e) => updateRow(row.key, 'reference_low', e.target.value)}
+                      className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={row.reference_high}
+                      onChange={(e) => updateRow(row.key, 'reference_high', e.target.value)}
+                      className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+                    />
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => removeRow(row.key)}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => setRows([...rows, createDraftRow()])}
+        className="flex items-center space-x-2 text-brand-text font-medium hover:underline mb-6"
+      >
+        <Plus className="w-4 h-4" />
+        <span>Add Row</span>
+      </button>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="flex space-x-4">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Record'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-6 py-3 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
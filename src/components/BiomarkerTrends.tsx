@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import type { Database } from '../lib/database.types';
+import { buildTrends, type AnalyteTrend } from '../lib/biomarkerTrends';
+import { contextFromProfile } from '../lib/referenceRanges';
+import { getAnalyte } from '../lib/analyteCatalogue';
+import { TrendingUp, TrendingDown, Minus, LineChart } from 'lucide-react';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+type BiomarkerRecord = Database['public']['Tables']['biomarker_records']['Row'];
+
+interface BiomarkerTrendsProps {
+  records: BiomarkerRecord[];
+  profile: Profile | null;
+}
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 260;
+const PADDING = { top: 20, right: 24, bottom: 40, left: 56 };
+
+export function BiomarkerTrends({ records, profile }: BiomarkerTrendsProps) {
+  const trends = buildTrends(records, contextFromProfile(profile), profile?.preferred_unit_system ?? 'si');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  if (trends.length === 0) {
+    return (
+      <div className="bg-white rounded-xl p-12 text-center shadow-sm">
+        <LineChart className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-2xl font-heading mb-2">NO TRENDS YET</h3>
+        <p className="font-light text-gray-600">
+          Trends appear once your records contain biomarker results
+        </p>
+      </div>
+    );
+  }
+
+  const selected = trends.find((trend) => trend.key === selectedKey) ?? trends[0];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2">
+        {trends.map((trend) => (
+          <button
+            key={trend.key}
+            onClick={() => setSelectedKey(trend.key)}
+            className={`px-4 py-2 rounded-lg font-medium transition-all ${
+              selected.key === trend.key
+                ? 'bg-brand-text text-white'
+                : 'bg-white text-brand-text border border-gray-300 hover:bg-brand-cream'
+            }`}
+          >
+            {trend.name}
+            <span className="ml-2 text-xs opacity-70">{trend.points.length}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-xl p-6 shadow-sm">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-2xl font-heading">{selected.name.toUpperCase()}</h2>
+            <p className="text-sm text-gray-500">
+              {selected.unit}
+              {(selected.referenceLow !== null || selected.referenceHigh !== null) && (
+                <> · Reference {formatRange(selected)}</>
+              )}
+            </p>
+            {selected.derivedFrom && (
+              <p className="text-xs text-gray-500 mt-1">
+                Calculated from {selected.derivedFrom.map((key) => getAnalyte(key)?.name ?? key).join(', ')}
+              </p>
+            )}
+          </div>
+          <ChangeBadge change={overallChange(selected)} label="since first draw" />
+        </div>
+
+        <TrendChart trend={selected} />
+
+        <table className="w-full text-sm mt-6">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2 font-medium">Test Date</th>
+              <th className="py-2 font-medium">Value</th>
+              <th className="py-2 font-medium">Change</th>
+              <th className="py-2 font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...selected.points].reverse().map((point) => (
+              <tr key={point.recordId} className="border-b border-gray-100">
+                <td className="py-2">{new Date(point.testDate).toLocaleDateString()}</td>
+                <td className="py-2 font-medium">{point.value} {selected.unit}</td>
+                <td className="py-2">
+                  {point.percentChange === null ? (
+                    <span className="text-gray-400">—</span>
+                  ) : (
+                    <ChangeBadge change={point.percentChange} />
+                  )}
+                </td>
+                <td className="py-2">
+                  {point.flag ? (
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      point.flag.startsWith('critical') ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-700'
+                    }`}>
+                      {point.flag.replace('_', ' ').toUpperCase()}
+                    </span>
+                  ) : (
+                    <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-700">
+                      IN RANGE
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function TrendChart({ trend }: { trend: AnalyteTrend }) {
+  const innerWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+
+  const values = trend.points.map((point) => point.value);
+  const bounds = [...values];
+  if (trend.referenceLow !== null) bounds.push(trend.referenceLow);
+  if (trend.referenceHigh !== null) bounds.push(trend.referenceHigh);
+
+  const rawMin = Math.min(...bounds);
+  const rawMax = Math.max(...bounds);
+  const margin = (rawMax - rawMin || Math.abs(rawMax) || 1) * 0.15;
+  const yMin = Math.max(0, rawMin - margin);
+  const yMax = rawMax + margin;
+
+  const times = trend.points.map((point) => new Date(point.testDate).getTime());
+  const tMin = Math.min(...times);
+  const tMax = Math.max(...times);
+
+  const x = (time: number) =>
+    PADDING.left + (tMax === tMin ? innerWidth / 2 : ((time - tMin) / (tMax - tMin)) * innerWidth);
+  const y = (value: number) => PADDING.top + innerHeight - ((value - yMin) / (yMax - yMin)) * innerHeight;
+
+  const bandTop = y(trend.referenceHigh ?? yMax);
+  const bandBottom = y(trend.referenceLow ?? yMin);
+  const hasBand = trend.referenceLow !== null || trend.referenceHigh !== null;
+
+  const ticks = Array.from({ length: 5 }, (_, index) => yMin + ((yMax - yMin) * index) / 4);
+  const path = trend.points
+    .map((point, index) => `${index === 0 ? 'M' : 'L'} ${x(times[index])} ${y(point.value)}`)
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+      {hasBand && (
+        <rect
+          x={PADDING.left}
+          y={bandTop}
+          width={innerWidth}
+          height={Math.max(0, bandBottom - bandTop)}
+          fill="#dcfce7"
+        />
+      )}
+
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line x1={PADDING.left} x2={PADDING.left + innerWidth} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+          <text x={PADDING.left - 8} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#6b7280">
+            {formatTick(tick)}
+          </text>
+        </g>
+      ))}
+
+      <path d={path} fill="none" stroke="#402A2F" strokeWidth="2" />
+
+      {trend.points.map((point, index) => (
+        <g key={point.recordId}>
+          <circle
+            cx={x(times[index])}
+            cy={y(point.value)}
+            r={point.flag ? 6 : 4}
+            fill={point.flag ? (point.flag.startsWith('critical') ? '#dc2626' : '#f59e0b') : '#402A2F'}
+            stroke="#ffffff"
+            strokeWidth="2"
+          >
+            <title>{`${new Date(point.testDate).toLocaleDateString()}: ${point.value} ${trend.unit}`}</title>
+          </circle>
+          <text
+            x={x(times[index])}
+            y={CHART_HEIGHT - PADDING.bottom + 20}
+            textAnchor="middle"
+            fontSize="11"
+            fill="#6b7280"
+          >
+            {new Date(point.testDate).toLocaleDateString(undefined, { month: 'short', year: '2-digit' })}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+function ChangeBadge({ change, label }: { change: number | null; label?: string }) {
+  if (change === null) return null;
+
+  const rounded = Math.round(change * 10) / 10;
+  const Icon = rounded > 0 ? TrendingUp : rounded < 0 ? TrendingDown : Minus;
+
+  return (
+    <span className="inline-flex items-center space-x-1 text-sm text-gray-700">
+      <Icon className="w-4 h-4" />
+      <span>
+        {rounded > 0 ? '+' : ''}{rounded}%{label && <span className="text-gray-500"> {label}</span>}
+      </span>
+    </span>
+  );
+}
+
+function overallChange(trend: AnalyteTrend): number | null {
+  if (trend.points.length < 2) return null;
+  const first = trend.points[0].value;
+  const last = trend.points[trend.points.length - 1].value;
+  return first ? ((last - first) / first) * 100 : null;
+}
+
+function formatRange(trend: AnalyteTrend): string {
+  if (trend.referenceLow !== null && trend.referenceHigh !== null) {
+    return `${trend.referenceLow}–${trend.referenceHigh}`;
+  }
+  if (trend.referenceLow !== null) return `≥ ${trend.referenceLow}`;
+  return `≤ ${trend.referenceHigh}`;
+}
+
+function formatTick(value: number): string {
+  if (Math.abs(value) >= 100) return Math.round(value).toString();
+  return (Math.round(value * 10) / 10).toString();
+}
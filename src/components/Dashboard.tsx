@@ -1,12 +1,38 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import type { Database } from '../lib/database.types';
-import { Heart, Activity, FileText, Utensils, Calendar, Pill, User, LogOut, Plus, ChefHat, Search, ShoppingCart, Store, Package, Syringe } from 'lucide-react';
+import { Heart, Activity, FileText, Utensils, Calendar, Pill, User, LogOut, Plus, ChefHat, Search, ShoppingCart, Store, Package, Syringe, PenLine, Download, FileJson, FileCode, Camera, Stethoscope, History, AlertCircle, AlertTriangle } from 'lucide-react';
 import { RecipeBrowser } from './RecipeBrowser';
 import { FoodLookup } from './FoodLookup';
+import { FoodLookupHistory } from './FoodLookupHistory';
 import { RestaurantBrowser } from './RestaurantBrowser';
 import { GroceryShopping } from './GroceryShopping';
 import { MedicationTracker } from './MedicationTracker';
+import { LabReportUpload } from './LabReportUpload';
+import { ManualBiomarkerEntry } from './ManualBiomarkerEntry';
+import { BiomarkerTrends } from './BiomarkerTrends';
+import { FhirImport } from './FhirImport';
+import { Hl7Import } from './Hl7Import';
+import { LabPhotoCapture } from './LabPhotoCapture';
+import { HealthConditions } from './HealthConditions';
+import { FoodPreferencesEditor } from './FoodPreferencesEditor';
+import { NutritionRecommendations } from './NutritionRecommendations';
+import { SupplementProtocols } from './SupplementProtocols';
+import { MealPlanEditor } from './MealPlanEditor';
+import { readAnalytes } from '../lib/biomarkers';
+import { readFlaggedMarkers } from '../lib/referenceRanges';
+import { displayValue, type UnitSystem } from '../lib/unitConversion';
+import { buildFhirBundle } from '../lib/fhir';
+import { loadDailyLimits, type DailyLimit } from '../lib/intakeTracking';
+import {
+  ACTIVITY_LABELS,
+  NUTRIENT_LABELS,
+  loadNutritionalTargets,
+  refreshMealPlanTargets,
+  type ActivityLevel,
+  type TargetResult,
+} from '../lib/nutritionalTargets';
+import { generateWeeklyMealPlan } from '../lib/mealPlans';
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
 
@@ -14,7 +40,7 @@ interface DashboardProps {
   onSignOut: () => void;
 }
 
-type View = 'overview' | 'biomarkers' | 'nutrition' | 'recipes' | 'food-lookup' | 'meal-plans' | 'restaurants' | 'grocery' | 'medications' | 'supplements' | 'appointments' | 'profile';
+type View = 'overview' | 'biomarkers' | 'conditions' | 'nutrition' | 'recipes' | 'food-lookup' | 'lookup-history' | 'meal-plans' | 'restaurants' | 'grocery' | 'medications' | 'supplements' | 'appointments' | 'profile';
 
 export function Dashboard({ onSignOut }: DashboardProps) {
   const [profile, setProfile] = useState<Profile | null>(null);
@@ -79,6 +105,12 @@ export function Dashboard({ onSignOut }: DashboardProps) {
             active={currentView === 'biomarkers'}
             onClick={() => setCurrentView('biomarkers')}
           />
+          <NavItem
+            icon={<Stethoscope />}
+            label="Conditions"
+            active={currentView === 'conditions'}
+            onClick={() => setCurrentView('conditions')}
+          />
           <NavItem
             icon={<Utensils />}
             label="Nutrition"
@@ -97,6 +129,12 @@ export function Dashboard({ onSignOut }: DashboardProps) {
             active={currentView === 'food-lookup'}
             onClick={() => setCurrentView('food-lookup')}
           />
+          <NavItem
+            icon={<History />}
+            label="Lookup History"
+            active={currentView === 'lookup-history'}
+            onClick={() => setCurrentView('lookup-history')}
+          />
           <NavItem
             icon={<ShoppingCart />}
             label="Meal Plans"
@@ -155,16 +193,18 @@ export function Dashboard({ onSignOut }: DashboardProps) {
       <main className="flex-1 overflow-auto">
         <div className="p-8">
           <div className="max-w-7xl mx-auto">
-            {currentView === 'overview' && <OverviewView profile={profile} />}
-            {currentView === 'biomarkers' && <BiomarkersView />}
-            {currentView === 'nutrition' && <NutritionView />}
+            {currentView === 'overview' && <OverviewView profile={profile} onNavigate={setCurrentView} />}
+            {currentView === 'biomarkers' && <BiomarkersView profile={profile} />}
+            {currentView === 'conditions' && <HealthConditions />}
+            {currentView === 'nutrition' && <NutritionRecommendations />}
             {currentView === 'recipes' && <RecipeBrowser />}
             {currentView === 'food-lookup' && <FoodLookup />}
+            {currentView === 'lookup-history' && <FoodLookupHistory />}
             {currentView === 'meal-plans' && <MealPlansView />}
             {currentView === 'restaurants' && <RestaurantBrowser />}
             {currentView === 'grocery' && <GroceryShopping />}
             {currentView === 'medications' && <MedicationTracker />}
-            {currentView === 'supplements' && <SupplementsView />}
+            {currentView === 'supplements' && <SupplementProtocols />}
             {currentView === 'appointments' && <AppointmentsView />}
             {currentView === 'profile' && <ProfileView profile={profile} onProfileUpdate={loadProfile} />}
           </div>
@@ -190,7 +230,7 @@ function NavItem({ icon, label, active, onClick }: { icon: React.ReactNode; labe
   );
 }
 
-function OverviewView({ profile }: { profile: Profile | null }) {
+function OverviewView({ profile, onNavigate }: { profile: Profile | null; onNavigate: (view: View) => void }) {
   return (
     <div>
       <h1 className="text-4xl font-heading mb-8">
@@ -218,29 +258,34 @@ function OverviewView({ profile }: { profile: Profile | null }) {
         />
       </div>
 
+      <DailyLimitsCard />
+
       <div className="grid md:grid-cols-2 gap-6">
         <ActionCard
           icon={<FileText />}
           title="Upload Lab Work"
           description="Upload PDFs, photos, or manually enter biomarker data to get started with your precision health journey."
           buttonText="Upload Biomarkers"
-          onClick={() => {}}
+          onClick={() => onNavigate('biomarkers')}
         />
         <ActionCard
           icon={<Utensils />}
           title="Nutrition Recommendations"
           description="Get personalized eat/avoid/caution lists based on your unique biomarker profile and health conditions."
           buttonText="View Nutrition Guide"
-          onClick={() => {}}
+          onClick={() => onNavigate('nutrition')}
         />
       </div>
     </div>
   );
 }
 
-function BiomarkersView() {
+function BiomarkersView({ profile }: { profile: Profile | null }) {
   const [records, setRecords] = useState<Database['public']['Tables']['biomarker_records']['Row'][]>([]);
   const [loading, setLoading] = useState(true);
+  const [entryMode, setEntryMode] = useState<'none' | 'upload' | 'manual' | 'fhir' | 'hl7' | 'photo'>('none');
+  const [displayMode, setDisplayMode] = useState<'records' | 'trends'>('records');
+  const unitSystem = profile?.preferred_unit_system || 'si';
 
   useEffect(() => {
     loadBiomarkers();
@@ -265,17 +310,111 @@ function BiomarkersView() {
     }
   };
 
+  const exportFhir = () => {
+    const bundle = buildFhirBundle(profile, records);
+    const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `biomarkers-fhir-${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div>
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-4xl font-heading">BIOMARKERS</h1>
-        <button className="flex items-center space-x-2 px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all">
-          <Plus className="w-5 h-5" />
-          <span>Upload Lab Work</span>
-        </button>
+        {entryMode === 'none' && (
+          <div className="flex flex-wrap justify-end gap-3">
+            {records.length > 0 && (
+              <button
+                onClick={exportFhir}
+                className="flex items-center space-x-2 px-6 py-3 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+              >
+                <Download className="w-5 h-5" />
+                <span>Export FHIR</span>
+              </button>
+            )}
+            <button
+              onClick={() => setEntryMode('fhir')}
+              className="flex items-center space-x-2 px-6 py-3 bg-brand-button-dark text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+            >
+              <FileJson className="w-5 h-5" />
+              <span>Import FHIR</span>
+            </button>
+            <button
+              onClick={() => setEntryMode('hl7')}
+              className="flex items-center space-x-2 px-6 py-3 bg-brand-button-dark text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+            >
+              <FileCode className="w-5 h-5" />
+              <span>Import HL7</span>
+            </button>
+            <button
+              onClick={() => setEntryMode('photo')}
+              className="flex items-center space-x-2 px-6 py-3 bg-brand-button-dark text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+            >
+              <Camera className="w-5 h-5" />
+              <span>Take Photo</span>
+            </button>
+            <button
+              onClick={() => setEntryMode('manual')}
+              className="flex items-center space-x-2 px-6 py-3 bg-brand-button-dark text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+            >
+              <PenLine className="w-5 h-5" />
+              <span>Enter Manually</span>
+            </button>
+            <button
+              onClick={() => setEntryMode('upload')}
+              className="flex items-center space-x-2 px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all"
+            >
+              <Plus className="w-5 h-5" />
+              <span>Upload Lab Work</span>
+            </button>
+          </div>
+        )}
       </div>
 
-      {loading ? (
+      {entryMode === 'upload' ? (
+        <LabReportUpload
+          onComplete={() => {
+            setEntryMode('none');
+            loadBiomarkers();
+          }}
+          onCancel={() => setEntryMode('none')}
+        />
+      ) : entryMode === 'manual' ? (
+        <ManualBiomarkerEntry
+          onComplete={() => {
+            setEntryMode('none');
+            loadBiomarkers();
+          }}
+          onCancel={() => setEntryMode('none')}
+        />
+      ) : entryMode === 'fhir' ? (
+        <FhirImport
+          onComplete={() => {
+            setEntryMode('none');
+            loadBiomarkers();
+          }}
+          onCancel={() => setEntryMode('none')}
+        />
+      ) : entryMode === 'photo' ? (
+        <LabPhotoCapture
+          onComplete={() => {
+            setEntryMode('none');
+            loadBiomarkers();
+          }}
+          onCancel={() => setEntryMode('none')}
+        />
+      ) : entryMode === 'hl7' ? (
+        <Hl7Import
+          onComplete={() => {
+            setEntryMode('none');
+            loadBiomarkers();
+          }}
+          onCancel={() => setEntryMode('none')}
+        />
+      ) : loading ? (
         <div className="text-center py-12">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-text mx-auto mb-4"></div>
           <p className="font-light">Loading biomarker records...</p>
@@ -287,18 +426,41 @@ function BiomarkersView() {
           <p className="font-light text-gray-600 mb-6">
             Upload your first lab work to start your precision health journey
           </p>
-          <button className="px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all">
+          <button
+            onClick={() => setEntryMode('upload')}
+            className="px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all"
+          >
             Upload Lab Work
           </button>
         </div>
       ) : (
         <div className="space-y-4">
-          {records.map((record) => (
+          <div className="flex space-x-2">
+            {(['records', 'trends'] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setDisplayMode(mode)}
+                className={`px-4 py-2 rounded-lg font-medium transition-all ${
+                  displayMode === mode
+                    ? 'bg-brand-text text-white'
+                    : 'bg-white text-brand-text border border-gray-300 hover:bg-brand-cream'
+                }`}
+              >
+                {mode === 'records' ? 'Records' : 'Trends'}
+              </button>
+            ))}
+          </div>
+          {displayMode === 'trends' ? (
+            <BiomarkerTrends records={records} profile={profile} />
+          ) : records.map((record) => (
             <div key={record.id} className="bg-white rounded-xl p-6 shadow-sm hover:shadow-md transition-shadow">
               <div className="flex justify-between items-start">
                 <div>
                   <p className="text-sm text-gray-500">Test Date</p>
                   <p className="text-lg font-medium">{new Date(record.test_date).toLocaleDateString()}</p>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {readAnalytes(record.processed_data).length} markers · {record.source_type.toUpperCase()}
+                  </p>
                 </div>
                 <span className={`px-3 py-1 rounded-full text-sm font-medium ${
                   record.risk_level === 'urgent' ? 'bg-red-100 text-red-700' :
@@ -308,6 +470,25 @@ function BiomarkersView() {
                   {record.risk_level.toUpperCase()}
                 </span>
               </div>
+              {readFlaggedMarkers(record.flagged_markers).length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-4">
+                  {readFlaggedMarkers(record.flagged_markers).map((marker) => {
+                    const shown = displayValue(marker.analyte_key, marker.value, marker.unit, unitSystem);
+                    return (
+                      <span
+                        key={marker.name}
+                        className={`px-3 py-1 rounded-full text-xs font-medium ${
+                          marker.flag === 'critical_low' || marker.flag === 'critical_high'
+                            ? 'bg-red-100 text-red-700'
+                            : 'bg-yellow-100 text-yellow-700'
+                        }`}
+                      >
+                        {marker.name} {shown.value} {shown.unit} · {marker.flag.replace('_', ' ').toUpperCase()}
+                      </span>
+                    );
+                  })}
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -316,39 +497,13 @@ function BiomarkersView() {
   );
 }
 
-function NutritionView() {
-  return (
-    <div>
-      <h1 className="text-4xl font-heading mb-8">NUTRITION RECOMMENDATIONS</h1>
-      <div className="bg-white rounded-xl p-12 text-center shadow-sm">
-        <Utensils className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-        <h3 className="text-2xl font-heading mb-2">NUTRITION INSIGHTS COMING SOON</h3>
-        <p className="font-light text-gray-600">
-          Upload your biomarker data to receive personalized nutrition recommendations
-        </p>
-      </div>
-    </div>
-  );
-}
-
-function SupplementsView() {
-  return (
-    <div>
-      <h1 className="text-4xl font-heading mb-8">SUPPLEMENT PROTOCOLS</h1>
-      <div className="bg-white rounded-xl p-12 text-center shadow-sm">
-        <Pill className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-        <h3 className="text-2xl font-heading mb-2">SUPPLEMENT PROTOCOLS COMING SOON</h3>
-        <p className="font-light text-gray-600">
-          Upload your biomarker data to receive personalized supplement recommendations
-        </p>
-      </div>
-    </div>
-  );
-}
-
 function MealPlansView() {
   const [mealPlans, setMealPlans] = useState<Database['public']['Tables']['weekly_meal_plans']['Row'][]>([]);
   const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [selectedPlanId, setSelectedPlanId] = useState<string | null>(null);
 
   useEffect(() => {
     loadMealPlans();
@@ -373,16 +528,74 @@ function MealPlansView() {
     }
   };
 
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError(null);
+    setWarnings([]);
+
+    try {
+      const { warnings, excluded } = await generateWeeklyMealPlan();
+      setWarnings([
+        ...(excluded > 0
+          ? [`${excluded} ${excluded === 1 ? 'recipe was' : 'recipes were'} left out because of your health conditions or food preferences.`]
+          : []),
+        ...warnings,
+      ]);
+      loadMealPlans();
+    } catch (error) {
+      console.error('Error generating meal plan:', error);
+      setError(error instanceof Error ? error.message : 'Failed to generate meal plan');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  if (selectedPlanId) {
+    return (
+      <MealPlanEditor
+        planId={selectedPlanId}
+        onBack={() => {
+          setSelectedPlanId(null);
+          loadMealPlans();
+        }}
+      />
+    );
+  }
+
   return (
     <div>
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-4xl font-heading">MEAL PLANS</h1>
-        <button className="flex items-center space-x-2 px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all">
+        <button
+          onClick={handleGenerate}
+          disabled={generating}
+          className="flex items-center space-x-2 px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all disabled:opacity-50"
+        >
           <Plus className="w-5 h-5" />
-          <span>Generate Meal Plan</span>
+          <span>{generating ? 'Generating...' : 'Generate Meal Plan'}</span>
         </button>
       </div>
 
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {warnings.length > 0 && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start space-x-3">
+          <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+          <ul className="text-sm text-yellow-800 space-y-1">
+            {warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <NutritionalTargetsCard />
+
       {loading ? (
         <div className="text-center py-12">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-text mx-auto mb-4"></div>
@@ -395,8 +608,12 @@ function MealPlansView() {
           <p className="font-light text-gray-600 mb-6">
             Generate your first personalized meal plan based on your biomarkers and health goals
           </p>
-          <button className="px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all">
-            Generate Meal Plan
+          <button
+            onClick={handleGenerate}
+            disabled={generating}
+            className="px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all disabled:opacity-50"
+          >
+            {generating ? 'Generating...' : 'Generate Meal Plan'}
           </button>
         </div>
       ) : (
@@ -418,7 +635,7 @@ function MealPlansView() {
                   {plan.status.toUpperCase()}
                 </span>
               </div>
-              <button className="text-brand-text font-medium hover:underline">
+              <button onClick={() => setSelectedPlanId(plan.id)} className="text-brand-text font-medium hover:underline">
                 View Details
               </button>
             </div>
@@ -456,6 +673,8 @@ function ProfileView({ profile, onProfileUpdate }: { profile: Profile | null; on
   const [dateOfBirth, setDateOfBirth] = useState(profile?.date_of_birth || '');
   const [weightKg, setWeightKg] = useState(profile?.weight_kg?.toString() || '');
   const [heightCm, setHeightCm] = useState(profile?.height_cm?.toString() || '');
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(profile?.preferred_unit_system || 'si');
+  const [activityLevel, setActivityLevel] = useState<ActivityLevel | ''>(profile?.activity_level || '');
   const [saving, setSaving] = useState(false);
 
   const handleSave = async (e: React.FormEvent) => {
@@ -473,6 +692,8 @@ function ProfileView({ profile, onProfileUpdate }: { profile: Profile | null; on
           date_of_birth: dateOfBirth || null,
           weight_kg: weightKg ? parseFloat(weightKg) : null,
           height_cm: heightCm ? parseFloat(heightCm) : null,
+          preferred_unit_system: unitSystem,
+          activity_level: activityLevel || null,
           updated_at: new Date().toISOString(),
         })
         .eq('id', user.id);
@@ -481,6 +702,7 @@ function ProfileView({ profile, onProfileUpdate }: { profile: Profile | null; on
 
       setEditing(false);
       onProfileUpdate();
+      refreshMealPlanTargets().catch((error) => console.error('Error updating meal plan targets:', error));
     } catch (error) {
       console.error('Error updating profile:', error);
     } finally {
@@ -552,6 +774,36 @@ function ProfileView({ profile, onProfileUpdate }: { profile: Profile | null; on
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium mb-2">Activity Level</label>
+            <select
+              value={activityLevel}
+              onChange={(e) => setActivityLevel(e.target.value as ActivityLevel | '')}
+              disabled={!editing}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark disabled:bg-gray-50"
+            >
+              <option value="">Not set</option>
+              {(Object.entries(ACTIVITY_LABELS) as [ActivityLevel, string][]).map(([level, label]) => (
+                <option key={level} value={level}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Lab Result Units</label>
+            <select
+              value={unitSystem}
+              onChange={(e) => setUnitSystem(e.target.value as UnitSystem)}
+              disabled={!editing}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark disabled:bg-gray-50"
+            >
+              <option value="si">SI (mmol/L, umol/L) - UK, Europe, Australia</option>
+              <option value="conventional">Conventional (mg/dL) - US</option>
+            </select>
+          </div>
+
           {editing && (
             <div className="flex space-x-4">
               <button
@@ -569,6 +821,8 @@ function ProfileView({ profile, onProfileUpdate }: { profile: Profile | null; on
                   setDateOfBirth(profile?.date_of_birth || '');
                   setWeightKg(profile?.weight_kg?.toString() || '');
                   setHeightCm(profile?.height_cm?.toString() || '');
+                  setUnitSystem(profile?.preferred_unit_system || 'si');
+                  setActivityLevel(profile?.activity_level || '');
                 }}
                 className="px-6 py-3 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
               >
@@ -578,6 +832,110 @@ function ProfileView({ profile, onProfileUpdate }: { profile: Profile | null; on
           )}
         </form>
       </div>
+
+      <FoodPreferencesEditor />
+    </div>
+  );
+}
+
+function DailyLimitsCard() {
+  const [limits, setLimits] = useState<DailyLimit[]>([]);
+
+  useEffect(() => {
+    loadDailyLimits()
+      .then(setLimits)
+      .catch((error) => console.error('Error loading daily limits:', error));
+  }, []);
+
+  if (limits.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-sm mb-8">
+      <h2 className="text-2xl font-heading mb-4">TODAY'S LIMITS</h2>
+      <div className="space-y-4">
+        {limits.map((limit) => {
+          const percent = (limit.consumedGrams / limit.maxGrams) * 100;
+          return (
+            <div key={limit.ingredientId}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-medium">
+                  {limit.ingredient} <span className="font-light text-gray-500">({limit.conditionName})</span>
+                </span>
+                <span className={percent > 100 ? 'text-red-600 font-medium' : 'text-gray-600'}>
+                  {Math.round(limit.consumedGrams)}g / {limit.maxGrams}g
+                </span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className={`h-2 rounded-full ${percent > 100 ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                  style={{ width: `${Math.min(percent, 100)}%` }}
+                />
+              </div>
+              {percent > 100 && (
+                <p className="text-xs text-red-600 mt-1">Over today's limit - avoid {limit.ingredient} for the rest of the day</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function NutritionalTargetsCard() {
+  const [result, setResult] = useState<TargetResult | null>(null);
+
+  useEffect(() => {
+    loadNutritionalTargets()
+      .then(setResult)
+      .catch((error) => console.error('Error loading nutritional targets:', error));
+  }, []);
+
+  if (!result) return null;
+
+  if (!result.targets) {
+    return (
+      <div className="bg-white rounded-xl p-6 shadow-sm mb-8">
+        <h2 className="text-2xl font-heading mb-2">DAILY NUTRITION TARGETS</h2>
+        <p className="font-light text-gray-600">
+          Add your {result.missing.join(', ')} on your profile to calculate personal energy and nutrient targets.
+        </p>
+      </div>
+    );
+  }
+
+  const { energy_basis, nutrients, adjustments } = result.targets;
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-sm mb-8">
+      <h2 className="text-2xl font-heading mb-1">DAILY NUTRITION TARGETS</h2>
+      <p className="text-sm text-gray-500 font-light mb-4">{energy_basis}</p>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {nutrients.map((nutrient) => (
+          <div key={nutrient.nutrient} className="p-3 bg-brand-cream rounded-lg">
+            <p className="text-sm text-gray-600">{NUTRIENT_LABELS[nutrient.nutrient]}</p>
+            <p className="text-xl font-heading">
+              {nutrient.target} {nutrient.unit}
+            </p>
+            <p className="text-xs text-gray-500">
+              {nutrient.min !== null && nutrient.max !== null
+                ? `${nutrient.min}-${nutrient.max} ${nutrient.unit}`
+                : nutrient.max !== null
+                  ? `Max ${nutrient.max} ${nutrient.unit}`
+                  : nutrient.min !== null
+                    ? `Min ${nutrient.min} ${nutrient.unit}`
+                    : ''}
+            </p>
+          </div>
+        ))}
+      </div>
+      {adjustments.length > 0 && (
+        <ul className="mt-4 space-y-1 text-sm text-gray-600 font-light list-disc list-inside">
+          {adjustments.map((note) => (
+            <li key={note}>{note}</li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
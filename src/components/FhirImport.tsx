@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { parseFhirBundle, type FhirImportGroup } from '../lib/fhir';
+import { saveBiomarkerRecord } from '../lib/biomarkerRecords';
+import { Upload, AlertCircle, CheckCircle } from 'lucide-react';
+
+interface FhirImportProps {
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+export function FhirImport({ onComplete, onCancel }: FhirImportProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [groups, setGroups] = useState<FhirImportGroup[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+
+    try {
+      const parsed = parseFhirBundle(JSON.parse(await file.text()));
+
+      if (parsed.length === 0) {
+        setError('No numeric lab Observations were found in this bundle');
+        return;
+      }
+
+      setFileName(file.name);
+      setGroups(parsed);
+      setSelected(new Set(parsed.map((_, index) => index)));
+    } catch (err) {
+      console.error('Error reading FHIR bundle:', err);
+      setError(err instanceof SyntaxError ? 'This file is not valid JSON' : 'This file is not a FHIR R4 Bundle');
+    }
+  };
+
+  const toggleGroup = (index: number) => {
+    const next = new Set(selected);
+    if (next.has(index)) next.delete(index);
+    else next.add(index);
+    setSelected(next);
+  };
+
+  const handleImport = async () => {
+    setError(null);
+    setImporting(true);
+
+    try {
+      for (const [index, group] of groups.entries()) {
+        if (!selected.has(index)) continue;
+        await saveBiomarkerRecord({
+          testDate: group.testDate,
+          sourceType: 'integration',
+          rawData: {
+            format: 'fhir_r4',
+            file_name: fileName,
+            report_id: group.reportId,
+            resources: group.resources,
+          },
+          analytes: group.analytes,
+        });
+      }
+      onComplete();
+    } catch (err) {
+      console.error('Error importing FHIR bundle:', err);
+      setError('Failed to import lab results');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-8 shadow-sm">
+      <h2 className="text-2xl font-heading mb-2">IMPORT FHIR BUNDLE</h2>
+      <p className="font-light text-gray-600 mb-6">
+        Import lab results exported from a clinical system as a FHIR R4 Bundle (JSON)
+      </p>
+
+      {groups.length === 0 ? (
+        <label className="block border-2 border-dashed border-gray-300 rounded-xl p-12 text-center cursor-pointer hover:border-brand-text hover:bg-brand-cream transition-all">
+          <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="font-medium mb-1">Choose a FHIR Bundle file</p>
+          <p className="text-sm text-gray-500">Observation and DiagnosticReport resources with LOINC codes</p>
+          <input
+            type="file"
+            accept="application/json,application/fhir+json,.json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </label>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Found {groups.length} {groups.length === 1 ? 'report' : 'reports'} in {fileName}
+          </p>
+          {groups.map((group, index) => (
+            <label
+              key={index}
+              className="flex items-start space-x-3 p-4 bg-brand-cream rounded-lg cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={selected.has(index)}
+                onChange={() => toggleGroup(index)}
+                className="mt-1"
+              />
+              <div className="flex-1">
+                <div className="flex justify-between">
+                  <p className="font-medium">{group.title}</p>
+                  <p className="text-sm text-gray-500">{new Date(group.testDate).toLocaleDateString()}</p>
+                </div>
+                <p className="text-sm text-gray-600 mt-1">
+                  {group.analytes.map((analyte) => `${analyte.name} ${analyte.value} ${analyte.unit}`).join(' · ')}
+                </p>
+                {group.analytes.some((analyte) => !analyte.analyte_key) && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Some results have no recognised LOINC code and will be stored by name
+                  </p>
+                )}
+              </div>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="flex space-x-4 mt-6">
+        {groups.length > 0 && (
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={importing || selected.size === 0}
+            className="flex items-center space-x-2 px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all disabled:opacity-50"
+          >
+            <CheckCircle className="w-5 h-5" />
+            <span>{importing ? 'Importing...' : `Import ${selected.size} ${selected.size === 1 ? 'Report' : 'Reports'}`}</span>
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-6 py-3 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,30 @@
 import { useState } from 'react';
 import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { loadLookupContext, lookupFood, saveLookup, type LookupResult } from '../lib/foodLookup';
+import { VerdictTrace } from './VerdictTrace';
+import { ProductScanner } from './ProductScanner';
+import {
+  checkPlannedIntake,
+  DEFAULT_PORTION_GRAMS,
+  loadDailyLimits,
+  logMeal,
+  type DailyLimit,
+  type MealLogItem,
+} from '../lib/intakeTracking';
 import { Search, AlertCircle, CheckCircle, XCircle, Info } from 'lucide-react';
 
-interface LookupResult {
-  food_name: string;
-  safety_classification: 'safe' | 'caution' | 'avoid';
-  rationale: string;
-  ingredients_identified: string[];
-}
+type LookupHistory = Database['public']['Tables']['food_lookup_history']['Row'];
 
 export function FoodLookup() {
   const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<LookupResult | null>(null);
-  const [recentLookups, setRecentLookups] = useState<LookupResult[]>([]);
+  const [recentLookups, setRecentLookups] = useState<LookupHistory[]>([]);
+  const [mealItems, setMealItems] = useState<MealLogItem[]>([]);
+  const [limits, setLimits] = useState<DailyLimit[]>([]);
+  const [mealLogged, setMealLogged] = useState(false);
+  const [mode, setMode] = useState<'food' | 'product'>('food');
 
   const handleLookup = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -21,96 +32,25 @@ export function FoodLookup() {
 
     setLoading(true);
     setResult(null);
+    setMealLogged(false);
 
     try {
-      const { data: ingredientData } = await supabase
-        .from('ingredients')
-        .select('*, species_safe, toxicity_warnings')
-        .ilike('name', `%${searchQuery}%`)
-        .limit(1)
-        .maybeSingle();
-
-      let classification: 'safe' | 'caution' | 'avoid' = 'safe';
-      let rationale = 'This food appears to be generally safe for consumption.';
-      const ingredients: string[] = [];
-
-      if (ingredientData) {
-        ingredients.push(ingredientData.name);
-
-        const { data: { user } } = await supabase.auth.getUser();
-        if (user) {
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('species_type')
-            .eq('id', user.id)
-            .maybeSingle();
-
-          const speciesType = profile?.species_type || 'human';
-
-          if (ingredientData.toxicity_warnings && ingredientData.toxicity_warnings.length > 0) {
-            const toxicForSpecies = ingredientData.toxicity_warnings.find(
-              (warning: any) => warning.species?.includes(speciesType)
-            );
-
-            if (toxicForSpecies) {
-              classification = 'avoid';
-              rationale = `DANGER: ${ingredientData.name} is toxic to ${speciesType}s. ${toxicForSpecies.effect || 'Can cause serious health issues.'}`;
-            }
-          }
-
-          if (classification === 'safe' && ingredientData.species_safe) {
-            const isSafe = ingredientData.species_safe[speciesType];
-            if (isSafe === false) {
-              classification = 'avoid';
-              rationale = `${ingredientData.name} is not safe for ${speciesType} consumption.`;
-            }
-          }
-
-          const { data: contraindications } = await supabase
-            .from('ingredient_contraindications')
-            .select('*')
-            .eq('ingredient_id', ingredientData.id)
-            .eq('species_type', speciesType);
-
-          if (contraindications && contraindications.length > 0) {
-            const avoidConditions = contraindications.filter(c => c.contraindication_type === 'avoid');
-            const cautionConditions = contraindications.filter(c => c.contraindication_type === 'caution' || c.contraindication_type === 'limit');
-
-            if (avoidConditions.length > 0) {
-              classification = 'caution';
-              rationale = `Use caution: ${ingredientData.name} should be avoided if you have ${avoidConditions.map(c => c.condition_name).join(', ')}.`;
-            } else if (cautionConditions.length > 0) {
-              classification = 'caution';
-              rationale = `Monitor intake: ${ingredientData.name} should be limited if you have ${cautionConditions.map(c => c.condition_name).join(', ')}.`;
-            }
-          }
-        }
-      } else {
-        classification = 'caution';
-        rationale = 'This food is not in our database yet. Please consult with a healthcare professional if you have specific dietary concerns.';
-      }
-
-      const lookupResult: LookupResult = {
-        food_name: searchQuery,
-        safety_classification: classification,
-        rationale,
-        ingredients_identified: ingredients,
-      };
+      const lookupResult = await lookupFood(searchQuery, await loadLookupContext());
 
       setResult(lookupResult);
+      setMealItems(
+        lookupResult.matched.map((ingredient) => ({
+          ingredient_id: ingredient.id,
+          ingredient: ingredient.name,
+          quantity_g: DEFAULT_PORTION_GRAMS,
+        }))
+      );
 
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user) {
-        await supabase.from('food_lookup_history').insert({
-          profile_id: user.id,
-          food_name: searchQuery,
-          safety_classification: classification,
-          rationale,
-          ingredients_identified: ingredients,
-        });
-
-        loadRecentLookups();
-      }
+      await saveLookup(lookupResult);
+      loadRecentLookups();
+      loadDailyLimits()
+        .then(setLimits)
+        .catch((error) => console.error('Error loading daily limits:', error));
     } catch (error) {
       console.error('Error looking up food:', error);
     } finally {
@@ -118,6 +58,18 @@ export function FoodLookup() {
     }
   };
 
+  const handleLogMeal = async () => {
+    try {
+      await logMeal({ description: result?.food_name ?? searchQuery, items: mealItems.filter((item) => item.quantity_g > 0) });
+      setMealLogged(true);
+      setLimits(await loadDailyLimits());
+    } catch (error) {
+      console.error('Error logging meal:', error);
+    }
+  };
+
+  const intakeWarnings = checkPlannedIntake(limits, mealItems);
+
   const loadRecentLookups = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -146,62 +98,155 @@ export function FoodLookup() {
         </p>
       </div>
 
-      <div className="bg-white rounded-xl p-8 shadow-sm mb-8">
-        <form onSubmit={handleLookup} className="space-y-4">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
-            <input
-              type="text"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Enter food name (e.g., onion, salmon, blueberries)..."
-              className="w-full pl-10 pr-4 py-4 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark text-lg"
-            />
-          </div>
+      <div className="flex space-x-2 mb-6">
+        {([['food', 'Food or Meal'], ['product', 'Packaged Product']] as const).map(([value, label]) => (
           <button
-            type="submit"
-            disabled={loading || !searchQuery.trim()}
-            className="w-full px-6 py-4 bg-brand-text text-white rounded-lg font-semibold hover:opacity-90 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            key={value}
+            onClick={() => setMode(value)}
+            className={`px-4 py-2 rounded-lg font-medium transition-all ${
+              mode === value
+                ? 'bg-brand-text text-white'
+                : 'bg-white text-brand-text border border-gray-300 hover:bg-brand-cream'
+            }`}
           >
-            {loading ? 'Analyzing...' : 'Check Food Safety'}
+            {label}
           </button>
-        </form>
-
-        {result && (
-          <div className="mt-8 p-6 rounded-lg border-2" style={{
-            borderColor: result.safety_classification === 'safe' ? '#10b981' :
-                        result.safety_classification === 'caution' ? '#f59e0b' : '#ef4444',
-            backgroundColor: result.safety_classification === 'safe' ? '#f0fdf4' :
-                            result.safety_classification === 'caution' ? '#fffbeb' : '#fef2f2'
-          }}>
-            <div className="flex items-start space-x-4">
-              <div className="flex-shrink-0">
-                {result.safety_classification === 'safe' && <CheckCircle className="w-8 h-8 text-green-600" />}
-                {result.safety_classification === 'caution' && <AlertCircle className="w-8 h-8 text-yellow-600" />}
-                {result.safety_classification === 'avoid' && <XCircle className="w-8 h-8 text-red-600" />}
-              </div>
-              <div className="flex-1">
-                <h3 className="text-2xl font-heading mb-2" style={{
-                  color: result.safety_classification === 'safe' ? '#065f46' :
-                         result.safety_classification === 'caution' ? '#92400e' : '#991b1b'
-                }}>
-                  {result.safety_classification === 'safe' && 'SAFE'}
-                  {result.safety_classification === 'caution' && 'USE CAUTION'}
-                  {result.safety_classification === 'avoid' && 'AVOID'}
-                </h3>
-                <p className="font-light text-gray-700 mb-4">{result.rationale}</p>
-                {result.ingredients_identified.length > 0 && (
-                  <div className="flex items-center space-x-2 text-sm">
-                    <Info className="w-4 h-4" />
-                    <span className="font-medium">Identified ingredients:</span>
-                    <span>{result.ingredients_identified.join(', ')}</span>
-                  </div>
-                )}
+        ))}
+      </div>
+
+      {mode === 'product' && <ProductScanner onLookupSaved={loadRecentLookups} />}
+
+      {mode === 'food' && (
+        <div className="bg-white rounded-xl p-8 shadow-sm mb-8">
+          <form onSubmit={handleLookup} className="space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Enter a food or meal (e.g., onion, salmon stir fry with quinoa)..."
+                className="w-full pl-10 pr-4 py-4 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark text-lg"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading || !searchQuery.trim()}
+              className="w-full px-6 py-4 bg-brand-text text-white rounded-lg font-semibold hover:opacity-90 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Analyzing...' : 'Check Food Safety'}
+            </button>
+          </form>
+
+          {result && (
+            <div className="mt-8 p-6 rounded-lg border-2" style={{
+              borderColor: result.safety_classification === 'safe' ? '#10b981' :
+                          result.safety_classification === 'caution' ? '#f59e0b' : '#ef4444',
+              backgroundColor: result.safety_classification === 'safe' ? '#f0fdf4' :
+                              result.safety_classification === 'caution' ? '#fffbeb' : '#fef2f2'
+            }}>
+              <div className="flex items-start space-x-4">
+                <div className="flex-shrink-0">
+                  {result.safety_classification === 'safe' && <CheckCircle className="w-8 h-8 text-green-600" />}
+                  {result.safety_classification === 'caution' && <AlertCircle className="w-8 h-8 text-yellow-600" />}
+                  {result.safety_classification === 'avoid' && <XCircle className="w-8 h-8 text-red-600" />}
+                </div>
+                <div className="flex-1">
+                  <h3 className="text-2xl font-heading mb-2" style={{
+                    color: result.safety_classification === 'safe' ? '#065f46' :
+                           result.safety_classification === 'caution' ? '#92400e' : '#991b1b'
+                  }}>
+                    {result.safety_classification === 'safe' && 'SAFE'}
+                    {result.safety_classification === 'caution' && 'USE CAUTION'}
+                    {result.safety_classification === 'avoid' && 'AVOID'}
+                  </h3>
+                  <p className="font-light text-gray-700 mb-4">{result.rationale}</p>
+                  {result.ingredients_identified.length > 0 && (
+                    <div className="flex items-center space-x-2 text-sm">
+                      <Info className="w-4 h-4" />
+                      <span className="font-medium">Identified ingredients:</span>
+                      <span>{result.ingredients_identified.join(', ')}</span>
+                    </div>
+                  )}
+                  {result.assessments.length > 1 && (
+                    <div className="mt-4 space-y-2">
+                      {result.assessments.map((assessment) => (
+                        <div key={assessment.ingredient} className="flex items-start space-x-2 p-3 bg-white rounded-lg">
+                          {assessment.classification === 'safe' && <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />}
+                          {assessment.classification === 'caution' && <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0" />}
+                          {assessment.classification === 'avoid' && <XCircle className="w-5 h-5 text-red-600 flex-shrink-0" />}
+                          <div>
+                            <p className="font-medium">{assessment.ingredient}</p>
+                            <p className="text-sm text-gray-600">{assessment.rationale}</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {result.assessments.length > 0 && <VerdictTrace trace={result.trace} />}
+                  {mealItems.length > 0 && (
+                    <div className="mt-4 pt-4 border-t border-gray-200">
+                      <p className="text-sm font-medium text-gray-600 mb-2">Portion (grams)</p>
+                      <div className="flex flex-wrap gap-3 mb-3">
+                        {mealItems.map((item, index) => (
+                          <label key={item.ingredient_id} className="flex items-center space-x-2 text-sm">
+                            <span>{item.ingredient}</span>
+                            <input
+                              type="number"
+                              min="0"
+                              step="10"
+                              value={item.quantity_g}
+                              onChange={(e) =>
+                                setMealItems(
+                                  mealItems.map((current, i) =>
+                                    i === index ? { ...current, quantity_g: parseFloat(e.target.value) || 0 } : current
+                                  )
+                                )
+                              }
+                              className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+                            />
+                          </label>
+                        ))}
+                      </div>
+                      {intakeWarnings.map((warning) => (
+                        <p key={warning.limit.ingredientId} className="flex items-center space-x-2 text-sm text-red-700 mb-2">
+                          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                          <span>
+                            This would take you to {Math.round(warning.totalGrams)}g of {warning.limit.ingredient} today - over your{' '}
+                            {warning.limit.maxGrams}g daily limit for {warning.limit.conditionName}
+                            {warning.limit.consumedGrams > 0 && ` (${Math.round(warning.limit.consumedGrams)}g already logged)`}.
+                          </span>
+                        </p>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={handleLogMeal}
+                        disabled={mealLogged}
+                        className="px-4 py-2 bg-brand-button-dark text-brand-text rounded-lg text-sm font-medium hover:bg-brand-button-medium transition-all disabled:opacity-50"
+                      >
+                        {mealLogged ? 'Logged for today' : 'Log as Eaten'}
+                      </button>
+                    </div>
+                  )}
+                  {result.not_relevant.length > 0 && (
+                    <div className="mt-4 pt-4 border-t border-gray-200">
+                      <p className="text-sm font-medium text-gray-600 mb-2">Not relevant to you</p>
+                      <ul className="space-y-1">
+                        {result.not_relevant.map((note) => (
+                          <li key={`${note.condition_name}-${note.contraindication_type}`} className="text-sm text-gray-500">
+                            <span className="capitalize">{note.contraindication_type}</span> with {note.condition_name}
+                            {note.rationale && ` - ${note.rationale}`}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
               </div>
             </div>
-          </div>
-        )}
-      </div>
+          )}
+        </div>
+      )}
 
       {recentLookups.length > 0 && (
         <div className="bg-white rounded-xl p-8 shadow-sm">
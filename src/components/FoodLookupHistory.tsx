@@ -0,0 +1,266 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { readDecisionTrace, type SafetyClassification } from '../lib/foodSafety';
+import {
+  loadLookupContext,
+  lookupFood,
+  lookupFrequencies,
+  lookupKey,
+  repeatedAvoidLookups,
+  type LookupResult,
+} from '../lib/foodLookup';
+import { VerdictTrace } from './VerdictTrace';
+import { Search, AlertCircle, CheckCircle, XCircle, RefreshCw, ArrowRight } from 'lucide-react';
+
+type LookupHistory = Database['public']['Tables']['food_lookup_history']['Row'];
+
+type ClassificationFilter = 'all' | SafetyClassification;
+
+const HISTORY_LIMIT = 500;
+
+const CLASSIFICATION_LABELS: Record<SafetyClassification, string> = {
+  safe: 'Safe',
+  caution: 'Caution',
+  avoid: 'Avoid',
+};
+
+function ClassificationIcon({ classification, className = 'w-5 h-5' }: { classification: SafetyClassification; className?: string }) {
+  if (classification === 'safe') return <CheckCircle className={`${className} text-green-600 flex-shrink-0`} />;
+  if (classification === 'caution') return <AlertCircle className={`${className} text-yellow-600 flex-shrink-0`} />;
+  return <XCircle className={`${className} text-red-600 flex-shrink-0`} />;
+}
+
+export function FoodLookupHistory() {
+  const [history, setHistory] = useState<LookupHistory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [classificationFilter, setClassificationFilter] = useState<ClassificationFilter>('all');
+  const [rechecks, setRechecks] = useState<Map<string, LookupResult>>(new Map());
+  const [rechecking, setRechecking] = useState(false);
+
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  const loadHistory = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('food_lookup_history')
+        .select('*')
+        .eq('profile_id', user.id)
+        .order('lookup_date', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (error) throw error;
+      setHistory(data || []);
+    } catch (error) {
+      console.error('Error loading lookup history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const filteredHistory = history.filter((lookup) => {
+    if (classificationFilter !== 'all' && lookup.safety_classification !== classificationFilter) return false;
+    return lookup.food_name.toLowerCase().includes(searchQuery.trim().toLowerCase());
+  });
+
+  const frequencies = lookupFrequencies(history);
+  const repeatedAvoids = repeatedAvoidLookups(frequencies);
+
+  const recheckLookups = async () => {
+    setRechecking(true);
+
+    try {
+      const context = await loadLookupContext();
+      const results = new Map<string, LookupResult>();
+
+      for (const lookup of filteredHistory) {
+        const key = lookupKey(lookup.food_name);
+        if (!results.has(key)) results.set(key, await lookupFood(lookup.food_name, context));
+      }
+
+      setRechecks(results);
+    } catch (error) {
+      console.error('Error re-checking lookups:', error);
+    } finally {
+      setRechecking(false);
+    }
+  };
+
+  const changedCount = [...rechecks.entries()].filter(([key, result]) => {
+    const latest = frequencies.find((frequency) => frequency.key === key);
+    return latest && latest.latestClassification !== result.safety_classification;
+  }).length;
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-text mx-auto mb-4"></div>
+        <p className="font-light">Loading lookup history...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-4xl font-heading">LOOKUP HISTORY</h1>
+          <p className="font-light text-gray-600 mt-2">
+            Everything you've checked, and whether the verdict still holds for your current profile
+          </p>
+        </div>
+        <button
+          onClick={recheckLookups}
+          disabled={rechecking || filteredHistory.length === 0}
+          className="flex items-center space-x-2 px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all disabled:opacity-50"
+        >
+          <RefreshCw className={`w-5 h-5 ${rechecking ? 'animate-spin' : ''}`} />
+          <span>{rechecking ? 'Re-checking...' : 'Re-check Against Current Profile'}</span>
+        </button>
+      </div>
+
+      {history.length === 0 ? (
+        <div className="bg-white rounded-xl p-6 shadow-sm">
+          <p className="text-gray-500 font-light text-center py-8">
+            No lookups yet. Foods you check in Food Lookup will appear here.
+          </p>
+        </div>
+      ) : (
+        <>
+          {repeatedAvoids.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-xl p-6 mb-8">
+              <div className="flex items-start space-x-3">
+                <XCircle className="w-6 h-6 text-red-600 flex-shrink-0" />
+                <div>
+                  <h2 className="text-xl font-heading text-red-900 mb-2">FOODS YOU KEEP CHECKING THAT ARE 'AVOID'</h2>
+                  <p className="text-sm text-red-800 mb-3">
+                    These keep coming back as avoid for your profile. It may help to plan alternatives, or talk to your
+                    practitioner if you're finding them hard to cut out.
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {repeatedAvoids.map((frequency) => (
+                      <span key={frequency.key} className="px-3 py-1 bg-white text-red-800 text-sm rounded-full border border-red-200">
+                        {frequency.foodName} <span className="text-red-500">×{frequency.avoidCount}</span>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-8">
+            <div className="col-span-2 bg-white rounded-xl p-6 shadow-sm">
+              <div className="flex items-center space-x-4 mb-6">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                  <input
+                    type="text"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    placeholder="Search your lookups..."
+                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+                  />
+                </div>
+                <div className="flex space-x-2">
+                  {(['all', 'safe', 'caution', 'avoid'] as const).map((filter) => (
+                    <button
+                      key={filter}
+                      onClick={() => setClassificationFilter(filter)}
+                      className={`px-4 py-2 rounded-lg font-medium transition-all ${
+                        classificationFilter === filter
+                          ? 'bg-brand-text text-white'
+                          : 'bg-white text-brand-text border border-gray-300 hover:bg-brand-cream'
+                      }`}
+                    >
+                      {filter === 'all' ? 'All' : CLASSIFICATION_LABELS[filter]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {rechecks.size > 0 && (
+                <p className="text-sm text-gray-600 mb-4">
+                  Re-checked {rechecks.size} {rechecks.size === 1 ? 'food' : 'foods'} against your current profile -{' '}
+                  {changedCount === 0 ? 'no verdicts have changed.' : `${changedCount} ${changedCount === 1 ? 'verdict has' : 'verdicts have'} changed.`}
+                </p>
+              )}
+
+              {filteredHistory.length === 0 ? (
+                <p className="text-gray-500 font-light text-center py-8">No lookups match your search</p>
+              ) : (
+                <div className="space-y-3">
+                  {filteredHistory.map((lookup) => {
+                    const recheck = rechecks.get(lookupKey(lookup.food_name));
+                    const changed = recheck && recheck.safety_classification !== lookup.safety_classification;
+
+                    return (
+                      <div key={lookup.id} className="p-4 bg-brand-cream rounded-lg">
+                        <div className="flex items-start justify-between">
+                          <div className="flex items-start space-x-3">
+                            <ClassificationIcon classification={lookup.safety_classification} />
+                            <div>
+                              <p className="font-medium">{lookup.food_name}</p>
+                              <p className="text-sm text-gray-500">{new Date(lookup.lookup_date).toLocaleString()}</p>
+                            </div>
+                          </div>
+                          {recheck && (
+                            <div
+                              className={`flex items-center space-x-2 text-sm px-3 py-1 rounded-full ${
+                                changed ? 'bg-white border border-brand-text font-medium' : 'text-gray-500'
+                              }`}
+                            >
+                              <span>{CLASSIFICATION_LABELS[lookup.safety_classification]}</span>
+                              <ArrowRight className="w-4 h-4" />
+                              <ClassificationIcon classification={recheck.safety_classification} className="w-4 h-4" />
+                              <span>{changed ? CLASSIFICATION_LABELS[recheck.safety_classification] : 'Unchanged'}</span>
+                            </div>
+                          )}
+                        </div>
+                        {lookup.rationale && <p className="text-sm text-gray-700 mt-2">{lookup.rationale}</p>}
+                        {changed && (
+                          <p className="text-sm text-gray-700 mt-2">
+                            <span className="font-medium">Now: </span>
+                            {recheck.rationale}
+                          </p>
+                        )}
+                        <VerdictTrace trace={changed ? recheck.trace : readDecisionTrace(lookup.decision_trace)} />
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl p-6 shadow-sm h-fit">
+              <h2 className="text-2xl font-heading mb-6">MOST CHECKED</h2>
+              <div className="space-y-3">
+                {frequencies.slice(0, 10).map((frequency) => (
+                  <button
+                    key={frequency.key}
+                    onClick={() => setSearchQuery(frequency.foodName)}
+                    className="w-full flex items-center justify-between p-3 bg-brand-cream rounded-lg hover:bg-brand-button-light transition-all text-left"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <ClassificationIcon classification={frequency.latestClassification} className="w-4 h-4" />
+                      <span className="font-medium">{frequency.foodName}</span>
+                    </div>
+                    <span className="text-sm text-gray-600">
+                      {frequency.count} {frequency.count === 1 ? 'time' : 'times'}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
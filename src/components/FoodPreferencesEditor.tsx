@@ -0,0 +1,226 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { Plus, Trash2, AlertTriangle } from 'lucide-react';
+
+type FoodPreferenceRow = Database['public']['Tables']['user_food_preferences']['Row'];
+type PreferenceType = FoodPreferenceRow['preference_type'];
+type Severity = NonNullable<FoodPreferenceRow['severity']>;
+
+const PREFERENCE_TYPES: { value: PreferenceType; label: string }[] = [
+  { value: 'allergy', label: 'Allergy' },
+  { value: 'intolerance', label: 'Intolerance' },
+  { value: 'dislike', label: 'Dislike' },
+  { value: 'cultural', label: 'Cultural' },
+  { value: 'ethical', label: 'Ethical' },
+];
+
+export function FoodPreferencesEditor() {
+  const [preferences, setPreferences] = useState<FoodPreferenceRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [foodItem, setFoodItem] = useState('');
+  const [preferenceType, setPreferenceType] = useState<PreferenceType>('allergy');
+  const [severity, setSeverity] = useState<Severity>('severe');
+  const [notes, setNotes] = useState('');
+
+  const hasSeverity = preferenceType === 'allergy' || preferenceType === 'intolerance';
+
+  useEffect(() => {
+    loadPreferences();
+  }, []);
+
+  const loadPreferences = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('user_food_preferences')
+        .select('*')
+        .eq('profile_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setPreferences(data || []);
+    } catch (error) {
+      console.error('Error loading food preferences:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addPreference = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!foodItem.trim()) return;
+    setSaving(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase.from('user_food_preferences').insert({
+        profile_id: user.id,
+        preference_type: preferenceType,
+        food_item: foodItem.trim(),
+        severity: hasSeverity ? severity : null,
+        notes: notes.trim() || null,
+      });
+
+      if (error) throw error;
+
+      setFoodItem('');
+      setNotes('');
+      loadPreferences();
+    } catch (error) {
+      console.error('Error adding food preference:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (preference: FoodPreferenceRow) => {
+    try {
+      const { error } = await supabase
+        .from('user_food_preferences')
+        .update({ active: !preference.active })
+        .eq('id', preference.id);
+
+      if (error) throw error;
+      loadPreferences();
+    } catch (error) {
+      console.error('Error updating food preference:', error);
+    }
+  };
+
+  const deletePreference = async (id: string) => {
+    try {
+      const { error } = await supabase.from('user_food_preferences').delete().eq('id', id);
+
+      if (error) throw error;
+      loadPreferences();
+    } catch (error) {
+      console.error('Error deleting food preference:', error);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-8 shadow-sm max-w-2xl mt-8">
+      <h2 className="text-2xl font-heading mb-2">ALLERGIES & FOOD PREFERENCES</h2>
+      <p className="font-light text-gray-600 mb-6">
+        Checked in food lookups, restaurant dishes, recipes and grocery products
+      </p>
+
+      <form onSubmit={addPreference} className="space-y-4 mb-8">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Food or Ingredient</label>
+            <input
+              type="text"
+              value={foodItem}
+              onChange={(e) => setFoodItem(e.target.value)}
+              placeholder="e.g., peanuts, dairy, shellfish"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Type</label>
+            <select
+              value={preferenceType}
+              onChange={(e) => setPreferenceType(e.target.value as PreferenceType)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+            >
+              {PREFERENCE_TYPES.map((type) => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {hasSeverity && (
+          <div>
+            <label className="block text-sm font-medium mb-2">Severity</label>
+            <div className="flex space-x-2">
+              {(['severe', 'moderate', 'mild'] as const).map((level) => (
+                <button
+                  key={level}
+                  type="button"
+                  onClick={() => setSeverity(level)}
+                  className={`flex-1 px-4 py-2 rounded-lg font-medium capitalize transition-all ${
+                    severity === level
+                      ? 'bg-brand-text text-white'
+                      : 'bg-white text-brand-text border border-gray-300 hover:bg-brand-cream'
+                  }`}
+                >
+                  {level}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium mb-2">Notes</label>
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="e.g., carries an EpiPen"
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={saving || !foodItem.trim()}
+          className="flex items-center space-x-2 px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all disabled:opacity-50"
+        >
+          <Plus className="w-5 h-5" />
+          <span>{saving ? 'Adding...' : 'Add'}</span>
+        </button>
+      </form>
+
+      {loading ? (
+        <p className="font-light text-gray-500">Loading...</p>
+      ) : preferences.length === 0 ? (
+        <p className="text-gray-500 font-light text-center py-4">No allergies or food preferences recorded</p>
+      ) : (
+        <div className="space-y-3">
+          {preferences.map((preference) => (
+            <div
+              key={preference.id}
+              className={`flex items-center justify-between p-4 bg-brand-cream rounded-lg ${preference.active ? '' : 'opacity-50'}`}
+            >
+              <div className="flex items-center space-x-3">
+                {preference.preference_type === 'allergy' && preference.severity === 'severe' && (
+                  <AlertTriangle className="w-5 h-5 text-red-600" />
+                )}
+                <div>
+                  <p className="font-medium capitalize">{preference.food_item}</p>
+                  <p className="text-sm text-gray-600 capitalize">
+                    {preference.severity && `${preference.severity} `}{preference.preference_type}
+                    {preference.notes && <span className="normal-case"> - {preference.notes}</span>}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => toggleActive(preference)}
+                  className="px-3 py-1 bg-brand-button-light text-brand-text rounded-lg text-sm font-medium hover:bg-brand-button-medium transition-all"
+                >
+                  {preference.active ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  onClick={() => deletePreference(preference.id)}
+                  className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
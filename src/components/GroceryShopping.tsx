@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { ShoppingCart, Store, Plus, Minus, Trash2, ExternalLink, CheckCircle, Package } from 'lucide-react';
+import { findPreferenceConflicts, loadFoodPreferences, type FoodPreference } from '../lib/foodPreferences';
+import { ShoppingCart, Store, Plus, Minus, Trash2, ExternalLink, CheckCircle, Package, AlertTriangle } from 'lucide-react';
 
 interface GroceryStore {
   id: string;
@@ -17,6 +18,7 @@ interface GroceryProduct {
   name: string;
   brand: string;
   category: string;
+  ingredients: string[] | null;
   price: number;
   unit: string;
   in_stock: boolean;
@@ -51,10 +53,14 @@ export function GroceryShopping() {
   const [currentList, setCurrentList] = useState<ShoppingListItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [preferences, setPreferences] = useState<FoodPreference[]>([]);
 
   useEffect(() => {
     loadStores();
     loadShoppingLists();
+    loadFoodPreferences()
+      .then(setPreferences)
+      .catch((error) => console.error('Error loading food preferences:', error));
   }, []);
 
   useEffect(() => {
@@ -112,7 +118,15 @@ export function GroceryShopping() {
     }
   };
 
+  const productConflicts = (product: GroceryProduct) =>
+    findPreferenceConflicts(preferences, [product.name, ...(product.ingredients || [])]);
+
   const addToList = (product: GroceryProduct) => {
+    const [conflict] = productConflicts(product);
+    if (conflict?.classification === 'avoid' && !confirm(`${conflict.rationale} Add it to your list anyway?`)) {
+      return;
+    }
+
     const existingItem = currentList.find((item) => item.product_id === product.id);
 
     if (existingItem) {
@@ -357,6 +371,17 @@ export function GroceryShopping() {
                       <p className="text-sm text-gray-600">
                         {product.brand} - {product.unit}
                       </p>
+                      {productConflicts(product).slice(0, 1).map((conflict) => (
+                        <p
+                          key={conflict.preference.food_item}
+                          className={`flex items-center space-x-1 text-xs mt-1 ${
+                            conflict.classification === 'avoid' ? 'text-red-700' : 'text-yellow-700'
+                          }`}
+                        >
+                          <AlertTriangle className="w-3 h-3" />
+                          <span>{conflict.rationale}</span>
+                        </p>
+                      ))}
                     </div>
                     <div className="flex items-center space-x-3">
                       <span className="font-heading text-lg">£{product.price.toFixed(2)}</span>
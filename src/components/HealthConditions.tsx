@@ -0,0 +1,408 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { mergeConditionEvidence, readConditionEvidence, type ConditionEvidence } from '../lib/healthConditions';
+import { regenerateNutritionRecommendations } from '../lib/nutritionRecommendations';
+import { refreshMealPlanTargets } from '../lib/nutritionalTargets';
+import { Stethoscope, Plus, CheckCircle, FileText, MessageSquare, AlertCircle } from 'lucide-react';
+
+type HealthCondition = Database['public']['Tables']['health_conditions']['Row'];
+
+type ReportMode = 'diagnosed' | 'symptoms';
+
+const SOURCE_LABELS: Record<HealthCondition['identified_from'], string> = {
+  biomarkers: 'From biomarkers',
+  symptoms: 'From symptoms',
+  user_reported: 'Reported by you',
+};
+
+export function HealthConditions() {
+  const [conditions, setConditions] = useState<HealthCondition[]>([]);
+  const [knownConditions, setKnownConditions] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [conditionName, setConditionName] = useState('');
+  const [reportMode, setReportMode] = useState<ReportMode>('diagnosed');
+  const [symptoms, setSymptoms] = useState('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    loadConditions();
+    loadKnownConditions();
+  }, []);
+
+  const loadConditions = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('health_conditions')
+        .select('*')
+        .eq('profile_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setConditions(data || []);
+    } catch (error) {
+      console.error('Error loading health conditions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadKnownConditions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('ingredient_contraindications')
+        .select('condition_name');
+
+      if (error) throw error;
+      const names = new Set((data || []).map((row) => row.condition_name));
+      setKnownConditions([...names].sort());
+    } catch (error) {
+      console.error('Error loading condition names:', error);
+    }
+  };
+
+  const refreshRecommendations = () => {
+    regenerateNutritionRecommendations().catch((error) =>
+      console.error('Error updating nutrition recommendations:', error)
+    );
+    refreshMealPlanTargets().catch((error) => console.error('Error updating meal plan targets:', error));
+  };
+
+  const resetForm = () => {
+    setConditionName('');
+    setReportMode('diagnosed');
+    setSymptoms('');
+    setNotes('');
+    setError(null);
+    setShowAddForm(false);
+  };
+
+  const addCondition = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const name = conditionName.trim();
+    const symptomList = symptoms
+      .split(/[\n,]/)
+      .map((symptom) => symptom.trim())
+      .filter(Boolean);
+
+    if (reportMode === 'symptoms' && symptomList.length === 0) {
+      setError('List at least one symptom');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const evidence: ConditionEvidence[] = symptomList.map((description) => ({ kind: 'symptom', description }));
+      const conditionType = reportMode === 'diagnosed' ? 'diagnosed' as const : 'suspected' as const;
+      const existing = conditions.find((condition) => condition.condition_name.toLowerCase() === name.toLowerCase());
+
+      // Reporting a condition we already hold keeps its source and any
+      // biomarker evidence; new symptoms and notes are added alongside.
+      const { error } = existing
+        ? await supabase
+            .from('health_conditions')
+            .update({
+              condition_type: existing.condition_type === 'diagnosed' ? 'diagnosed' : conditionType,
+              active: true,
+              notes: [existing.notes, notes.trim()].filter(Boolean).join(' ') || null,
+              evidence: mergeConditionEvidence(readConditionEvidence(existing.evidence), evidence),
+            })
+            .eq('id', existing.id)
+        : await supabase.from('health_conditions').insert({
+            profile_id: user.id,
+            condition_name: name,
+            condition_type: conditionType,
+            identified_from: reportMode === 'diagnosed' ? 'user_reported' : 'symptoms',
+            probability_score: null,
+            active: true,
+            notes: notes.trim() || null,
+            evidence,
+          });
+
+      if (error) throw error;
+
+      resetForm();
+      loadConditions();
+      refreshRecommendations();
+    } catch (err) {
+      console.error('Error adding health condition:', err);
+      setError('Failed to save condition');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateCondition = async (id: string, changes: Database['public']['Tables']['health_conditions']['Update']) => {
+    try {
+      const { error } = await supabase
+        .from('health_conditions')
+        .update(changes)
+        .eq('id', id);
+
+      if (error) throw error;
+      loadConditions();
+      refreshRecommendations();
+    } catch (error) {
+      console.error('Error updating health condition:', error);
+    }
+  };
+
+  const suggestions = conditionName.trim()
+    ? knownConditions.filter(
+        (name) =>
+          name.toLowerCase().includes(conditionName.trim().toLowerCase()) &&
+          name.toLowerCase() !== conditionName.trim().toLowerCase()
+      )
+    : [];
+
+  const activeConditions = conditions.filter((condition) => condition.active);
+  const inactiveConditions = conditions.filter((condition) => !condition.active);
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-text mx-auto mb-4"></div>
+        <p className="font-light">Loading health conditions...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-4xl font-heading">HEALTH CONDITIONS</h1>
+          <p className="font-light text-gray-600 mt-2">
+            Conditions shape every food, recipe and restaurant recommendation
+          </p>
+        </div>
+        <button
+          onClick={() => setShowAddForm(true)}
+          className="flex items-center space-x-2 px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all"
+        >
+          <Plus className="w-5 h-5" />
+          <span>Add Condition</span>
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl p-6 shadow-sm mb-8">
+        <h2 className="text-2xl font-heading mb-6">ACTIVE CONDITIONS</h2>
+
+        {activeConditions.length === 0 ? (
+          <p className="text-gray-500 font-light text-center py-8">
+            No active conditions. Add a diagnosis above, or upload lab work to screen for risks.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {activeConditions.map((condition) => (
+              <ConditionCard key={condition.id} condition={condition} onUpdate={updateCondition} />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {inactiveConditions.length > 0 && (
+        <div className="bg-white rounded-xl p-6 shadow-sm">
+          <h2 className="text-2xl font-heading mb-6">INACTIVE CONDITIONS</h2>
+          <div className="space-y-4">
+            {inactiveConditions.map((condition) => (
+              <ConditionCard key={condition.id} condition={condition} onUpdate={updateCondition} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {showAddForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl p-8 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <h2 className="text-3xl font-heading mb-6">ADD CONDITION</h2>
+
+            <form onSubmit={addCondition} className="space-y-4">
+              <div className="flex space-x-2">
+                {(['diagnosed', 'symptoms'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setReportMode(mode)}
+                    className={`flex-1 px-4 py-2 rounded-lg font-medium transition-all ${
+                      reportMode === mode
+                        ? 'bg-brand-text text-white'
+                        : 'bg-white text-brand-text border border-gray-300 hover:bg-brand-cream'
+                    }`}
+                  >
+                    {mode === 'diagnosed' ? "I've been diagnosed" : 'I have symptoms'}
+                  </button>
+                ))}
+              </div>
+
+              <div className="relative">
+                <label className="block font-medium mb-2">Condition</label>
+                <input
+                  type="text"
+                  value={conditionName}
+                  onChange={(e) => setConditionName(e.target.value)}
+                  required
+                  placeholder="e.g., Chronic Kidney Disease"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+                />
+                {suggestions.length > 0 && (
+                  <div className="absolute z-10 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg max-h-48 overflow-y-auto">
+                    {suggestions.map((name) => (
+                      <button
+                        key={name}
+                        type="button"
+                        onClick={() => setConditionName(name)}
+                        className="block w-full text-left px-4 py-2 hover:bg-brand-cream"
+                      >
+                        {name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 mt-1">
+                  Pick a suggested name where possible so food guidance can match it
+                </p>
+              </div>
+
+              {reportMode === 'symptoms' && (
+                <div>
+                  <label className="block font-medium mb-2">Symptoms</label>
+                  <textarea
+                    value={symptoms}
+                    onChange={(e) => setSymptoms(e.target.value)}
+                    rows={3}
+                    placeholder="One per line, e.g., fatigue"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className="block font-medium mb-2">Notes</label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={2}
+                  placeholder="e.g., Diagnosed by Dr. Smith in 2023"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+                />
+              </div>
+
+              {error && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+                  <AlertCircle className="w-5 h-5 text-red-600" />
+                  <p className="text-sm text-red-600">{error}</p>
+                </div>
+              )}
+
+              <div className="flex space-x-4 pt-4">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="flex-1 px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Add Condition'}
+                </button>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="flex-1 px-6 py-3 bg-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ConditionCard({
+  condition,
+  onUpdate,
+}: {
+  condition: HealthCondition;
+  onUpdate: (id: string, changes: Database['public']['Tables']['health_conditions']['Update']) => void;
+}) {
+  const evidence = readConditionEvidence(condition.evidence);
+
+  return (
+    <div className={`border border-gray-300 rounded-lg p-6 ${condition.active ? '' : 'opacity-60'}`}>
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <h3 className="text-xl font-heading mb-1">{condition.condition_name}</h3>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className={`px-3 py-1 rounded-full font-medium ${
+              condition.condition_type === 'diagnosed' ? 'bg-red-100 text-red-700' :
+              condition.condition_type === 'suspected' ? 'bg-orange-100 text-orange-700' :
+              'bg-yellow-100 text-yellow-700'
+            }`}>
+              {condition.condition_type.toUpperCase()}
+            </span>
+            <span className="text-gray-600">{SOURCE_LABELS[condition.identified_from]}</span>
+            {condition.probability_score !== null && condition.condition_type !== 'diagnosed' && (
+              <span className="text-gray-600">· {Math.round(condition.probability_score * 100)}% likelihood</span>
+            )}
+          </div>
+        </div>
+        <Stethoscope className="w-6 h-6 text-brand-text" />
+      </div>
+
+      {evidence.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {evidence.map((item, index) =>
+            item.kind === 'biomarker' ? (
+              <span key={index} className="flex items-center space-x-1 px-3 py-1 bg-brand-cream rounded-full text-xs">
+                <FileText className="w-3 h-3" />
+                <span>
+                  {item.name} {item.value} {item.unit}
+                  {item.test_date && ` · ${new Date(item.test_date).toLocaleDateString()}`}
+                </span>
+              </span>
+            ) : (
+              <span key={index} className="flex items-center space-x-1 px-3 py-1 bg-blue-50 rounded-full text-xs">
+                <MessageSquare className="w-3 h-3" />
+                <span>{item.description}</span>
+              </span>
+            )
+          )}
+        </div>
+      )}
+
+      {condition.notes && <p className="text-sm text-gray-700 mb-4">{condition.notes}</p>}
+
+      <div className="flex flex-wrap gap-3">
+        {condition.condition_type !== 'diagnosed' && condition.active && (
+          <button
+            onClick={() => onUpdate(condition.id, { condition_type: 'diagnosed' })}
+            className="flex items-center space-x-2 px-4 py-2 bg-brand-button-dark text-brand-text rounded-lg text-sm font-medium hover:bg-brand-button-medium transition-all"
+          >
+            <CheckCircle className="w-4 h-4" />
+            <span>Confirm Diagnosis</span>
+          </button>
+        )}
+        <button
+          onClick={() => onUpdate(condition.id, { active: !condition.active })}
+          className="px-4 py-2 bg-brand-button-light text-brand-text rounded-lg text-sm font-medium hover:bg-brand-button-medium transition-all"
+        >
+          {condition.active ? 'Mark Inactive' : 'Reactivate'}
+        </button>
+      </div>
+    </div>
+  );
+}
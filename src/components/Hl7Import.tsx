@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { parseHl7Message, type Hl7Message } from '../lib/hl7';
+import { toDraftRow } from '../lib/biomarkers';
+import { BiomarkerReview } from './BiomarkerReview';
+import { Upload, AlertCircle } from 'lucide-react';
+
+interface Hl7ImportProps {
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+interface ParsedMessage {
+  source: string;
+  text: string;
+  message: Hl7Message;
+}
+
+export function Hl7Import({ onComplete, onCancel }: Hl7ImportProps) {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedMessage | null>(null);
+
+  const parse = (messageText: string, source: string) => {
+    setError(null);
+
+    try {
+      const message = parseHl7Message(messageText);
+
+      if (message.messageType && !message.messageType.startsWith('ORU')) {
+        setError(`Expected an ORU^R01 result message but found ${message.messageType}`);
+        return;
+      }
+
+      if (message.results.length === 0) {
+        setError('No numeric OBX results were found in this message');
+        return;
+      }
+
+      setParsed({ source, text: messageText, message });
+    } catch (err) {
+      console.error('Error parsing HL7 message:', err);
+      setError('This does not look like an HL7 v2 message - it must start with an MSH segment');
+    }
+  };
+
+  if (parsed) {
+    return (
+      <BiomarkerReview
+        sourceType="integration"
+        initialRows={parsed.message.results.map(toDraftRow)}
+        initialTestDate={parsed.message.testDate}
+        rawData={{
+          format: 'hl7v2',
+          source: parsed.source,
+          message_type: parsed.message.messageType,
+          message_control_id: parsed.message.controlId,
+          message: parsed.text,
+        }}
+        onSaved={onComplete}
+        onCancel={onCancel}
+      />
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl p-8 shadow-sm">
+      <h2 className="text-2xl font-heading mb-2">IMPORT HL7 RESULTS</h2>
+      <p className="font-light text-gray-600 mb-6">
+        Paste an HL7 v2 ORU^R01 message from your lab, or upload the .hl7 file they sent
+      </p>
+
+      <div className="space-y-4">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={10}
+          placeholder={'MSH|^~\\&|LAB|...\nOBR|1|...\nOBX|1|NM|...'}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+        />
+
+        <label className="flex items-center justify-center space-x-2 border-2 border-dashed border-gray-300 rounded-xl p-6 cursor-pointer hover:border-brand-text hover:bg-brand-cream transition-all">
+          <Upload className="w-5 h-5 text-gray-400" />
+          <span className="font-medium">Or choose a .hl7 file</span>
+          <input
+            type="file"
+            accept=".hl7,.txt,text/plain"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) parse(await file.text(), file.name);
+            }}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div className="mt-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="flex space-x-4 mt-6">
+        <button
+          type="button"
+          onClick={() => parse(text, 'pasted')}
+          disabled={!text.trim()}
+          className="px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all disabled:opacity-50"
+        >
+          Read Message
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-6 py-3 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
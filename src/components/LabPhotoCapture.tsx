@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { recognisePhoto, parseOcrLines, type RecognisedRow } from '../lib/photoOcr';
+import { extractTestDate } from '../lib/labReportParser';
+import { toDraftRow, type DraftAnalyteRow } from '../lib/biomarkers';
+import { BiomarkerReview } from './BiomarkerReview';
+import { Camera, AlertCircle, FileText } from 'lucide-react';
+
+interface LabPhotoCaptureProps {
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+interface RecognisedPhoto {
+  fileName: string;
+  text: string;
+  rows: DraftAnalyteRow[];
+  recognised: RecognisedRow[];
+  testDate: string | null;
+}
+
+export function LabPhotoCapture({ onComplete, onCancel }: LabPhotoCaptureProps) {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [photo, setPhoto] = useState<RecognisedPhoto | null>(null);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+
+    if (!file.type.startsWith('image/')) {
+      setError('Please choose a photo of your lab report');
+      return;
+    }
+
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+    setPreviewUrl(URL.createObjectURL(file));
+    setProgress(0);
+
+    try {
+      const result = await recognisePhoto(file, setProgress);
+      const recognised = parseOcrLines(result.lines);
+
+      if (recognised.length === 0) {
+        setError('No results could be read from this photo. Try a sharper, well-lit photo taken straight on.');
+        return;
+      }
+
+      setPhoto({
+        fileName: file.name,
+        text: result.text,
+        rows: recognised.map((row) => toDraftRow(row.analyte)),
+        recognised,
+        testDate: extractTestDate(result.text),
+      });
+    } catch (err) {
+      console.error('Error recognising lab photo:', err);
+      setError('Failed to read this photo');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  if (photo) {
+    return (
+      <BiomarkerReview
+        sourceType="photo"
+        initialRows={photo.rows}
+        initialTestDate={photo.testDate}
+        rowConfidence={Object.fromEntries(photo.rows.map((row, index) => [row.key, photo.recognised[index].confidence]))}
+        rawData={{
+          file_name: photo.fileName,
+          ocr_text: photo.text,
+          recognised_lines: photo.recognised.map((row) => ({ text: row.line, confidence: row.confidence })),
+        }}
+        onSaved={onComplete}
+        onCancel={onCancel}
+      />
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl p-8 shadow-sm">
+      <h2 className="text-2xl font-heading mb-2">PHOTOGRAPH LAB REPORT</h2>
+      <p className="font-light text-gray-600 mb-6">
+        Text is recognised in your browser - the photo never leaves your device
+      </p>
+
+      <label className="block border-2 border-dashed border-gray-300 rounded-xl p-12 text-center cursor-pointer hover:border-brand-text hover:bg-brand-cream transition-all">
+        {progress !== null ? (
+          <>
+            {previewUrl && <img src={previewUrl} alt="Lab report" className="max-h-48 mx-auto mb-4 rounded-lg" />}
+            <div className="w-full max-w-xs mx-auto bg-gray-200 rounded-full h-2 mb-2">
+              <div className="bg-brand-text h-2 rounded-full transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+            </div>
+            <p className="font-light">Reading text... {Math.round(progress * 100)}%</p>
+          </>
+        ) : (
+          <>
+            <Camera className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="font-medium mb-1">Take a photo or choose an image</p>
+            <p className="text-sm text-gray-500">Lay the sheet flat in good light and fill the frame with the results table</p>
+          </>
+        )}
+        <input
+          type="file"
+          accept="image/*"
+          capture="environment"
+          disabled={progress !== null}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+      </label>
+
+      {error && (
+        <div className="mt-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-6">
+        <div className="flex items-center space-x-2 text-sm text-gray-500">
+          <FileText className="w-4 h-4" />
+          <span>Rows the scanner was unsure about are highlighted for you to check</span>
+        </div>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-6 py-3 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { extractPdfText, extractTestDate, parseLabReportText } from '../lib/labReportParser';
+import { toDraftRow, type DraftAnalyteRow } from '../lib/biomarkers';
+import { BiomarkerReview } from './BiomarkerReview';
+import { FileText, Upload, AlertCircle } from 'lucide-react';
+
+interface LabReportUploadProps {
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+interface ParsedReport {
+  fileName: string;
+  text: string;
+  rows: DraftAnalyteRow[];
+  testDate: string | null;
+}
+
+export function LabReportUpload({ onComplete, onCancel }: LabReportUploadProps) {
+  const [extracting, setExtracting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<ParsedReport | null>(null);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+
+    if (file.type !== 'application/pdf' && !file.name.toLowerCase().endsWith('.pdf')) {
+      setError('Please choose a PDF lab report');
+      return;
+    }
+
+    setExtracting(true);
+
+    try {
+      const text = await extractPdfText(file);
+
+      if (!text.trim()) {
+        setError('No text could be read from this PDF. It may be a scanned image - try entering the results manually.');
+        return;
+      }
+
+      setReport({
+        fileName: file.name,
+        text,
+        rows: parseLabReportText(text).map(toDraftRow),
+        testDate: extractTestDate(text),
+      });
+    } catch (err) {
+      console.error('Error reading lab report:', err);
+      setError('Failed to read this PDF');
+    } finally {
+      setExtracting(false);
+    }
+  };
+
+  if (report) {
+    return (
+      <BiomarkerReview
+        sourceType="pdf"
+        initialRows={report.rows}
+        initialTestDate={report.testDate}
+        rawData={{
+          file_name: report.fileName,
+          extracted_text: report.text,
+          parsed_rows: report.rows.length,
+        }}
+        onSaved={onComplete}
+        onCancel={onCancel}
+      />
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl p-8 shadow-sm">
+      <h2 className="text-2xl font-heading mb-2">UPLOAD LAB REPORT</h2>
+      <p className="font-light text-gray-600 mb-6">
+        Your PDF is read in the browser - the file itself never leaves your device
+      </p>
+
+      <label
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          const file = e.dataTransfer.files[0];
+          if (file) handleFile(file);
+        }}
+        className="block border-2 border-dashed border-gray-300 rounded-xl p-12 text-center cursor-pointer hover:border-brand-text hover:bg-brand-cream transition-all"
+      >
+        {extracting ? (
+          <>
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-text mx-auto mb-4"></div>
+            <p className="font-light">Reading lab report...</p>
+          </>
+        ) : (
+          <>
+            <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="font-medium mb-1">Drop a PDF here or click to browse</p>
+            <p className="text-sm text-gray-500">Text-based PDFs from your lab or GP portal work best</p>
+          </>
+        )}
+        <input
+          type="file"
+          accept="application/pdf,.pdf"
+          disabled={extracting}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+      </label>
+
+      {error && (
+        <div className="mt-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-6">
+        <div className="flex items-center space-x-2 text-sm text-gray-500">
+          <FileText className="w-4 h-4" />
+          <span>You can review and correct every result before it is saved</span>
+        </div>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-6 py-3 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { ANALYTE_CATALOGUE, checkPlausibility, getAnalyte } from '../lib/analyteCatalogue';
+import { parseNumber, type AnalyteResult } from '../lib/biomarkers';
+import { saveBiomarkerRecord } from '../lib/biomarkerRecords';
+import { toCanonical, unitsFor } from '../lib/unitConversion';
+import { Plus, Trash2, AlertCircle, AlertTriangle } from 'lucide-react';
+
+interface ManualBiomarkerEntryProps {
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+interface ManualEntry {
+  analyteKey: string;
+  value: string;
+  unit: string;
+}
+
+const CATEGORIES = Array.from(new Set(ANALYTE_CATALOGUE.map((analyte) => analyte.category)));
+
+function validateEntry(entry: ManualEntry): string | null {
+  const analyte = getAnalyte(entry.analyteKey);
+  if (!analyte) return 'Choose an analyte';
+
+  const value = parseNumber(entry.value);
+  if (value === null) return `${analyte.name}: enter a numeric value`;
+
+  const canonical = toCanonical(analyte.key, value, entry.unit);
+  if (!canonical) return `${analyte.name}: unsupported unit ${entry.unit}`;
+
+  return checkPlausibility(analyte, canonical.value, canonical.unit);
+}
+
+export function ManualBiomarkerEntry({ onComplete, onCancel }: ManualBiomarkerEntryProps) {
+  const [testDate, setTestDate] = useState(new Date().toISOString().split('T')[0]);
+  const [entries, setEntries] = useState<ManualEntry[]>([]);
+  const [selectedKey, setSelectedKey] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const availableAnalytes = ANALYTE_CATALOGUE.filter(
+    (analyte) => !entries.some((entry) => entry.analyteKey === analyte.key)
+  );
+
+  const addEntry = () => {
+    if (!selectedKey) return;
+    setEntries([...entries, { analyteKey: selectedKey, value: '', unit: getAnalyte(selectedKey)?.unit ?? '' }]);
+    setSelectedKey('');
+  };
+
+  const updateEntry = (analyteKey: string, changes: Partial<ManualEntry>) => {
+    setEntries(entries.map((entry) => (entry.analyteKey === analyteKey ? { ...entry, ...changes } : entry)));
+  };
+
+  const removeEntry = (analyteKey: string) => {
+    setEntries(entries.filter((entry) => entry.analyteKey !== analyteKey));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (entries.length === 0) {
+      setError('Add at least one biomarker');
+      return;
+    }
+
+    const validationError = entries.map(validateEntry).find((message) => message !== null);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const analytes: AnalyteResult[] = entries.map((entry) => {
+      const analyte = getAnalyte(entry.analyteKey)!;
+      return {
+        analyte_key: analyte.key,
+        name: analyte.name,
+        value: parseNumber(entry.value) ?? 0,
+        unit: entry.unit,
+        reference_low: null,
+        reference_high: null,
+      };
+    });
+
+    setSaving(true);
+
+    try {
+      await saveBiomarkerRecord({
+        testDate,
+        sourceType: 'manual',
+        rawData: {
+          entries: entries.map((entry) => ({ analyte_key: entry.analyteKey, value: entry.value, unit: entry.unit })),
+        },
+        analytes,
+      });
+      onComplete();
+    } catch (err) {
+      console.error('Error saving manual biomarkers:', err);
+      setError('Failed to save biomarker record');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-8 shadow-sm">
+      <h2 className="text-2xl font-heading mb-2">ENTER RESULTS MANUALLY</h2>
+      <p className="font-light text-gray-600 mb-6">
+        Pick each biomarker from the catalogue and enter the value in the unit from your report
+      </p>
+
+      <form onSubmit={handleSave} className="space-y-6">
+        <div className="max-w-xs">
+          <label className="block text-sm font-medium mb-2">Test Date</label>
+          <input
+            type="date"
+            value={testDate}
+            onChange={(e) => setTestDate(e.target.value)}
+            required
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+          />
+        </div>
+
+        <div className="flex items-end space-x-3">
+          <div className="flex-1">
+            <label className="block text-sm font-medium mb-2">Biomarker</label>
+            <select
+              value={selectedKey}
+              onChange={(e) => setSelectedKey(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+            >
+              <option value="">Select a biomarker...</option>
+              {CATEGORIES.map((category) => (
+                <optgroup key={category} label={category}>
+                  {availableAnalytes
+                    .filter((analyte) => analyte.category === category)
+                    .map((analyte) => (
+                      <option key={analyte.key} value={analyte.key}>
+                        {analyte.name} ({analyte.unit})
+                      </option>
+                    ))}
+                </optgroup>
+              ))}
+            </select>
+          </div>
+          <button
+            type="button"
+            onClick={addEntry}
+            disabled={!selectedKey}
+            className="flex items-center space-x-2 px-6 py-3 bg-brand-button-dark text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add</span>
+          </button>
+        </div>
+
+        {entries.length > 0 && (
+          <div className="space-y-3">
+            {entries.map((entry) => {
+              const analyte = getAnalyte(entry.analyteKey)!;
+              const entryError = entry.value.trim() ? validateEntry(entry) : null;
+              return (
+                <div key={entry.analyteKey} className="p-4 bg-brand-cream rounded-lg">
+                  <div className="flex items-center justify-between space-x-4">
+                    <div className="flex-1">
+                      <p className="font-medium">{analyte.name}</p>
+                      <p className="text-xs text-gray-500">{analyte.category}</p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={entry.value}
+                        onChange={(e) => updateEntry(entry.analyteKey, { value: e.target.value })}
+                        placeholder="Value"
+                        className={`w-28 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark ${
+                          entryError ? 'border-red-400 bg-red-50' : 'border-gray-300'
+                        }`}
+                      />
+                      <select
+                        value={entry.unit}
+                        onChange={(e) => updateEntry(entry.analyteKey, { unit: e.target.value })}
+                        className="w-32 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+                      >
+                        {unitsFor(analyte.key).map((unit) => (
+                          <option key={unit} value={unit}>{unit}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => removeEntry(entry.analyteKey)}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {entryError && (
+                    <div className="flex items-center space-x-2 mt-2 text-sm text-red-600">
+                      <AlertTriangle className="w-4 h-4" />
+                      <span>{entryError}</span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="w-5 h-5 text-red-600" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex space-x-4">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Record'}
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-6 py-3 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,460 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  MEAL_SLOTS,
+  MEAL_SLOT_LABELS,
+  dayTotals,
+  formatPlanDay,
+  loadMealPlan,
+  loadRecipeCandidates,
+  nutrientStatus,
+  rankMeals,
+  readMealsByDay,
+  recipeUses,
+  regenerateUnlockedMeals,
+  saveMealsByDay,
+  setMealPlanStatus,
+  slotOptions,
+  slotShares,
+  type CandidateRecipe,
+  type MealSlot,
+  type MealsByDay,
+  type NutrientStatus,
+  type PlannedMeal,
+  type WeeklyMealPlan,
+} from '../lib/mealPlans';
+import {
+  NUTRIENT_LABELS,
+  loadNutritionalTargets,
+  readNutritionalTargets,
+  type NutritionalTargets,
+} from '../lib/nutritionalTargets';
+import { ArrowLeft, Lock, Unlock, Shuffle, Plus, X, RefreshCw, AlertCircle, AlertTriangle } from 'lucide-react';
+
+interface MealPlanEditorProps {
+  planId: string;
+  onBack: () => void;
+}
+
+interface MealCell {
+  date: string;
+  slot: MealSlot;
+}
+
+const SWAP_OPTIONS = 8;
+
+const STATUS_STYLES: Record<WeeklyMealPlan['status'], string> = {
+  active: 'bg-green-100 text-green-700',
+  completed: 'bg-blue-100 text-blue-700',
+  archived: 'bg-gray-100 text-gray-700',
+};
+
+const TOTAL_STYLES: Record<NutrientStatus, string> = {
+  under: 'text-yellow-700',
+  within: 'text-green-700',
+  over: 'text-red-600 font-medium',
+};
+
+export function MealPlanEditor({ planId, onBack }: MealPlanEditorProps) {
+  const [plan, setPlan] = useState<WeeklyMealPlan | null>(null);
+  const [mealsByDay, setMealsByDay] = useState<MealsByDay>({});
+  const [targets, setTargets] = useState<NutritionalTargets | null>(null);
+  const [candidates, setCandidates] = useState<CandidateRecipe[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [regenerating, setRegenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [swapCell, setSwapCell] = useState<MealCell | null>(null);
+  const [dragCell, setDragCell] = useState<MealCell | null>(null);
+  const pendingSave = useRef<MealsByDay | null>(null);
+  const saving = useRef<Promise<void> | null>(null);
+
+  useEffect(() => {
+    const loadPlan = async () => {
+      try {
+        const data = await loadMealPlan(planId);
+        if (!data) return;
+
+        const planTargets = readNutritionalTargets(data.nutritional_targets) ?? (await loadNutritionalTargets()).targets;
+        const { candidates } = await loadRecipeCandidates(planTargets?.species ?? 'human');
+
+        setPlan(data);
+        setMealsByDay(readMealsByDay(data.meals_by_day));
+        setTargets(planTargets);
+        setCandidates(candidates);
+      } catch (error) {
+        console.error('Error loading meal plan:', error);
+        setError('Failed to load meal plan');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPlan();
+  }, [planId]);
+
+  // Saves run one at a time so an older layout can never land after a newer
+  // one; edits made while a save is in flight collapse into the next save.
+  const queueSave = (id: string, next: MealsByDay) => {
+    pendingSave.current = next;
+    if (saving.current) return;
+
+    saving.current = (async () => {
+      while (pendingSave.current) {
+        const meals = pendingSave.current;
+        pendingSave.current = null;
+        try {
+          await saveMealsByDay(id, meals);
+        } catch (error) {
+          console.error('Error saving meal plan:', error);
+          setError('Failed to save your changes');
+        }
+      }
+      saving.current = null;
+    })();
+  };
+
+  const updateMeals = (next: MealsByDay) => {
+    if (!plan) return;
+
+    setMealsByDay(next);
+    setError(null);
+    queueSave(plan.id, next);
+  };
+
+  const setMeal = ({ date, slot }: MealCell, meal: PlannedMeal | null) => {
+    updateMeals({ ...mealsByDay, [date]: { ...mealsByDay[date], [slot]: meal } });
+  };
+
+  const toggleLock = (cell: MealCell) => {
+    const meal = mealsByDay[cell.date][cell.slot];
+    if (meal) setMeal(cell, { ...meal, locked: !meal.locked });
+  };
+
+  const moveMeal = (from: MealCell, to: MealCell) => {
+    if (from.date === to.date && from.slot === to.slot) return;
+
+    const moving = mealsByDay[from.date][from.slot];
+    const replaced = mealsByDay[to.date][to.slot];
+    if (!moving || moving.locked || replaced?.locked) return;
+
+    const next = { ...mealsByDay, [from.date]: { ...mealsByDay[from.date] } };
+    next[to.date] = { ...next[to.date] };
+    next[from.date][from.slot] = replaced;
+    next[to.date][to.slot] = moving;
+    updateMeals(next);
+  };
+
+  const handleRegenerate = async () => {
+    if (!plan || !targets) return;
+    setRegenerating(true);
+    setError(null);
+
+    try {
+      await saving.current;
+      const result = await regenerateUnlockedMeals({ ...plan, meals_by_day: mealsByDay }, candidates, targets);
+      setMealsByDay(result.mealsByDay);
+      setWarnings(result.warnings);
+    } catch (error) {
+      console.error('Error regenerating meal plan:', error);
+      setError('Failed to regenerate meals');
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  const handleStatus = async (status: WeeklyMealPlan['status']) => {
+    if (!plan) return;
+
+    try {
+      await setMealPlanStatus(plan, status);
+      setPlan({ ...plan, status });
+    } catch (error) {
+      console.error('Error updating meal plan status:', error);
+      setError('Failed to update plan status');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-text mx-auto mb-4"></div>
+        <p className="font-light">Loading meal plan...</p>
+      </div>
+    );
+  }
+
+  if (!plan) {
+    return (
+      <div>
+        <button onClick={onBack} className="flex items-center space-x-2 text-brand-text font-medium hover:underline mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to meal plans</span>
+        </button>
+        <p className="font-light text-gray-600">This meal plan could not be found.</p>
+      </div>
+    );
+  }
+
+  const dates = Object.keys(mealsByDay).sort();
+  const shares = slotShares(targets?.species ?? 'human');
+  const slots = MEAL_SLOTS.filter((slot) => shares[slot] || dates.some((date) => mealsByDay[date][slot]));
+  const totals = Object.fromEntries(dates.map((date) => [date, dayTotals(mealsByDay[date])]));
+
+  const swapOptions = swapCell && targets
+    ? rankMeals(
+        slotOptions(candidates, mealsByDay[swapCell.date], swapCell.slot),
+        mealsByDay[swapCell.date],
+        swapCell.slot,
+        targets,
+        recipeUses(mealsByDay)
+      ).slice(0, SWAP_OPTIONS)
+    : [];
+
+  return (
+    <div>
+      <button onClick={onBack} className="flex items-center space-x-2 text-brand-text font-medium hover:underline mb-6">
+        <ArrowLeft className="w-4 h-4" />
+        <span>Back to meal plans</span>
+      </button>
+
+      <div className="flex justify-between items-start mb-8">
+        <div>
+          <div className="flex items-center space-x-3 mb-1">
+            <h1 className="text-4xl font-heading">{plan.plan_name.toUpperCase()}</h1>
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${STATUS_STYLES[plan.status]}`}>
+              {plan.status.toUpperCase()}
+            </span>
+          </div>
+          <p className="text-sm text-gray-500">
+            {new Date(plan.start_date).toLocaleDateString()} - {new Date(plan.end_date).toLocaleDateString()}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2 justify-end">
+          <button
+            onClick={handleRegenerate}
+            disabled={regenerating || !targets || candidates.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${regenerating ? 'animate-spin' : ''}`} />
+            <span>Regenerate Unlocked</span>
+          </button>
+          {plan.status !== 'active' && (
+            <button
+              onClick={() => handleStatus('active')}
+              className="px-4 py-2 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+            >
+              Make Active
+            </button>
+          )}
+          {plan.status === 'active' && (
+            <button
+              onClick={() => handleStatus('completed')}
+              className="px-4 py-2 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+            >
+              Mark Completed
+            </button>
+          )}
+          {plan.status !== 'archived' && (
+            <button
+              onClick={() => handleStatus('archived')}
+              className="px-4 py-2 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+            >
+              Archive
+            </button>
+          )}
+        </div>
+      </div>
+
+      {plan.status !== 'active' && (
+        <p className="mb-6 text-sm text-gray-600 font-light">
+          Only one plan can be active at a time - making this plan active archives your current one.
+        </p>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {warnings.length > 0 && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start space-x-3">
+          <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+          <ul className="text-sm text-yellow-800 space-y-1">
+            {warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl p-6 shadow-sm overflow-x-auto">
+        <table className="w-full text-sm border-separate border-spacing-2">
+          <thead>
+            <tr>
+              <th className="w-32"></th>
+              {dates.map((date) => (
+                <th key={date} className="font-medium text-left min-w-[9rem]">
+                  {formatPlanDay(date)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {slots.map((slot) => (
+              <tr key={slot}>
+                <td className="font-heading align-top pt-2">{MEAL_SLOT_LABELS[slot].toUpperCase()}</td>
+                {dates.map((date) => {
+                  const meal = mealsByDay[date][slot];
+                  const cell = { date, slot };
+                  return (
+                    <td
+                      key={date}
+                      onDragOver={(e) => {
+                        if (dragCell && !meal?.locked) e.preventDefault();
+                      }}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        if (dragCell) moveMeal(dragCell, cell);
+                        setDragCell(null);
+                      }}
+                      className="align-top"
+                    >
+                      {meal ? (
+                        <div
+                          draggable={!meal.locked}
+                          onDragStart={() => setDragCell(cell)}
+                          onDragEnd={() => setDragCell(null)}
+                          className={`p-3 rounded-lg border ${
+                            meal.locked ? 'border-brand-text bg-brand-cream' : 'border-gray-200 bg-white cursor-move hover:shadow-sm'
+                          }`}
+                        >
+                          <p className="font-medium leading-snug mb-1">{meal.recipe_name}</p>
+                          <p className="text-xs text-gray-500 mb-2">
+                            {meal.servings} {meal.servings === 1 ? 'serving' : 'servings'}
+                            {meal.nutrients.calories !== undefined && ` · ${Math.round(meal.nutrients.calories)} kcal`}
+                          </p>
+                          <div className="flex space-x-2">
+                            <button
+                              onClick={() => toggleLock(cell)}
+                              title={meal.locked ? 'Unlock' : 'Lock'}
+                              className="text-gray-500 hover:text-brand-text"
+                            >
+                              {meal.locked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+                            </button>
+                            {!meal.locked && (
+                              <button onClick={() => setSwapCell(cell)} title="Swap" className="text-gray-500 hover:text-brand-text">
+                                <Shuffle className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => setSwapCell(cell)}
+                          className="w-full p-3 rounded-lg border border-dashed border-gray-300 text-gray-400 hover:bg-brand-cream flex items-center justify-center"
+                        >
+                          <Plus className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+          {targets && (
+            <tbody>
+              <tr>
+                <td colSpan={dates.length + 1} className="pt-4">
+                  <h2 className="text-2xl font-heading">DAILY TOTALS</h2>
+                </td>
+              </tr>
+              {targets.nutrients.map((target) => (
+                <tr key={target.nutrient}>
+                  <td className="align-top">
+                    <p className="font-medium">{NUTRIENT_LABELS[target.nutrient]}</p>
+                    <p className="text-xs text-gray-500">
+                      {target.target} {target.unit}
+                    </p>
+                  </td>
+                  {dates.map((date) => {
+                    const amount = totals[date][target.nutrient];
+                    return (
+                      <td key={date} className="align-top">
+                        {amount === undefined ? (
+                          <span className="text-gray-300">-</span>
+                        ) : (
+                          <span className={TOTAL_STYLES[nutrientStatus(amount, target)]}>
+                            {Math.round(amount)} {target.unit}
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          )}
+        </table>
+        <p className="mt-4 text-xs text-gray-500 font-light">
+          Drag meals to move them, lock the ones you want to keep, then regenerate the rest. Totals only include
+          nutrients the recipes report.
+        </p>
+      </div>
+
+      {swapCell && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl p-8 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-start mb-6">
+              <div>
+                <h2 className="text-3xl font-heading">CHOOSE A {MEAL_SLOT_LABELS[swapCell.slot].toUpperCase()}</h2>
+                <p className="text-sm text-gray-500">{formatPlanDay(swapCell.date)} - best fit for the day's targets first</p>
+              </div>
+              <button onClick={() => setSwapCell(null)} className="text-gray-500 hover:text-brand-text">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {swapOptions.length === 0 ? (
+              <p className="font-light text-gray-600">No other suitable recipes for this meal.</p>
+            ) : (
+              <div className="space-y-2">
+                {swapOptions.map((option) => (
+                  <button
+                    key={option.recipe_id}
+                    onClick={() => {
+                      setMeal(swapCell, option);
+                      setSwapCell(null);
+                    }}
+                    className="w-full text-left p-4 border border-gray-200 rounded-lg hover:bg-brand-cream transition-all"
+                  >
+                    <p className="font-medium">{option.recipe_name}</p>
+                    <p className="text-sm text-gray-500">
+                      {option.servings} {option.servings === 1 ? 'serving' : 'servings'}
+                      {option.nutrients.calories !== undefined && ` · ${Math.round(option.nutrients.calories)} kcal`}
+                      {option.nutrients.protein !== undefined && ` · ${Math.round(option.nutrients.protein)} g protein`}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {mealsByDay[swapCell.date][swapCell.slot] && (
+              <button
+                onClick={() => {
+                  setMeal(swapCell, null);
+                  setSwapCell(null);
+                }}
+                className="mt-6 px-6 py-3 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+              >
+                Remove Meal
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import { rescreenSupplementProtocols } from '../lib/supplementProtocols';
+import { rebuildSupplementSchedule } from '../lib/supplementSchedule';
 import { Pill, Plus, Clock, AlertTriangle, CheckCircle, Calendar, TrendingUp, X } from 'lucide-react';
 
 interface Medication {
@@ -105,6 +107,7 @@ export function MedicationTracker() {
         .from('user_interaction_alerts')
         .select('*')
         .eq('acknowledged', false)
+        .eq('dismissed', false)
         .order('severity', { ascending: false });
 
       if (error) throw error;
@@ -131,6 +134,13 @@ export function MedicationTracker() {
 
       await generateDoseSchedule(user.id);
 
+      try {
+        await rescreenSupplementProtocols();
+        await rebuildSupplementSchedule();
+      } catch (error) {
+        console.error('Error updating supplements:', error);
+      }
+
       setShowAddForm(false);
       setNewMedication({
         medication_name: '',
@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import {
+  PRIORITY_HIGH,
+  regenerateNutritionRecommendations,
+  type RecommendationType,
+} from '../lib/nutritionRecommendations';
+import { Utensils, RefreshCw, CheckCircle, AlertCircle, XCircle } from 'lucide-react';
+
+type Recommendation = Database['public']['Tables']['nutrition_recommendations']['Row'];
+
+type TypeFilter = 'all' | RecommendationType;
+
+const TYPE_LABELS: Record<RecommendationType, string> = {
+  eat: 'Eat',
+  caution: 'Caution',
+  avoid: 'Avoid',
+};
+
+const TYPE_STYLES: Record<RecommendationType, string> = {
+  eat: 'border-green-400 bg-green-50',
+  caution: 'border-yellow-400 bg-yellow-50',
+  avoid: 'border-red-500 bg-red-50',
+};
+
+function TypeIcon({ type }: { type: RecommendationType }) {
+  if (type === 'eat') return <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />;
+  if (type === 'caution') return <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0" />;
+  return <XCircle className="w-5 h-5 text-red-600 flex-shrink-0" />;
+}
+
+async function fetchRecommendations(): Promise<Recommendation[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('nutrition_recommendations')
+    .select('*')
+    .eq('profile_id', user.id)
+    .eq('active', true)
+    .order('priority_level', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export function NutritionRecommendations() {
+  const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [regenerating, setRegenerating] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadRecommendations = async () => {
+      try {
+        let data = await fetchRecommendations();
+        if (data.length === 0) {
+          await regenerateNutritionRecommendations();
+          data = await fetchRecommendations();
+        }
+        setRecommendations(data);
+      } catch (err) {
+        console.error('Error loading nutrition recommendations:', err);
+        setError('Failed to load nutrition recommendations');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRecommendations();
+  }, []);
+
+  const regenerate = async () => {
+    setRegenerating(true);
+    setError(null);
+
+    try {
+      await regenerateNutritionRecommendations();
+      setRecommendations(await fetchRecommendations());
+    } catch (err) {
+      console.error('Error regenerating nutrition recommendations:', err);
+      setError('Failed to update nutrition recommendations');
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  const filtered = recommendations.filter(
+    (recommendation) => typeFilter === 'all' || recommendation.recommendation_type === typeFilter
+  );
+
+  const categories = [...new Set(filtered.map((recommendation) => recommendation.category))].sort();
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-text mx-auto mb-4"></div>
+        <p className="font-light">Building your nutrition recommendations...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-4xl font-heading">NUTRITION RECOMMENDATIONS</h1>
+          <p className="font-light text-gray-600 mt-2">
+            Based on your health conditions, latest lab results and species
+          </p>
+        </div>
+        <button
+          onClick={regenerate}
+          disabled={regenerating}
+          className="flex items-center space-x-2 px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all disabled:opacity-50"
+        >
+          <RefreshCw className={`w-5 h-5 ${regenerating ? 'animate-spin' : ''}`} />
+          <span>{regenerating ? 'Updating...' : 'Refresh'}</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {recommendations.length === 0 ? (
+        <div className="bg-white rounded-xl p-12 text-center shadow-sm">
+          <Utensils className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-2xl font-heading mb-2">NO RECOMMENDATIONS YET</h3>
+          <p className="font-light text-gray-600">
+            Upload your biomarker data or add your health conditions to receive personalized nutrition recommendations
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="flex space-x-2 mb-6">
+            {(['all', 'eat', 'caution', 'avoid'] as const).map((filter) => (
+              <button
+                key={filter}
+                onClick={() => setTypeFilter(filter)}
+                className={`px-4 py-2 rounded-lg font-medium transition-all ${
+                  typeFilter === filter
+                    ? 'bg-brand-text text-white'
+                    : 'bg-white text-brand-text border border-gray-300 hover:bg-brand-cream'
+                }`}
+              >
+                {filter === 'all' ? 'All' : TYPE_LABELS[filter]}
+                <span className="ml-2 text-sm opacity-75">
+                  {filter === 'all'
+                    ? recommendations.length
+                    : recommendations.filter((recommendation) => recommendation.recommendation_type === filter).length}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-8">
+            {categories.map((category) => (
+              <div key={category} className="bg-white rounded-xl p-6 shadow-sm">
+                <h2 className="text-2xl font-heading mb-6 uppercase">{category}</h2>
+                <div className="grid md:grid-cols-2 gap-4">
+                  {filtered
+                    .filter((recommendation) => recommendation.category === category)
+                    .map((recommendation) => (
+                      <div
+                        key={recommendation.id}
+                        className={`border-2 rounded-lg p-4 ${TYPE_STYLES[recommendation.recommendation_type]}`}
+                      >
+                        <div className="flex items-start justify-between mb-2">
+                          <div className="flex items-center space-x-2">
+                            <TypeIcon type={recommendation.recommendation_type} />
+                            <span className="font-medium">{recommendation.food_item}</span>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            {recommendation.priority_level === PRIORITY_HIGH && (
+                              <span className="px-2 py-1 bg-white text-red-700 text-xs rounded-full border border-red-200">
+                                High priority
+                              </span>
+                            )}
+                            <span className="px-2 py-1 bg-white text-gray-700 text-xs rounded-full border border-gray-300">
+                              {TYPE_LABELS[recommendation.recommendation_type]}
+                            </span>
+                          </div>
+                        </div>
+                        {recommendation.rationale && (
+                          <p className="text-sm text-gray-700">{recommendation.rationale}</p>
+                        )}
+                      </div>
+                    ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,377 @@
+import { useState } from 'react';
+import { loadLookupContext, lookupIngredientList, saveLookup, type LookupResult } from '../lib/foodLookup';
+import {
+  barcodeScanningSupported,
+  cacheScannedProduct,
+  detectBarcode,
+  findProductByBarcode,
+  mayContain,
+  normaliseBarcode,
+  parseAllergenStatements,
+  productIngredients,
+  toGtin14,
+  type ProductRecord,
+} from '../lib/productLabel';
+import { recognisePhoto } from '../lib/photoOcr';
+import { VerdictTrace } from './VerdictTrace';
+import { Barcode, Camera, AlertCircle, CheckCircle, XCircle, Info } from 'lucide-react';
+
+interface ProductScannerProps {
+  onLookupSaved: () => void;
+}
+
+type ScanStep = 'barcode' | 'label' | 'result';
+
+interface ScannedResult {
+  product: ProductRecord;
+  lookup: LookupResult;
+}
+
+const SOURCE_LABELS: Record<ProductRecord['source'], string> = {
+  grocery: 'From the grocery catalogue',
+  scanned: 'Ingredients you entered from the pack',
+  shared: 'Ingredients entered by another user - check them against your pack',
+};
+
+export function ProductScanner({ onLookupSaved }: ProductScannerProps) {
+  const [step, setStep] = useState<ScanStep>('barcode');
+  const [barcode, setBarcode] = useState('');
+  const [productName, setProductName] = useState('');
+  const [brand, setBrand] = useState('');
+  const [labelText, setLabelText] = useState('');
+  const [ocrProgress, setOcrProgress] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scanned, setScanned] = useState<ScannedResult | null>(null);
+
+  const classifyProduct = async (product: ProductRecord) => {
+    const lookup = await lookupIngredientList(
+      product.brand ? `${product.brand} ${product.name}` : product.name,
+      product.ingredients,
+      await loadLookupContext(),
+      mayContain(product.allergens)
+    );
+
+    setScanned({ product, lookup });
+    setStep('result');
+
+    await saveLookup(lookup);
+    onLookupSaved();
+  };
+
+  const handleBarcode = async (code: string) => {
+    setError(null);
+
+    const gtin = toGtin14(code);
+    if (!gtin) {
+      setError('That doesn\'t look like a valid EAN or UPC barcode. Check the digits under the bars.');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const product = await findProductByBarcode(gtin);
+
+      if (product && product.ingredients.length > 0) {
+        await classifyProduct(product);
+        return;
+      }
+
+      setProductName(product?.name ?? '');
+      setBrand(product?.brand ?? '');
+      setStep('label');
+    } catch (err) {
+      console.error('Error looking up barcode:', err);
+      setError('Failed to look up this barcode');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBarcodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    handleBarcode(normaliseBarcode(barcode));
+  };
+
+  const handleBarcodePhoto = async (file: File) => {
+    setError(null);
+
+    try {
+      const code = await detectBarcode(file);
+      if (!code) {
+        setError('No barcode could be read from this photo. Try again closer up, or type the number instead.');
+        return;
+      }
+
+      setBarcode(code);
+      await handleBarcode(code);
+    } catch (err) {
+      console.error('Error reading barcode photo:', err);
+      setError('Failed to read this photo');
+    }
+  };
+
+  const handleLabelPhoto = async (file: File) => {
+    setError(null);
+
+    if (!file.type.startsWith('image/')) {
+      setError('Please choose a photo of the ingredient list');
+      return;
+    }
+
+    setOcrProgress(0);
+
+    try {
+      const result = await recognisePhoto(file, setOcrProgress);
+      setLabelText(result.text.trim());
+    } catch (err) {
+      console.error('Error recognising label photo:', err);
+      setError('Failed to read this photo');
+    } finally {
+      setOcrProgress(null);
+    }
+  };
+
+  const handleLabelSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const ingredients = productIngredients(labelText);
+    if (ingredients.length === 0) {
+      setError('No ingredients could be found in this text. Paste the list as printed on the pack.');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const product: ProductRecord = {
+        barcode: toGtin14(normaliseBarcode(barcode)) ?? normaliseBarcode(barcode),
+        name: productName.trim(),
+        brand: brand.trim() || null,
+        ingredients,
+        allergens: parseAllergenStatements(labelText),
+        labelText,
+        source: 'scanned',
+      };
+
+      await cacheScannedProduct(product, labelText);
+      await classifyProduct(product);
+    } catch (err) {
+      console.error('Error checking product label:', err);
+      setError('Failed to check this product');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const reenterLabel = (product: ProductRecord) => {
+    setProductName(product.name);
+    setBrand(product.brand ?? '');
+    setLabelText(product.labelText ?? `Ingredients: ${product.ingredients.join(', ')}`);
+    setError(null);
+    setStep('label');
+  };
+
+  const reset = () => {
+    setStep('barcode');
+    setBarcode('');
+    setProductName('');
+    setBrand('');
+    setLabelText('');
+    setScanned(null);
+    setError(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-8 shadow-sm mb-8">
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {step === 'barcode' && (
+        <form onSubmit={handleBarcodeSubmit} className="space-y-4">
+          <div className="relative">
+            <Barcode className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+            <input
+              type="text"
+              inputMode="numeric"
+              value={barcode}
+              onChange={(e) => setBarcode(e.target.value)}
+              placeholder="Enter the barcode number (EAN or UPC)..."
+              className="w-full pl-10 pr-4 py-4 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark text-lg"
+            />
+          </div>
+          <div className="flex space-x-4">
+            <button
+              type="submit"
+              disabled={loading || !barcode.trim()}
+              className="flex-1 px-6 py-4 bg-brand-text text-white rounded-lg font-semibold hover:opacity-90 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Looking up...' : 'Check Product'}
+            </button>
+            {barcodeScanningSupported() && (
+              <label className="flex items-center space-x-2 px-6 py-4 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all cursor-pointer">
+                <Camera className="w-5 h-5" />
+                <span>Scan Barcode</span>
+                <input
+                  type="file"
+                  accept="image/*"
+                  capture="environment"
+                  className="hidden"
+                  onChange={(e) => e.target.files?.[0] && handleBarcodePhoto(e.target.files[0])}
+                />
+              </label>
+            )}
+          </div>
+        </form>
+      )}
+
+      {step === 'label' && (
+        <form onSubmit={handleLabelSubmit} className="space-y-4">
+          <div className="flex items-start space-x-3 p-4 bg-brand-cream rounded-lg">
+            <Info className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <p className="text-sm">
+              {scanned
+                ? `Correct the ingredient list for barcode ${scanned.product.barcode} as printed on your pack. Your copy will be used for your future scans.`
+                : `We don't have the ingredients for barcode ${normaliseBarcode(barcode)} yet. Paste or photograph the ingredient list from the pack and we'll check it and remember it for next time.`}
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">Product Name</label>
+              <input
+                type="text"
+                value={productName}
+                onChange={(e) => setProductName(e.target.value)}
+                placeholder="e.g., Digestive Biscuits"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Brand</label>
+              <input
+                type="text"
+                value={brand}
+                onChange={(e) => setBrand(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+              />
+            </div>
+          </div>
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm font-medium">Ingredient List</label>
+              <label className="flex items-center space-x-2 text-sm font-medium text-brand-text cursor-pointer hover:opacity-80">
+                <Camera className="w-4 h-4" />
+                <span>{ocrProgress !== null ? `Reading... ${Math.round(ocrProgress * 100)}%` : 'Photograph Label'}</span>
+                <input
+                  type="file"
+                  accept="image/*"
+                  capture="environment"
+                  className="hidden"
+                  disabled={ocrProgress !== null}
+                  onChange={(e) => e.target.files?.[0] && handleLabelPhoto(e.target.files[0])}
+                />
+              </label>
+            </div>
+            <textarea
+              value={labelText}
+              onChange={(e) => setLabelText(e.target.value)}
+              rows={5}
+              placeholder="Ingredients: Wheat Flour, Sugar, Palm Oil, Salt..."
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+            />
+          </div>
+          <div className="flex space-x-4">
+            <button
+              type="button"
+              onClick={reset}
+              className="flex-1 px-6 py-3 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading || !productName.trim() || !labelText.trim()}
+              className="flex-1 px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all disabled:opacity-50"
+            >
+              {loading ? 'Checking...' : 'Check Ingredients'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {step === 'result' && scanned && (
+        <div>
+          <div className="p-6 rounded-lg border-2" style={{
+            borderColor: scanned.lookup.safety_classification === 'safe' ? '#10b981' :
+                        scanned.lookup.safety_classification === 'caution' ? '#f59e0b' : '#ef4444',
+            backgroundColor: scanned.lookup.safety_classification === 'safe' ? '#f0fdf4' :
+                            scanned.lookup.safety_classification === 'caution' ? '#fffbeb' : '#fef2f2'
+          }}>
+            <div className="flex items-start space-x-4">
+              <div className="flex-shrink-0">
+                {scanned.lookup.safety_classification === 'safe' && <CheckCircle className="w-8 h-8 text-green-600" />}
+                {scanned.lookup.safety_classification === 'caution' && <AlertCircle className="w-8 h-8 text-yellow-600" />}
+                {scanned.lookup.safety_classification === 'avoid' && <XCircle className="w-8 h-8 text-red-600" />}
+              </div>
+              <div className="flex-1">
+                <h3 className="text-2xl font-heading mb-1" style={{
+                  color: scanned.lookup.safety_classification === 'safe' ? '#065f46' :
+                         scanned.lookup.safety_classification === 'caution' ? '#92400e' : '#991b1b'
+                }}>
+                  {scanned.lookup.safety_classification === 'safe' && 'SAFE'}
+                  {scanned.lookup.safety_classification === 'caution' && 'USE CAUTION'}
+                  {scanned.lookup.safety_classification === 'avoid' && 'AVOID'}
+                </h3>
+                <p className="font-medium mb-1">{scanned.lookup.food_name}</p>
+                <p className="text-sm text-gray-500 mb-4">
+                  {scanned.product.barcode} - {SOURCE_LABELS[scanned.product.source]}
+                </p>
+                <p className="font-light text-gray-700 mb-4">{scanned.lookup.rationale}</p>
+                <div className="flex items-start space-x-2 text-sm">
+                  <Info className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                  <span>
+                    <span className="font-medium">Listed ingredients: </span>
+                    {scanned.product.ingredients.join(', ')}
+                  </span>
+                </div>
+                {mayContain(scanned.product.allergens).length > 0 && (
+                  <div className="flex items-start space-x-2 text-sm mt-2">
+                    <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                    <span>
+                      <span className="font-medium">May contain: </span>
+                      {mayContain(scanned.product.allergens).join(', ')}
+                    </span>
+                  </div>
+                )}
+                <VerdictTrace trace={scanned.lookup.trace} />
+              </div>
+            </div>
+          </div>
+          <div className="mt-6 flex space-x-4">
+            {scanned.product.source !== 'grocery' && (
+              <button
+                onClick={() => reenterLabel(scanned.product)}
+                className="flex-1 px-6 py-3 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+              >
+                {scanned.product.source === 'shared' ? 'Enter My Own Ingredient List' : 'Correct Ingredient List'}
+              </button>
+            )}
+            <button
+              onClick={reset}
+              className="flex-1 px-6 py-3 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+            >
+              Check Another Product
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
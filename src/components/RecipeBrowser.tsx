@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Heart, Clock, ChefHat, Users, Search, Filter, Star } from 'lucide-react';
+import { findPreferenceConflicts, loadFoodPreferences, type FoodPreference } from '../lib/foodPreferences';
+import { Heart, Clock, ChefHat, Users, Search, Filter, Star, AlertTriangle } from 'lucide-react';
 
 interface Recipe {
   id: string;
@@ -32,12 +33,20 @@ export function RecipeBrowser() {
   const [searchTerm, setSearchTerm] = useState('');
   const [speciesFilter, setSpeciesFilter] = useState<'all' | 'human' | 'dog' | 'cat'>('human');
   const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
+  const [preferences, setPreferences] = useState<FoodPreference[]>([]);
+  const [showExcluded, setShowExcluded] = useState(false);
 
   useEffect(() => {
     loadRecipes();
     loadUserRecipes();
   }, [speciesFilter]);
 
+  useEffect(() => {
+    loadFoodPreferences()
+      .then(setPreferences)
+      .catch((error) => console.error('Error loading food preferences:', error));
+  }, []);
+
   const loadRecipes = async () => {
     try {
       let query = supabase.from('recipes').select('*');
@@ -106,11 +115,20 @@ export function RecipeBrowser() {
     }
   };
 
-  const filteredRecipes = recipes.filter(recipe =>
+  const recipeConflicts = (recipe: Recipe) =>
+    findPreferenceConflicts(preferences, recipe.ingredients.map((item) => item.ingredient));
+
+  const matchingRecipes = recipes.filter(recipe =>
     recipe.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     recipe.description?.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  const excludedCount = matchingRecipes.filter((recipe) => recipeConflicts(recipe)[0]?.classification === 'avoid').length;
+
+  const filteredRecipes = showExcluded
+    ? matchingRecipes
+    : matchingRecipes.filter((recipe) => recipeConflicts(recipe)[0]?.classification !== 'avoid');
+
   const isFavorite = (recipeId: string) => {
     return userRecipes.find(ur => ur.recipe_id === recipeId)?.is_favorite || false;
   };
@@ -186,6 +204,23 @@ export function RecipeBrowser() {
         </div>
       </div>
 
+      {excludedCount > 0 && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <AlertTriangle className="w-5 h-5 text-yellow-600" />
+            <p className="text-sm text-yellow-800">
+              {excludedCount} {excludedCount === 1 ? 'recipe contains' : 'recipes contain'} foods you're allergic or intolerant to
+            </p>
+          </div>
+          <button
+            onClick={() => setShowExcluded(!showExcluded)}
+            className="text-sm font-medium text-brand-text underline"
+          >
+            {showExcluded ? 'Hide them' : 'Show anyway'}
+          </button>
+        </div>
+      )}
+
       {filteredRecipes.length === 0 ? (
         <div className="bg-white rounded-xl p-12 text-center shadow-sm">
           <ChefHat className="w-16 h-16 text-gray-300 mx-auto mb-4" />
@@ -231,6 +266,18 @@ export function RecipeBrowser() {
                   {recipe.description}
                 </p>
 
+                {recipeConflicts(recipe).slice(0, 1).map((conflict) => (
+                  <div
+                    key={conflict.preference.food_item}
+                    className={`flex items-start space-x-2 p-2 mb-4 rounded-lg text-xs ${
+                      conflict.classification === 'avoid' ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-800'
+                    }`}
+                  >
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    <span>{conflict.rationale}</span>
+                  </div>
+                ))}
+
                 <div className="flex items-center space-x-4 text-sm text-gray-500">
                   <div className="flex items-center space-x-1">
                     <Clock className="w-4 h-4" />
@@ -1,6 +1,21 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Store, Clock, Star, TrendingUp, AlertTriangle, CheckCircle, ShoppingBag, Filter } from 'lucide-react';
+import type { Database } from '../lib/database.types';
+import { loadIngredientIndex, matchIngredient, type IngredientIndex } from '../lib/ingredientMatcher';
+import {
+  assessFoodName,
+  assessIngredient,
+  assessMeal,
+  loadSafetyProfile,
+  type IngredientAssessment,
+  type SafetyProfile,
+  type TraceStep,
+} from '../lib/foodSafety';
+import { VerdictTrace } from './VerdictTrace';
+import { Store, Clock, Star, TrendingUp, AlertTriangle, AlertCircle, CheckCircle, ShoppingBag, Filter } from 'lucide-react';
+
+type Ingredient = Database['public']['Tables']['ingredients']['Row'];
+type Contraindication = Database['public']['Tables']['ingredient_contraindications']['Row'];
 
 interface Restaurant {
   id: string;
@@ -33,7 +48,7 @@ interface DishRiskAssessment {
   risk_classification: 'safe' | 'beneficial' | 'neutral' | 'caution' | 'avoid';
   risk_score: number;
   rationale: string;
-  contraindications: any[];
+  contraindications: TraceStep[];
   recommended_substitutions: any[];
 }
 
@@ -43,6 +58,7 @@ export function RestaurantBrowser() {
   const [dishes, setDishes] = useState<Dish[]>([]);
   const [riskAssessments, setRiskAssessments] = useState<Map<string, DishRiskAssessment>>(new Map());
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [filterRisk, setFilterRisk] = useState<'all' | 'safe' | 'beneficial'>('all');
   const [cuisineFilter, setCuisineFilter] = useState<string>('all');
 
@@ -90,14 +106,27 @@ export function RestaurantBrowser() {
   };
 
   const assessDishRisks = async (dishList: Dish[]) => {
+    setError(null);
+    setRiskAssessments(new Map());
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      const [ingredientIndex, safetyProfile] = await Promise.all([loadIngredientIndex(), loadSafetyProfile()]);
+      if (!safetyProfile) return;
+
+      const { data: contraindications, error: contraindicationsError } = await supabase
+        .from('ingredient_contraindications')
+        .select('*')
+        .eq('species_type', safetyProfile.species);
+
+      if (contraindicationsError) throw contraindicationsError;
+
       const assessmentMap = new Map<string, DishRiskAssessment>();
 
       for (const dish of dishList) {
-        const assessment = await calculateDishRisk(dish, user.id);
+        const assessment = calculateDishRisk(dish, ingredientIndex, contraindications || [], safetyProfile);
         assessmentMap.set(dish.id, assessment);
 
         const { error } = await supabase
@@ -115,113 +144,85 @@ export function RestaurantBrowser() {
       setRiskAssessments(assessmentMap);
     } catch (error) {
       console.error('Error assessing dish risks:', error);
+      setError("We couldn't check these dishes against your health profile. Please try again.");
     }
   };
 
-  const calculateDishRisk = async (dish: Dish, userId: string): Promise<DishRiskAssessment> => {
-    try {
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('species_type, conditions')
-        .eq('id', userId)
-        .maybeSingle();
-
-      const speciesType = profile?.species_type || 'human';
-      let riskClassification: 'safe' | 'beneficial' | 'neutral' | 'caution' | 'avoid' = 'neutral';
-      let riskScore = 50;
-      let rationale = 'This dish has been reviewed for your profile.';
-      const contraindications: any[] = [];
-
-      for (const ingredientName of dish.ingredients) {
-        const { data: ingredient } = await supabase
-          .from('ingredients')
-          .select('*, species_safe, toxicity_warnings')
-          .ilike('name', ingredientName)
-          .maybeSingle();
-
-        if (ingredient) {
-          if (ingredient.toxicity_warnings && ingredient.toxicity_warnings.length > 0) {
-            const toxicForSpecies = ingredient.toxicity_warnings.find(
-              (warning: any) => warning.species?.includes(speciesType)
-            );
-
-            if (toxicForSpecies) {
-              riskClassification = 'avoid';
-              riskScore = 95;
-              rationale = `DANGER: ${ingredient.name} is toxic to ${speciesType}s. ${toxicForSpecies.effect || ''}`;
-              contraindications.push({
-                ingredient: ingredient.name,
-                reason: 'toxic',
-                severity: 'critical',
-              });
-              break;
-            }
-          }
-
-          if (ingredient.species_safe && ingredient.species_safe[speciesType] === false) {
-            riskClassification = 'avoid';
-            riskScore = 90;
-            rationale = `${ingredient.name} is not safe for ${speciesType} consumption.`;
-            contraindications.push({
-              ingredient: ingredient.name,
-              reason: 'unsafe_for_species',
-              severity: 'high',
-            });
-            break;
-          }
-
-          const { data: contraindication } = await supabase
-            .from('ingredient_contraindications')
-            .select('*')
-            .eq('ingredient_id', ingredient.id)
-            .eq('species_type', speciesType)
-            .maybeSingle();
-
-          if (contraindication) {
-            if (contraindication.contraindication_type === 'avoid') {
-              riskClassification = 'caution';
-              riskScore = Math.max(riskScore, 70);
-              rationale = `Contains ${ingredient.name}: ${contraindication.rationale}`;
-              contraindications.push({
-                ingredient: ingredient.name,
-                reason: contraindication.rationale,
-                severity: 'medium',
-              });
-            } else if (contraindication.contraindication_type === 'limit') {
-              if (riskClassification === 'neutral') {
-                riskClassification = 'caution';
-                riskScore = Math.max(riskScore, 60);
-              }
-            }
-          }
-        }
+  const stepRiskScore = (step: TraceStep) => {
+    if (step.outcome === 'avoid') {
+      if (step.rule === 'toxicity_warning') return 95;
+      return step.profile_fact.startsWith('severe ') ? 100 : 90;
+    }
+    if (step.outcome === 'caution') return step.rule === 'contraindication' ? 70 : 65;
+    return 20;
+  };
+
+  const calculateDishRisk = (
+    dish: Dish,
+    ingredientIndex: IngredientIndex<Ingredient>,
+    contraindications: Contraindication[],
+    safetyProfile: SafetyProfile
+  ): DishRiskAssessment => {
+    const assessments: IngredientAssessment[] = [];
+    const unmatched: string[] = [];
+
+    for (const ingredientName of dish.ingredients) {
+      const match = matchIngredient(ingredientIndex, ingredientName);
+      if (match && match.method !== 'partial') {
+        assessments.push(assessIngredient(match.ingredient, contraindications, safetyProfile, ingredientName));
+      } else {
+        unmatched.push(ingredientName);
       }
+    }
 
-      if (riskClassification === 'neutral' && contraindications.length === 0) {
-        riskClassification = 'safe';
-        riskScore = 20;
-        rationale = 'This dish appears safe based on your health profile.';
+    const covered = new Set(assessments.flatMap((assessment) => assessment.trace.map((step) => step.profile_fact)));
+    const conflicting = new Set<string>();
+    for (const food of [...unmatched, ...dish.allergens]) {
+      const assessment = assessFoodName(food, safetyProfile);
+      if (!assessment) continue;
+      conflicting.add(food);
+      if (assessment.trace.some((step) => !covered.has(step.profile_fact))) {
+        assessment.trace.forEach((step) => covered.add(step.profile_fact));
+        assessments.push(assessment);
       }
+    }
+    const unchecked = unmatched.filter((food) => !conflicting.has(food));
 
+    if (assessments.length === 0) {
       return {
         dish_id: dish.id,
-        risk_classification: riskClassification,
-        risk_score: riskScore,
-        rationale,
-        contraindications,
+        risk_classification: 'neutral',
+        risk_score: 50,
+        rationale: "We couldn't match this dish's ingredients to our database, so it hasn't been checked against your profile.",
+        contraindications: [],
         recommended_substitutions: [],
       };
-    } catch (error) {
-      console.error('Error calculating risk:', error);
+    }
+
+    const meal = assessMeal(assessments, unchecked);
+    const flagged = meal.trace.filter((step) => step.outcome === meal.classification);
+
+    // Nothing flagged, but some ingredients were never checked, so the dish
+    // can't be called safe.
+    if (meal.classification === 'safe' && unchecked.length > 0) {
       return {
         dish_id: dish.id,
         risk_classification: 'neutral',
         risk_score: 50,
-        rationale: 'Unable to assess risk at this time.',
-        contraindications: [],
+        rationale: meal.rationale,
+        contraindications: meal.trace,
         recommended_substitutions: [],
       };
     }
+
+    return {
+      dish_id: dish.id,
+      risk_classification: meal.classification,
+      risk_score: meal.classification === 'safe' ? 20 : Math.max(...flagged.map(stepRiskScore)),
+      rationale: meal.classification === 'safe' ? 'This dish appears safe based on your health profile.' : meal.rationale,
+      contraindications: meal.trace,
+      recommended_substitutions: [],
+    };
   };
 
   const getRiskIcon = (classification: string) => {
@@ -287,6 +288,13 @@ export function RestaurantBrowser() {
         </div>
       </div>
 
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
       {!selectedRestaurant ? (
         <div>
           <div className="mb-6">
@@ -376,7 +384,10 @@ export function RestaurantBrowser() {
       ) : (
         <div>
           <button
-            onClick={() => setSelectedRestaurant(null)}
+            onClick={() => {
+              setSelectedRestaurant(null);
+              setError(null);
+            }}
             className="mb-6 text-brand-text font-medium hover:underline"
           >
             ← Back to restaurants
@@ -467,6 +478,9 @@ export function RestaurantBrowser() {
                               Safety Assessment:
                             </p>
                             <p className="text-sm text-gray-700">{assessment.rationale}</p>
+                            {assessment.contraindications.length > 0 && (
+                              <VerdictTrace trace={assessment.contraindications} />
+                            )}
                           </div>
                         )}
 
@@ -0,0 +1,582 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Species } from '../lib/referenceRanges';
+import {
+  FREQUENCY_LABELS,
+  addSupplementProtocol,
+  loadSupplementOptions,
+  readSupplementInteractions,
+  rescreenSupplementProtocols,
+  stopSupplementProtocol,
+  supplementsFor,
+  type InteractionSeverity,
+  type SupplementFrequency,
+  type SupplementProtocol,
+  type SupplementSuggestion,
+} from '../lib/supplementProtocols';
+import {
+  adherenceRate,
+  ensureSupplementSchedule,
+  loadSupplementDoses,
+  rebuildSupplementSchedule,
+  recordSupplementDose,
+  type SupplementDose,
+} from '../lib/supplementSchedule';
+import { Pill, Plus, AlertTriangle, AlertCircle, Info, FlaskConical, X, Clock, CheckCircle, TrendingUp } from 'lucide-react';
+
+const OTHER_SUPPLEMENT = 'other';
+
+const ADHERENCE_DAYS = 7;
+
+const EMPTY_FORM = {
+  catalogue_name: '',
+  supplement_name: '',
+  dosage: '',
+  frequency: 'once_daily' as SupplementFrequency,
+  rationale: '',
+  safety_notes: '',
+};
+
+const getSeverityColor = (severity: InteractionSeverity) => {
+  switch (severity) {
+    case 'severe':
+    case 'major':
+      return 'border-red-500 bg-red-50';
+    case 'moderate':
+      return 'border-yellow-500 bg-yellow-50';
+    default:
+      return 'border-blue-500 bg-blue-50';
+  }
+};
+
+function frequencyLabel(frequency: string): string {
+  return FREQUENCY_LABELS[frequency as SupplementFrequency] ?? frequency;
+}
+
+export function SupplementProtocols() {
+  const [protocols, setProtocols] = useState<SupplementProtocol[]>([]);
+  const [suggestions, setSuggestions] = useState<SupplementSuggestion[]>([]);
+  const [species, setSpecies] = useState<Species | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newProtocol, setNewProtocol] = useState(EMPTY_FORM);
+  const [recentDoses, setRecentDoses] = useState<SupplementDose[]>([]);
+
+  const loadDoses = useCallback(async () => {
+    try {
+      const from = new Date();
+      from.setDate(from.getDate() - (ADHERENCE_DAYS - 1));
+      from.setHours(0, 0, 0, 0);
+      const to = new Date();
+      to.setHours(23, 59, 59, 999);
+
+      setRecentDoses(await loadSupplementDoses(from, to));
+    } catch (err) {
+      console.error('Error loading supplement doses:', err);
+    }
+  }, []);
+
+  const loadProtocols = useCallback(async () => {
+    try {
+      const screened = await rescreenSupplementProtocols();
+      const options = await loadSupplementOptions(screened.map((protocol) => protocol.supplement_name));
+      await ensureSupplementSchedule();
+
+      setProtocols(screened);
+      setSuggestions(options.suggestions);
+      setSpecies(options.species);
+      await loadDoses();
+    } catch (err) {
+      console.error('Error loading supplement protocols:', err);
+      setError('Failed to load supplement protocols');
+    } finally {
+      setLoading(false);
+    }
+  }, [loadDoses]);
+
+  useEffect(() => {
+    loadProtocols();
+  }, [loadProtocols]);
+
+  const updateDose = async (doseId: string, status: 'taken' | 'skipped') => {
+    try {
+      await recordSupplementDose(doseId, status);
+      loadDoses();
+    } catch (err) {
+      console.error('Error updating supplement dose:', err);
+    }
+  };
+
+  const catalogue = supplementsFor(species);
+
+  const selectCatalogueSupplement = (name: string) => {
+    const supplement = catalogue.find((entry) => entry.name === name);
+
+    setNewProtocol({
+      ...newProtocol,
+      catalogue_name: name,
+      supplement_name: supplement?.name ?? '',
+      dosage: supplement && species ? supplement.dosage[species] ?? '' : '',
+      frequency: supplement?.frequency ?? 'once_daily',
+      safety_notes: supplement?.safetyNotes ?? '',
+    });
+  };
+
+  const addProtocol = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      await addSupplementProtocol({
+        supplement_name: newProtocol.supplement_name.trim(),
+        dosage: newProtocol.dosage.trim(),
+        frequency: newProtocol.frequency,
+        rationale: newProtocol.rationale.trim() || null,
+        safety_notes: newProtocol.safety_notes.trim() || null,
+      });
+
+      await rebuildSupplementSchedule();
+
+      setShowAddForm(false);
+      setNewProtocol(EMPTY_FORM);
+      await loadProtocols();
+    } catch (err) {
+      console.error('Error adding supplement:', err);
+      setError('Failed to add supplement');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addSuggestion = async (suggestion: SupplementSuggestion) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      await addSupplementProtocol({
+        supplement_name: suggestion.supplement.name,
+        dosage: suggestion.dosage,
+        frequency: suggestion.supplement.frequency,
+        rationale: suggestion.rationale,
+        safety_notes: suggestion.supplement.safetyNotes,
+      });
+      await rebuildSupplementSchedule();
+      await loadProtocols();
+    } catch (err) {
+      console.error('Error adding suggested supplement:', err);
+      setError('Failed to add supplement');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const stopProtocol = async (protocolId: string) => {
+    try {
+      await stopSupplementProtocol(protocolId);
+      await rebuildSupplementSchedule();
+      await loadProtocols();
+    } catch (err) {
+      console.error('Error stopping supplement:', err);
+      setError('Failed to stop supplement');
+    }
+  };
+
+  const protocolNames = new Map(protocols.map((protocol) => [protocol.id, protocol.supplement_name]));
+  const todayStart = new Date();
+  todayStart.setHours(0, 0, 0, 0);
+  const todaysDoses = recentDoses.filter(
+    (dose) => protocolNames.has(dose.supplement_protocol_id) && new Date(dose.scheduled_time) >= todayStart
+  );
+  const todaysAdherence = adherenceRate(todaysDoses);
+
+  const interactionAlerts = protocols.flatMap((protocol) =>
+    readSupplementInteractions(protocol.interactions).map((interaction) => ({ protocol, interaction }))
+  );
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-text mx-auto mb-4"></div>
+        <p className="font-light">Loading supplement protocols...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-4xl font-heading">SUPPLEMENT PROTOCOLS</h1>
+          <p className="font-light text-gray-600 mt-2">
+            Supplements checked against your lab results and current medications
+          </p>
+        </div>
+        <button
+          onClick={() => setShowAddForm(true)}
+          className="flex items-center space-x-2 px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all"
+        >
+          <Plus className="w-5 h-5" />
+          <span>Add Supplement</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {interactionAlerts.length > 0 && (
+        <div className="mb-8 space-y-4">
+          {interactionAlerts.map(({ protocol, interaction }) => (
+            <div
+              key={`${protocol.id}-${interaction.interaction_id}-${interaction.user_medication_id}`}
+              className={`border-2 rounded-xl p-6 ${getSeverityColor(interaction.severity)}`}
+            >
+              <div className="flex items-start space-x-4">
+                <AlertTriangle className="w-6 h-6 flex-shrink-0 mt-1" />
+                <div className="flex-1">
+                  <h3 className="font-heading text-xl mb-2">
+                    {interaction.severity.toUpperCase()} INTERACTION
+                  </h3>
+                  <p className="mb-2">
+                    <span className="font-medium">{protocol.supplement_name}</span> interacts with{' '}
+                    <span className="font-medium">{interaction.medication_name}</span>: {interaction.effect}
+                  </p>
+                  <p className="text-sm font-medium">Recommendation: {interaction.recommendation}</p>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {suggestions.length > 0 && (
+        <div className="bg-white rounded-xl p-6 shadow-sm mb-8">
+          <div className="flex items-center space-x-2 mb-6">
+            <FlaskConical className="w-6 h-6 text-brand-text" />
+            <h2 className="text-2xl font-heading">SUGGESTED FROM YOUR LAB RESULTS</h2>
+          </div>
+          <div className="grid md:grid-cols-2 gap-4">
+            {suggestions.map((suggestion) => (
+              <div key={suggestion.supplement.name} className="p-4 bg-brand-cream rounded-lg">
+                <div className="flex items-start justify-between mb-2">
+                  <div>
+                    <p className="font-medium">{suggestion.supplement.name}</p>
+                    <p className="text-sm text-gray-600">
+                      {suggestion.dosage} - {frequencyLabel(suggestion.supplement.frequency)}
+                    </p>
+                  </div>
+                  {suggestion.urgent && (
+                    <span className="px-2 py-1 bg-white text-red-700 text-xs rounded-full border border-red-200">
+                      Critical result
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-700 mb-4">{suggestion.rationale}</p>
+                <button
+                  onClick={() => addSuggestion(suggestion)}
+                  disabled={saving}
+                  className="w-full px-4 py-2 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all disabled:opacity-50"
+                >
+                  Add to Protocol
+                </button>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-4">
+            Suggestions are based on your latest results only. Check with your practitioner before starting a new supplement.
+          </p>
+        </div>
+      )}
+
+      {protocols.length > 0 && (
+        <div className="grid md:grid-cols-2 gap-8 mb-8">
+          <div className="bg-white rounded-xl p-6 shadow-sm">
+            <div className="flex items-center space-x-2 mb-6">
+              <Clock className="w-6 h-6 text-brand-text" />
+              <h2 className="text-2xl font-heading">TODAY'S SCHEDULE</h2>
+            </div>
+
+            {todaysDoses.length === 0 ? (
+              <p className="text-gray-500 font-light text-center py-8">
+                No supplement doses scheduled for today
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {todaysDoses.map((dose) => (
+                  <div
+                    key={dose.id}
+                    className={`p-4 rounded-lg border-2 ${
+                      dose.status === 'taken'
+                        ? 'border-green-300 bg-green-50'
+                        : dose.status === 'missed' || dose.status === 'skipped'
+                        ? 'border-gray-200 bg-gray-50'
+                        : 'border-gray-300 bg-white'
+                    }`}
+                  >
+                    <div className="flex justify-between items-center">
+                      <div>
+                        <p className="font-medium">{protocolNames.get(dose.supplement_protocol_id)}</p>
+                        <p className="text-sm text-gray-600">
+                          {new Date(dose.scheduled_time).toLocaleTimeString('en-US', {
+                            hour: '2-digit',
+                            minute: '2-digit',
+                          })}
+                        </p>
+                      </div>
+                      {dose.status === 'scheduled' && (
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => updateDose(dose.id, 'skipped')}
+                            className="px-4 py-2 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium"
+                          >
+                            Skip
+                          </button>
+                          <button
+                            onClick={() => updateDose(dose.id, 'taken')}
+                            className="px-4 py-2 bg-brand-text text-white rounded-lg font-medium hover:opacity-90"
+                          >
+                            Mark Taken
+                          </button>
+                        </div>
+                      )}
+                      {dose.status === 'taken' && (
+                        <div className="flex items-center space-x-2 text-green-600">
+                          <CheckCircle className="w-5 h-5" />
+                          <span className="font-medium">Taken</span>
+                        </div>
+                      )}
+                      {dose.status === 'skipped' && <span className="text-sm text-gray-500">Skipped</span>}
+                    </div>
+                    {dose.schedule_note && (
+                      <p className="text-xs text-gray-600 mt-2 flex items-start space-x-1">
+                        <Info className="w-3 h-3 flex-shrink-0 mt-0.5" />
+                        <span>{dose.schedule_note}</span>
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-xl p-6 shadow-sm">
+            <div className="flex items-center space-x-2 mb-6">
+              <TrendingUp className="w-6 h-6 text-brand-text" />
+              <h2 className="text-2xl font-heading">ADHERENCE</h2>
+            </div>
+
+            <div className="text-center py-4 mb-4">
+              <div className="text-6xl font-heading text-brand-text mb-2">{todaysAdherence ?? 0}%</div>
+              <p className="text-gray-600">Today's Adherence</p>
+            </div>
+
+            <div className="space-y-3">
+              {protocols.map((protocol) => {
+                const rate = adherenceRate(
+                  recentDoses.filter((dose) => dose.supplement_protocol_id === protocol.id)
+                );
+
+                return (
+                  <div key={protocol.id}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="font-medium">{protocol.supplement_name}</span>
+                      <span className="text-gray-600">
+                        {rate === null ? 'No doses due yet' : `${rate}% over ${ADHERENCE_DAYS} days`}
+                      </span>
+                    </div>
+                    <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                      <div className="h-full bg-brand-text rounded-full" style={{ width: `${rate ?? 0}%` }} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl p-6 shadow-sm">
+        <h2 className="text-2xl font-heading mb-6">ACTIVE SUPPLEMENTS</h2>
+
+        {protocols.length === 0 ? (
+          <div className="text-center py-8">
+            <Pill className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500 font-light">
+              No active supplements. Add one above, or upload your biomarker data to get suggestions.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {protocols.map((protocol) => {
+              const interactions = readSupplementInteractions(protocol.interactions);
+
+              return (
+                <div key={protocol.id} className="border border-gray-300 rounded-lg p-6">
+                  <div className="flex justify-between items-start mb-4">
+                    <div>
+                      <h3 className="text-xl font-medium mb-1">{protocol.supplement_name}</h3>
+                      <p className="text-gray-600">
+                        {protocol.dosage} - {frequencyLabel(protocol.frequency)}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {interactions.length > 0 && (
+                        <span className="flex items-center space-x-1 px-3 py-1 bg-red-100 text-red-700 text-sm rounded-full">
+                          <AlertTriangle className="w-4 h-4" />
+                          <span>
+                            {interactions.length} {interactions.length === 1 ? 'interaction' : 'interactions'}
+                          </span>
+                        </span>
+                      )}
+                      <button
+                        onClick={() => stopProtocol(protocol.id)}
+                        className="flex items-center space-x-1 px-3 py-1 text-sm text-gray-600 rounded-lg hover:bg-brand-cream transition-all"
+                      >
+                        <X className="w-4 h-4" />
+                        <span>Stop</span>
+                      </button>
+                    </div>
+                  </div>
+
+                  {protocol.rationale && <p className="text-sm text-gray-700 mb-3">{protocol.rationale}</p>}
+
+                  {protocol.safety_notes && (
+                    <div className="p-3 bg-blue-50 rounded-lg flex items-start space-x-2">
+                      <Info className="w-4 h-4 flex-shrink-0 mt-0.5 text-blue-700" />
+                      <p className="text-sm text-gray-700">{protocol.safety_notes}</p>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {showAddForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl p-8 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <h2 className="text-3xl font-heading mb-6">ADD SUPPLEMENT</h2>
+
+            <form onSubmit={addProtocol} className="space-y-4">
+              <div>
+                <label className="block font-medium mb-2">Supplement</label>
+                <select
+                  value={newProtocol.catalogue_name}
+                  onChange={(e) => selectCatalogueSupplement(e.target.value)}
+                  required
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+                >
+                  <option value="" disabled>
+                    Choose a supplement...
+                  </option>
+                  {catalogue.map((supplement) => (
+                    <option key={supplement.name} value={supplement.name}>
+                      {supplement.name}
+                    </option>
+                  ))}
+                  <option value={OTHER_SUPPLEMENT}>Other...</option>
+                </select>
+              </div>
+
+              {newProtocol.catalogue_name === OTHER_SUPPLEMENT && (
+                <div>
+                  <label className="block font-medium mb-2">Supplement Name</label>
+                  <input
+                    type="text"
+                    value={newProtocol.supplement_name}
+                    onChange={(e) => setNewProtocol({ ...newProtocol, supplement_name: e.target.value })}
+                    required
+                    placeholder="e.g., Turmeric"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+                  />
+                </div>
+              )}
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block font-medium mb-2">Dosage</label>
+                  <input
+                    type="text"
+                    value={newProtocol.dosage}
+                    onChange={(e) => setNewProtocol({ ...newProtocol, dosage: e.target.value })}
+                    required
+                    placeholder="e.g., 1000 IU"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+                  />
+                </div>
+
+                <div>
+                  <label className="block font-medium mb-2">Frequency</label>
+                  <select
+                    value={newProtocol.frequency}
+                    onChange={(e) =>
+                      setNewProtocol({ ...newProtocol, frequency: e.target.value as SupplementFrequency })
+                    }
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+                  >
+                    {(Object.keys(FREQUENCY_LABELS) as SupplementFrequency[]).map((frequency) => (
+                      <option key={frequency} value={frequency}>
+                        {FREQUENCY_LABELS[frequency]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block font-medium mb-2">Reason</label>
+                <input
+                  type="text"
+                  value={newProtocol.rationale}
+                  onChange={(e) => setNewProtocol({ ...newProtocol, rationale: e.target.value })}
+                  placeholder="e.g., Low vitamin D over winter"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+                />
+              </div>
+
+              <div>
+                <label className="block font-medium mb-2">Safety Notes</label>
+                <textarea
+                  value={newProtocol.safety_notes}
+                  onChange={(e) => setNewProtocol({ ...newProtocol, safety_notes: e.target.value })}
+                  rows={3}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-button-dark"
+                />
+              </div>
+
+              <p className="text-sm text-gray-600">
+                We'll check this supplement against your active medications when you save it.
+              </p>
+
+              <div className="flex space-x-4 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowAddForm(false);
+                    setNewProtocol(EMPTY_FORM);
+                  }}
+                  className="flex-1 px-6 py-3 bg-brand-button-light text-brand-text rounded-lg font-medium hover:bg-brand-button-medium transition-all"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="flex-1 px-6 py-3 bg-brand-text text-white rounded-lg font-medium hover:opacity-90 transition-all disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Add Supplement'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
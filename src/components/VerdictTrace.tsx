@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import type { TraceRule, TraceStep } from '../lib/foodSafety';
+import { AlertCircle, CheckCircle, XCircle, ChevronDown, ChevronUp, HelpCircle } from 'lucide-react';
+
+const RULE_LABELS: Record<TraceRule, string> = {
+  toxicity_warning: 'Toxicity warning',
+  species_safe: 'Species safety',
+  contraindication: 'Condition contraindication',
+  allergy: 'Allergy',
+  intolerance: 'Intolerance',
+  food_preference: 'Food preference',
+};
+
+interface VerdictTraceProps {
+  trace: TraceStep[];
+}
+
+export function VerdictTrace({ trace }: VerdictTraceProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center space-x-2 text-sm font-medium text-gray-600 hover:text-brand-text transition-colors"
+      >
+        <HelpCircle className="w-4 h-4" />
+        <span>Why?</span>
+        {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        trace.length === 0 ? (
+          <p className="mt-3 text-sm text-gray-500">
+            No safety rules applied - none of the matched ingredients have toxicity warnings, species restrictions,
+            contraindications for your active conditions, or conflicts with your allergies and preferences.
+          </p>
+        ) : (
+          <ol className="mt-3 space-y-2">
+            {trace.map((step, index) => (
+              <li key={index} className="flex items-start space-x-2 p-3 bg-white rounded-lg text-sm">
+                {step.outcome === 'safe' && <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" />}
+                {step.outcome === 'caution' && <AlertCircle className="w-4 h-4 text-yellow-600 flex-shrink-0 mt-0.5" />}
+                {step.outcome === 'avoid' && <XCircle className="w-4 h-4 text-red-600 flex-shrink-0 mt-0.5" />}
+                <div>
+                  <p>
+                    <span className="font-medium">{step.ingredient}</span>
+                    {step.matched_text && step.matched_text.toLowerCase() !== step.ingredient.toLowerCase() && (
+                      <span className="text-gray-500"> (matched from "{step.matched_text}")</span>
+                    )}
+                    <span className="text-gray-500"> - {RULE_LABELS[step.rule]}</span>
+                  </p>
+                  <p className="text-gray-600">{step.detail}</p>
+                  {step.profile_fact && (
+                    <p className="text-gray-500 capitalize">Based on: {step.profile_fact}</p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )
+      )}
+    </div>
+  );
+}
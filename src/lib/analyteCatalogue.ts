@@ -0,0 +1,87 @@
+export type AnalyteCategory =
+  | 'Metabolic'
+  | 'Lipids'
+  | 'Iron & Blood'
+  | 'Thyroid'
+  | 'Liver'
+  | 'Kidney'
+  | 'Vitamins'
+  | 'Inflammation'
+  | 'Electrolytes';
+
+export interface AnalyteDefinition {
+  key: string;
+  name: string;
+  category: AnalyteCategory;
+  unit: string;
+  plausible_min: number;
+  plausible_max: number;
+  aliases: string[];
+  loinc: string[];
+}
+
+export const ANALYTE_CATALOGUE: AnalyteDefinition[] = [
+  { key: 'hba1c', name: 'HbA1c', category: 'Metabolic', unit: 'mmol/mol', plausible_min: 15, plausible_max: 200, aliases: ['haemoglobin a1c', 'hemoglobin a1c', 'glycated haemoglobin', 'glycated hemoglobin', 'a1c'], loinc: ['59261-8', '4548-4', '17856-6'] },
+  { key: 'glucose', name: 'Fasting Glucose', category: 'Metabolic', unit: 'mmol/L', plausible_min: 1, plausible_max: 40, aliases: ['glucose', 'fasting plasma glucose', 'blood glucose', 'fpg', 'plasma glucose'], loinc: ['14771-0', '15074-8', '1558-6', '2345-7', '2339-0'] },
+  { key: 'insulin', name: 'Fasting Insulin', category: 'Metabolic', unit: 'mU/L', plausible_min: 0.5, plausible_max: 300, aliases: ['insulin', 'serum insulin'], loinc: ['20448-7', '14749-6'] },
+  { key: 'uric_acid', name: 'Uric Acid', category: 'Metabolic', unit: 'umol/L', plausible_min: 30, plausible_max: 1200, aliases: ['urate', 'serum urate'], loinc: ['14933-6', '3084-1'] },
+  { key: 'homa_ir', name: 'HOMA-IR', category: 'Metabolic', unit: 'index', plausible_min: 0.1, plausible_max: 50, aliases: ['homa ir', 'homa-ir index', 'insulin resistance index'], loinc: [] },
+  { key: 'total_cholesterol', name: 'Total Cholesterol', category: 'Lipids', unit: 'mmol/L', plausible_min: 1, plausible_max: 20, aliases: ['cholesterol', 'serum cholesterol', 'total chol'], loinc: ['14647-2', '2093-3'] },
+  { key: 'ldl', name: 'LDL Cholesterol', category: 'Lipids', unit: 'mmol/L', plausible_min: 0.1, plausible_max: 15, aliases: ['ldl', 'ldl-c', 'ldl cholesterol', 'low density lipoprotein'], loinc: ['22748-8', '39469-2', '13457-7', '2089-1', '18262-6'] },
+  { key: 'hdl', name: 'HDL Cholesterol', category: 'Lipids', unit: 'mmol/L', plausible_min: 0.1, plausible_max: 5, aliases: ['hdl', 'hdl-c', 'hdl cholesterol', 'high density lipoprotein'], loinc: ['14646-4', '2085-9'] },
+  { key: 'triglycerides', name: 'Triglycerides', category: 'Lipids', unit: 'mmol/L', plausible_min: 0.1, plausible_max: 50, aliases: ['triglyceride', 'trigs', 'tg'], loinc: ['14927-8', '2571-8'] },
+  { key: 'non_hdl', name: 'Non-HDL Cholesterol', category: 'Lipids', unit: 'mmol/L', plausible_min: 0.1, plausible_max: 20, aliases: ['non hdl', 'non-hdl', 'non-hdl cholesterol', 'non hdl cholesterol'], loinc: ['70204-3', '43396-1'] },
+  { key: 'tg_hdl_ratio', name: 'TG/HDL Ratio', category: 'Lipids', unit: 'ratio', plausible_min: 0.05, plausible_max: 50, aliases: ['tg/hdl', 'tg:hdl', 'triglyceride/hdl ratio', 'triglyceride to hdl ratio'], loinc: [] },
+  { key: 'haemoglobin', name: 'Haemoglobin', category: 'Iron & Blood', unit: 'g/L', plausible_min: 30, plausible_max: 250, aliases: ['hemoglobin', 'hb', 'hgb'], loinc: ['718-7', '20509-6'] },
+  { key: 'ferritin', name: 'Ferritin', category: 'Iron & Blood', unit: 'ug/L', plausible_min: 1, plausible_max: 10000, aliases: ['serum ferritin'], loinc: ['2276-4', '24373-3'] },
+  { key: 'iron', name: 'Serum Iron', category: 'Iron & Blood', unit: 'umol/L', plausible_min: 1, plausible_max: 80, aliases: ['iron', 'fe'], loinc: ['14798-3', '2498-4'] },
+  { key: 'tsh', name: 'TSH', category: 'Thyroid', unit: 'mU/L', plausible_min: 0.005, plausible_max: 150, aliases: ['thyroid stimulating hormone', 'thyrotropin'], loinc: ['3016-3', '11580-8'] },
+  { key: 'free_t4', name: 'Free T4', category: 'Thyroid', unit: 'pmol/L', plausible_min: 1, plausible_max: 100, aliases: ['ft4', 'free thyroxine'], loinc: ['14920-3', '3024-7'] },
+  { key: 'alt', name: 'ALT', category: 'Liver', unit: 'U/L', plausible_min: 1, plausible_max: 5000, aliases: ['alanine aminotransferase', 'alanine transaminase', 'sgpt'], loinc: ['1742-6', '1743-4'] },
+  { key: 'ast', name: 'AST', category: 'Liver', unit: 'U/L', plausible_min: 1, plausible_max: 5000, aliases: ['aspartate aminotransferase', 'aspartate transaminase', 'sgot'], loinc: ['1920-8', '30239-8'] },
+  { key: 'albumin', name: 'Albumin', category: 'Liver', unit: 'g/L', plausible_min: 10, plausible_max: 60, aliases: ['serum albumin'], loinc: ['1751-7', '61151-7'] },
+  { key: 'creatinine', name: 'Creatinine', category: 'Kidney', unit: 'umol/L', plausible_min: 10, plausible_max: 2000, aliases: ['serum creatinine', 'creat'], loinc: ['14682-9', '2160-0'] },
+  { key: 'urea', name: 'Urea', category: 'Kidney', unit: 'mmol/L', plausible_min: 0.5, plausible_max: 60, aliases: ['serum urea', 'blood urea'], loinc: ['22664-7', '3091-6'] },
+  { key: 'bun', name: 'Blood Urea Nitrogen', category: 'Kidney', unit: 'mmol/L', plausible_min: 0.5, plausible_max: 60, aliases: ['bun', 'urea nitrogen', 'serum urea nitrogen'], loinc: ['3094-0', '6299-2', '14937-7'] },
+  { key: 'egfr', name: 'eGFR', category: 'Kidney', unit: 'mL/min/1.73m2', plausible_min: 1, plausible_max: 200, aliases: ['estimated gfr', 'gfr'], loinc: ['62238-1', '33914-3', '98979-8', '48642-3', '48643-1'] },
+  { key: 'bun_creatinine_ratio', name: 'BUN/Creatinine Ratio', category: 'Kidney', unit: 'ratio', plausible_min: 1, plausible_max: 200, aliases: ['bun/creatinine', 'bun:creatinine', 'bun/creatinine ratio', 'urea nitrogen/creatinine ratio'], loinc: ['3097-3'] },
+  { key: 'vitamin_d', name: 'Vitamin D', category: 'Vitamins', unit: 'nmol/L', plausible_min: 5, plausible_max: 500, aliases: ['25-oh vitamin d', '25 oh vitamin d', '25-hydroxyvitamin d', 'vitamin d3', 'total vitamin d'], loinc: ['14635-7', '62292-8', '1989-3'] },
+  { key: 'vitamin_b12', name: 'Vitamin B12', category: 'Vitamins', unit: 'ng/L', plausible_min: 50, plausible_max: 5000, aliases: ['b12', 'cobalamin', 'serum b12'], loinc: ['2132-9', '14685-2'] },
+  { key: 'folate', name: 'Folate', category: 'Vitamins', unit: 'ug/L', plausible_min: 0.5, plausible_max: 50, aliases: ['serum folate', 'folic acid'], loinc: ['2284-8', '14732-2'] },
+  { key: 'crp', name: 'CRP', category: 'Inflammation', unit: 'mg/L', plausible_min: 0, plausible_max: 500, aliases: ['c-reactive protein', 'c reactive protein', 'hs-crp', 'hscrp'], loinc: ['1988-5', '30522-7', '76485-2'] },
+  { key: 'sodium', name: 'Sodium', category: 'Electrolytes', unit: 'mmol/L', plausible_min: 100, plausible_max: 180, aliases: ['na', 'serum sodium'], loinc: ['2951-2', '2947-0'] },
+  { key: 'potassium', name: 'Potassium', category: 'Electrolytes', unit: 'mmol/L', plausible_min: 1.5, plausible_max: 9, aliases: ['k', 'serum potassium'], loinc: ['2823-3', '6298-4'] },
+  { key: 'calcium', name: 'Calcium', category: 'Electrolytes', unit: 'mmol/L', plausible_min: 1, plausible_max: 4.5, aliases: ['serum calcium', 'adjusted calcium', 'corrected calcium'], loinc: ['2000-8', '17861-6'] },
+];
+
+export function normaliseUnit(unit: string): string {
+  return unit.trim().replace(/[µμ]/g, 'u').replace(/\s+/g, '').toLowerCase();
+}
+
+export function getAnalyte(key: string): AnalyteDefinition | undefined {
+  return ANALYTE_CATALOGUE.find((analyte) => analyte.key === key);
+}
+
+export function findAnalyte(name: string): AnalyteDefinition | undefined {
+  const normalised = name.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (!normalised) return undefined;
+
+  return ANALYTE_CATALOGUE.find(
+    (analyte) =>
+      analyte.key === normalised ||
+      analyte.name.toLowerCase() === normalised ||
+      analyte.aliases.includes(normalised)
+  );
+}
+
+export function findAnalyteByLoinc(code: string): AnalyteDefinition | undefined {
+  const trimmed = code.trim();
+  return ANALYTE_CATALOGUE.find((analyte) => analyte.loinc.includes(trimmed));
+}
+
+export function checkPlausibility(analyte: AnalyteDefinition, value: number, unit: string): string | null {
+  if (normaliseUnit(unit) !== normaliseUnit(analyte.unit)) return null;
+  if (value >= analyte.plausible_min && value <= analyte.plausible_max) return null;
+
+  return `${analyte.name} of ${value} ${analyte.unit} is outside the plausible range ${analyte.plausible_min}–${analyte.plausible_max} ${analyte.unit}. Check for a typo.`;
+}
@@ -0,0 +1,64 @@
+import { supabase } from './supabase';
+import type { Database, Json } from './database.types';
+import type { AnalyteResult } from './biomarkers';
+import { assessAnalytes, contextFromProfile } from './referenceRanges';
+import { normaliseAnalyte } from './unitConversion';
+import { deriveAnalytes } from './derivedBiomarkers';
+import { syncBiomarkerConditions } from './healthConditions';
+import { regenerateNutritionRecommendations } from './nutritionRecommendations';
+import { refreshMealPlanTargets } from './nutritionalTargets';
+
+type SourceType = Database['public']['Tables']['biomarker_records']['Row']['source_type'];
+
+export interface NewBiomarkerRecord {
+  testDate: string;
+  sourceType: SourceType;
+  rawData: { [key: string]: Json | undefined };
+  analytes: AnalyteResult[];
+}
+
+export async function saveBiomarkerRecord(record: NewBiomarkerRecord): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not signed in');
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('species_type, pet_species, biological_sex, date_of_birth')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  const context = contextFromProfile(profile, record.testDate);
+  const measured = record.analytes.map(normaliseAnalyte);
+  const analytes = [...measured, ...deriveAnalytes(measured, context)];
+  const assessment = assessAnalytes(analytes, context);
+
+  const { error } = await supabase.from('biomarker_records').insert({
+    profile_id: user.id,
+    test_date: record.testDate,
+    source_type: record.sourceType,
+    raw_data: { ...record.rawData, original_analytes: record.analytes },
+    processed_data: { analytes },
+    risk_level: assessment.risk_level,
+    flagged_markers: assessment.flagged_markers,
+  });
+
+  if (error) throw error;
+
+  try {
+    await syncBiomarkerConditions();
+  } catch (err) {
+    console.error('Error updating health conditions:', err);
+  }
+
+  try {
+    await regenerateNutritionRecommendations();
+  } catch (err) {
+    console.error('Error updating nutrition recommendations:', err);
+  }
+
+  try {
+    await refreshMealPlanTargets();
+  } catch (err) {
+    console.error('Error updating meal plan targets:', err);
+  }
+}
@@ -0,0 +1,111 @@
+import type { Database } from './database.types';
+import { readAnalytes } from './biomarkers';
+import { getAnalyte, normaliseUnit } from './analyteCatalogue';
+import { findReferenceRange, readFlaggedMarkers, type MarkerFlag, type RangeContext } from './referenceRanges';
+import { fromCanonical, normaliseAnalyte, type UnitSystem } from './unitConversion';
+
+type BiomarkerRecord = Database['public']['Tables']['biomarker_records']['Row'];
+
+export interface TrendPoint {
+  recordId: string;
+  testDate: string;
+  value: number;
+  flag: MarkerFlag | null;
+  percentChange: number | null;
+}
+
+export interface AnalyteTrend {
+  key: string;
+  name: string;
+  unit: string;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  derivedFrom: string[] | null;
+  points: TrendPoint[];
+}
+
+interface SeriesEntry {
+  recordId: string;
+  testDate: string;
+  name: string;
+  value: number;
+  unit: string;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  derivedFrom: string[] | null;
+  flag: MarkerFlag | null;
+}
+
+export function buildTrends(records: BiomarkerRecord[], context: RangeContext, unitSystem: UnitSystem): AnalyteTrend[] {
+  const series = new Map<string, SeriesEntry[]>();
+
+  for (const record of records) {
+    const flags = readFlaggedMarkers(record.flagged_markers);
+
+    for (const analyte of readAnalytes(record.processed_data).map(normaliseAnalyte)) {
+      const key = analyte.analyte_key ?? analyte.name.trim().toLowerCase();
+      const flag = flags.find(
+        (marker) => (marker.analyte_key ?? marker.name.trim().toLowerCase()) === key
+      )?.flag ?? null;
+
+      const entries = series.get(key) ?? [];
+      entries.push({
+        recordId: record.id,
+        testDate: record.test_date,
+        name: analyte.name,
+        value: analyte.value,
+        unit: analyte.unit,
+        referenceLow: analyte.reference_low,
+        referenceHigh: analyte.reference_high,
+        derivedFrom: analyte.derived_from ?? null,
+        flag,
+      });
+      series.set(key, entries);
+    }
+  }
+
+  const trends: AnalyteTrend[] = [];
+
+  for (const [key, entries] of series) {
+    const sorted = [...entries].sort((a, b) => a.testDate.localeCompare(b.testDate));
+    const latest = sorted[sorted.length - 1];
+    const sameUnit = sorted.filter((entry) => normaliseUnit(entry.unit) === normaliseUnit(latest.unit));
+
+    const definition = getAnalyte(key);
+    const rule =
+      definition && normaliseUnit(latest.unit) === normaliseUnit(definition.unit)
+        ? findReferenceRange(definition.key, context)
+        : undefined;
+
+    const display = (value: number) =>
+      definition && normaliseUnit(latest.unit) === normaliseUnit(definition.unit)
+        ? fromCanonical(definition.key, value, unitSystem) ?? { value, unit: latest.unit }
+        : { value, unit: latest.unit };
+    const displayBound = (bound: number | null) => (bound === null ? null : display(bound).value);
+
+    const referenceLow = rule ? rule.low : latest.referenceLow;
+    const referenceHigh = rule ? rule.high : latest.referenceHigh;
+    const values = sameUnit.map((entry) => display(entry.value).value);
+
+    trends.push({
+      key,
+      name: definition?.name ?? latest.name,
+      unit: display(latest.value).unit,
+      referenceLow: displayBound(referenceLow),
+      referenceHigh: displayBound(referenceHigh),
+      derivedFrom: latest.derivedFrom,
+      points: sameUnit.map((entry, index) => {
+        const previous = index > 0 ? values[index - 1] : null;
+        return {
+          recordId: entry.recordId,
+          testDate: entry.testDate,
+          value: values[index],
+          flag: entry.flag,
+          percentChange: previous ? ((values[index] - previous) / previous) * 100 : null,
+        };
+      }),
+    });
+  }
+
+  return trends.sort((a, b) => b.points.length - a.points.length || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,113 @@
+import type { Json } from './database.types';
+import { checkPlausibility, findAnalyte } from './analyteCatalogue';
+import { toCanonical } from './unitConversion';
+
+export type AnalyteResult = {
+  analyte_key: string | null;
+  name: string;
+  value: number;
+  unit: string;
+  reference_low: number | null;
+  reference_high: number | null;
+  derived_from?: string[];
+};
+
+export type ProcessedBiomarkerData = {
+  analytes: AnalyteResult[];
+};
+
+export interface DraftAnalyteRow {
+  key: string;
+  name: string;
+  value: string;
+  unit: string;
+  reference_low: string;
+  reference_high: string;
+}
+
+let draftRowCounter = 0;
+
+export function createDraftRow(values: Partial<Omit<DraftAnalyteRow, 'key'>> = {}): DraftAnalyteRow {
+  draftRowCounter += 1;
+  return {
+    key: `row-${draftRowCounter}`,
+    name: '',
+    value: '',
+    unit: '',
+    reference_low: '',
+    reference_high: '',
+    ...values,
+  };
+}
+
+export function toDraftRow(analyte: AnalyteResult): DraftAnalyteRow {
+  return createDraftRow({
+    name: analyte.name,
+    value: analyte.value.toString(),
+    unit: analyte.unit,
+    reference_low: analyte.reference_low?.toString() ?? '',
+    reference_high: analyte.reference_high?.toString() ?? '',
+  });
+}
+
+export function parseNumber(value: string): number | null {
+  const normalised = value.trim().replace(',', '.');
+  if (!normalised) return null;
+  const parsed = Number(normalised);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function validateDraftRow(row: DraftAnalyteRow): string | null {
+  if (!row.name.trim()) return 'Analyte name is required';
+  if (parseNumber(row.value) === null) return `${row.name}: value must be a number`;
+  if (row.reference_low.trim() && parseNumber(row.reference_low) === null) {
+    return `${row.name}: reference low must be a number`;
+  }
+  if (row.reference_high.trim() && parseNumber(row.reference_high) === null) {
+    return `${row.name}: reference high must be a number`;
+  }
+
+  const analyte = findAnalyte(row.name);
+  if (analyte) {
+    const canonical = toCanonical(analyte.key, parseNumber(row.value) ?? 0, row.unit);
+    if (canonical) return checkPlausibility(analyte, canonical.value, canonical.unit);
+  }
+  return null;
+}
+
+export function fromDraftRow(row: DraftAnalyteRow): AnalyteResult {
+  return {
+    analyte_key: findAnalyte(row.name)?.key ?? null,
+    name: row.name.trim(),
+    value: parseNumber(row.value) ?? 0,
+    unit: row.unit.trim(),
+    reference_low: parseNumber(row.reference_low),
+    reference_high: parseNumber(row.reference_high),
+  };
+}
+
+export function readAnalytes(processedData: Json | null): AnalyteResult[] {
+  if (!processedData || typeof processedData !== 'object' || Array.isArray(processedData)) {
+    return [];
+  }
+
+  const analytes = processedData.analytes;
+  if (!Array.isArray(analytes)) return [];
+
+  return analytes.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [];
+    if (typeof entry.name !== 'string' || typeof entry.value !== 'number') return [];
+
+    return [{
+      analyte_key: typeof entry.analyte_key === 'string' ? entry.analyte_key : findAnalyte(entry.name)?.key ?? null,
+      name: entry.name,
+      value: entry.value,
+      unit: typeof entry.unit === 'string' ? entry.unit : '',
+      reference_low: typeof entry.reference_low === 'number' ? entry.reference_low : null,
+      reference_high: typeof entry.reference_high === 'number' ? entry.reference_high : null,
+      ...(Array.isArray(entry.derived_from) && {
+        derived_from: entry.derived_from.filter((key): key is string => typeof key === 'string'),
+      }),
+    }];
+  });
+}
@@ -0,0 +1,330 @@
+import type { Database } from './database.types';
+import { readAnalytes } from './biomarkers';
+import { getAnalyte } from './analyteCatalogue';
+import { findReferenceRange, type RangeContext, type Species } from './referenceRanges';
+import { normaliseAnalyte } from './unitConversion';
+import type { ConditionEvidence } from './healthConditions';
+
+type BiomarkerRecord = Database['public']['Tables']['biomarker_records']['Row'];
+
+export interface LatestValue {
+  value: number;
+  unit: string;
+  testDate: string;
+}
+
+export type LatestValues = Record<string, LatestValue>;
+
+export interface InferredCondition {
+  condition_name: string;
+  condition_type: 'risk' | 'suspected';
+  probability_score: number;
+  notes: string;
+  evidence: ConditionEvidence[];
+}
+
+export interface ResolvedCondition {
+  condition_name: string;
+  notes: string;
+}
+
+export interface InferenceResult {
+  resolved: ResolvedCondition[];
+  findings: InferredCondition[];
+}
+
+interface Reason {
+  key: string;
+  note: string;
+}
+
+interface Finding {
+  condition_type: 'risk' | 'suspected';
+  probability: number;
+  reasons: Reason[];
+}
+
+interface ConditionRule {
+  condition_name: string;
+  species: Species[];
+  inputs: string[];
+  // A finding for this condition replaces ours, e.g. diabetes over prediabetes.
+  supersededBy?: string;
+  infer: (values: LatestValues, context: RangeContext) => Finding | null;
+}
+
+function describe(reason: Reason, values: LatestValues): string {
+  const entry = values[reason.key];
+  return `${getAnalyte(reason.key)?.name ?? reason.key} ${entry.value} ${entry.unit} (${reason.note})`;
+}
+
+function atLeast(values: LatestValues, key: string, threshold: number): boolean {
+  return key in values && values[key].value >= threshold;
+}
+
+function under(values: LatestValues, key: string, threshold: number): boolean {
+  return key in values && values[key].value < threshold;
+}
+
+function isBelowRange(key: string, values: LatestValues, context: RangeContext): boolean {
+  const low = findReferenceRange(key, context)?.low;
+  return key in values && low !== undefined && low !== null && values[key].value < low;
+}
+
+function isAboveRange(key: string, values: LatestValues, context: RangeContext): boolean {
+  const high = findReferenceRange(key, context)?.high;
+  return key in values && high !== undefined && high !== null && values[key].value > high;
+}
+
+const CONDITION_RULES: ConditionRule[] = [
+  {
+    condition_name: 'Type 2 Diabetes',
+    species: ['human'],
+    inputs: ['hba1c', 'glucose'],
+    infer: (values) => {
+      const reasons: Reason[] = [];
+      if (atLeast(values, 'hba1c', 48)) reasons.push({ key: 'hba1c', note: 'diabetic range ≥48' });
+      if (atLeast(values, 'glucose', 7.0)) reasons.push({ key: 'glucose', note: 'diabetic range ≥7.0' });
+      if (reasons.length === 0) return null;
+      return { condition_type: 'suspected', probability: reasons.length > 1 ? 0.9 : 0.7, reasons };
+    },
+  },
+  {
+    condition_name: 'Prediabetes',
+    species: ['human'],
+    inputs: ['hba1c', 'glucose'],
+    supersededBy: 'Type 2 Diabetes',
+    infer: (values) => {
+      const reasons: Reason[] = [];
+      if (atLeast(values, 'hba1c', 42)) reasons.push({ key: 'hba1c', note: 'prediabetic range 42–47' });
+      if (atLeast(values, 'glucose', 6.1)) reasons.push({ key: 'glucose', note: 'impaired fasting glucose 6.1–6.9' });
+      if (reasons.length === 0) return null;
+      return reasons.length > 1
+        ? { condition_type: 'suspected', probability: 0.8, reasons }
+        : { condition_type: 'risk', probability: 0.55, reasons };
+    },
+  },
+  {
+    condition_name: 'Insulin Resistance',
+    species: ['human'],
+    inputs: ['homa_ir', 'tg_hdl_ratio'],
+    infer: (values, context) => {
+      const reasons: Reason[] = [];
+      if (atLeast(values, 'homa_ir', 2.5)) reasons.push({ key: 'homa_ir', note: '2.5 or above' });
+      if (isAboveRange('tg_hdl_ratio', values, context)) reasons.push({ key: 'tg_hdl_ratio', note: 'above 1.3' });
+      if (reasons.length === 0) return null;
+      return atLeast(values, 'homa_ir', 2.9) && reasons.length > 1
+        ? { condition_type: 'suspected', probability: 0.75, reasons }
+        : { condition_type: 'risk', probability: reasons.length > 1 ? 0.6 : 0.45, reasons };
+    },
+  },
+  {
+    condition_name: 'High Cholesterol',
+    species: ['human'],
+    inputs: ['ldl', 'non_hdl', 'total_cholesterol'],
+    infer: (values, context) => {
+      const reasons: Reason[] = [];
+      if (isAboveRange('ldl', values, context)) reasons.push({ key: 'ldl', note: 'above 3.0' });
+      if (isAboveRange('non_hdl', values, context)) reasons.push({ key: 'non_hdl', note: 'above 4.0' });
+      if (reasons.length === 0 && isAboveRange('total_cholesterol', values, context)) {
+        reasons.push({ key: 'total_cholesterol', note: 'above 5.0' });
+      }
+      if (reasons.length === 0) return null;
+      return atLeast(values, 'ldl', 4.9)
+        ? { condition_type: 'suspected', probability: 0.85, reasons }
+        : { condition_type: 'risk', probability: reasons.length > 1 ? 0.7 : 0.5, reasons };
+    },
+  },
+  {
+    condition_name: 'Iron Deficiency',
+    species: ['human'],
+    inputs: ['ferritin', 'haemoglobin'],
+    infer: (values, context) => {
+      const lowFerritin = under(values, 'ferritin', 30);
+      if (!lowFerritin) return null;
+
+      const reasons = [{ key: 'ferritin', note: 'iron stores depleted below 30' }];
+      const anaemic = isBelowRange('haemoglobin', values, context);
+      if (anaemic) reasons.push({ key: 'haemoglobin', note: 'below reference range' });
+
+      if (anaemic) return { condition_type: 'suspected', probability: 0.85, reasons };
+      if (values.ferritin.value < 15) return { condition_type: 'suspected', probability: 0.7, reasons };
+      return { condition_type: 'risk', probability: 0.5, reasons };
+    },
+  },
+  {
+    condition_name: 'Hypothyroidism',
+    species: ['human', 'dog'],
+    inputs: ['tsh', 'free_t4'],
+    infer: (values, context) => {
+      const highTsh = isAboveRange('tsh', values, context);
+      const lowT4 = isBelowRange('free_t4', values, context);
+      if (!highTsh && !lowT4) return null;
+
+      const reasons: Reason[] = [];
+      if (highTsh) reasons.push({ key: 'tsh', note: 'above reference range' });
+      if (lowT4) reasons.push({ key: 'free_t4', note: 'below reference range' });
+      return highTsh && lowT4
+        ? { condition_type: 'suspected', probability: 0.85, reasons }
+        : { condition_type: 'risk', probability: 0.45, reasons };
+    },
+  },
+  {
+    condition_name: 'Hyperthyroidism',
+    species: ['human', 'cat'],
+    inputs: ['tsh', 'free_t4'],
+    infer: (values, context) => {
+      const lowTsh = isBelowRange('tsh', values, context);
+      const highT4 = isAboveRange('free_t4', values, context);
+      if (!highT4 && !lowTsh) return null;
+
+      const reasons: Reason[] = [];
+      if (lowTsh) reasons.push({ key: 'tsh', note: 'below reference range' });
+      if (highT4) reasons.push({ key: 'free_t4', note: 'above reference range' });
+      return (lowTsh || context.species === 'cat') && highT4
+        ? { condition_type: 'suspected', probability: 0.85, reasons }
+        : { condition_type: 'risk', probability: 0.45, reasons };
+    },
+  },
+  {
+    condition_name: 'Chronic Kidney Disease',
+    species: ['human'],
+    inputs: ['egfr'],
+    infer: (values) => {
+      if (!under(values, 'egfr', 60)) return null;
+      const reasons = [{ key: 'egfr', note: 'below 60' }];
+      return { condition_type: 'suspected', probability: values.egfr.value < 30 ? 0.9 : 0.65, reasons };
+    },
+  },
+  {
+    condition_name: 'Chronic Kidney Disease',
+    species: ['dog', 'cat'],
+    inputs: ['creatinine', 'urea'],
+    infer: (values, context) => {
+      const highCreatinine = isAboveRange('creatinine', values, context);
+      if (!highCreatinine) return null;
+
+      const reasons = [{ key: 'creatinine', note: 'above reference range' }];
+      const highUrea = isAboveRange('urea', values, context);
+      if (highUrea) reasons.push({ key: 'urea', note: 'above reference range' });
+      return { condition_type: 'suspected', probability: highUrea ? 0.75 : 0.55, reasons };
+    },
+  },
+  {
+    condition_name: 'Vitamin D Deficiency',
+    species: ['human'],
+    inputs: ['vitamin_d'],
+    infer: (values) => {
+      if (!under(values, 'vitamin_d', 50)) return null;
+      return values.vitamin_d.value < 25
+        ? { condition_type: 'suspected', probability: 0.9, reasons: [{ key: 'vitamin_d', note: 'deficient below 25' }] }
+        : { condition_type: 'risk', probability: 0.6, reasons: [{ key: 'vitamin_d', note: 'insufficient, 25–50' }] };
+    },
+  },
+  {
+    condition_name: 'Vitamin B12 Deficiency',
+    species: ['human'],
+    inputs: ['vitamin_b12'],
+    infer: (values, context) => {
+      if (!isBelowRange('vitamin_b12', values, context)) return null;
+      return {
+        condition_type: 'suspected',
+        probability: values.vitamin_b12.value < 150 ? 0.8 : 0.6,
+        reasons: [{ key: 'vitamin_b12', note: 'below reference range' }],
+      };
+    },
+  },
+  {
+    condition_name: 'Hyperuricaemia',
+    species: ['human'],
+    inputs: ['uric_acid'],
+    infer: (values, context) => {
+      if (!isAboveRange('uric_acid', values, context)) return null;
+      return { condition_type: 'risk', probability: 0.6, reasons: [{ key: 'uric_acid', note: 'above reference range' }] };
+    },
+  },
+];
+
+// Results older than this, counted back from the newest test, are not
+// combined with current ones.
+const RECENT_WINDOW_DAYS = 180;
+
+function daysBefore(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function latestValues(records: BiomarkerRecord[]): LatestValues {
+  const latest: LatestValues = {};
+  const sorted = [...records].sort((a, b) => a.test_date.localeCompare(b.test_date));
+  if (sorted.length === 0) return latest;
+
+  const cutoff = daysBefore(sorted[sorted.length - 1].test_date, RECENT_WINDOW_DAYS);
+
+  for (const record of sorted) {
+    if (record.test_date < cutoff) continue;
+    for (const analyte of readAnalytes(record.processed_data).map(normaliseAnalyte)) {
+      const definition = analyte.analyte_key ? getAnalyte(analyte.analyte_key) : undefined;
+      if (!definition || analyte.unit !== definition.unit) continue;
+      latest[definition.key] = { value: analyte.value, unit: analyte.unit, testDate: record.test_date };
+    }
+  }
+
+  return latest;
+}
+
+export function inferConditions(values: LatestValues, context: RangeContext): InferenceResult {
+  const evaluated: { rule: ConditionRule; latestDate: string }[] = [];
+  const findings: InferredCondition[] = [];
+
+  for (const rule of CONDITION_RULES) {
+    if (!context.species || !rule.species.includes(context.species)) continue;
+
+    const available = rule.inputs.filter((input) => input in values);
+    if (available.length === 0) continue;
+
+    const latestDate = available.map((input) => values[input].testDate).sort().pop() ?? '';
+    evaluated.push({ rule, latestDate });
+
+    const finding = rule.infer(values, context);
+    if (!finding) continue;
+
+    findings.push({
+      condition_name: rule.condition_name,
+      condition_type: finding.condition_type,
+      probability_score: finding.probability,
+      notes: `${finding.reasons.map((reason) => describe(reason, values)).join('; ')}. Based on results up to ${latestDate}.`,
+      evidence: finding.reasons.map((reason) => ({
+        kind: 'biomarker',
+        analyte_key: reason.key,
+        name: getAnalyte(reason.key)?.name ?? reason.key,
+        value: values[reason.key].value,
+        unit: values[reason.key].unit,
+        test_date: values[reason.key].testDate,
+      })),
+    });
+  }
+
+  const found = new Set(findings.map((finding) => finding.condition_name));
+  const resolved: ResolvedCondition[] = [];
+
+  for (const { rule, latestDate } of evaluated) {
+    if (rule.supersededBy && found.has(rule.supersededBy)) {
+      resolved.push({
+        condition_name: rule.condition_name,
+        notes: `Replaced by ${rule.supersededBy} based on results up to ${latestDate}.`,
+      });
+    } else if (!found.has(rule.condition_name)) {
+      resolved.push({
+        condition_name: rule.condition_name,
+        notes: `Resolved: results up to ${latestDate} were within the normal range.`,
+      });
+    }
+  }
+
+  return {
+    resolved,
+    findings: findings.filter((finding) => !resolved.some((entry) => entry.condition_name === finding.condition_name)),
+  };
+}
@@ -20,6 +20,8 @@ export interface Database {
           weight_kg: number | null
           height_cm: number | null
           biological_sex: string | null
+          activity_level: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active' | null
+          preferred_unit_system: 'si' | 'conventional'
           created_at: string
           updated_at: string
         }
@@ -33,6 +35,8 @@ export interface Database {
           weight_kg?: number | null
           height_cm?: number | null
           biological_sex?: string | null
+          activity_level?: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active' | null
+          preferred_unit_system?: 'si' | 'conventional'
           created_at?: string
           updated_at?: string
         }
@@ -46,9 +50,12 @@ export interface Database {
           weight_kg?: number | null
           height_cm?: number | null
           biological_sex?: string | null
+          activity_level?: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active' | null
+          preferred_unit_system?: 'si' | 'conventional'
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       biomarker_records: {
         Row: {
@@ -84,6 +91,7 @@ export interface Database {
           flagged_markers?: Json
           created_at?: string
         }
+        Relationships: []
       }
       health_conditions: {
         Row: {
@@ -95,6 +103,7 @@ export interface Database {
           identified_from: 'biomarkers' | 'symptoms' | 'user_reported'
           active: boolean
           notes: string | null
+          evidence: Json
           created_at: string
         }
         Insert: {
@@ -106,6 +115,7 @@ export interface Database {
           identified_from: 'biomarkers' | 'symptoms' | 'user_reported'
           active?: boolean
           notes?: string | null
+          evidence?: Json
           created_at?: string
         }
         Update: {
@@ -117,8 +127,10 @@ export interface Database {
           identified_from?: 'biomarkers' | 'symptoms' | 'user_reported'
           active?: boolean
           notes?: string | null
+          evidence?: Json
           created_at?: string
         }
+        Relationships: []
       }
       nutrition_recommendations: {
         Row: {
@@ -154,6 +166,7 @@ export interface Database {
           active?: boolean
           created_at?: string
         }
+        Relationships: []
       }
       supplement_protocols: {
         Row: {
@@ -192,6 +205,7 @@ export interface Database {
           active?: boolean
           created_at?: string
         }
+        Relationships: []
       }
       meal_plans: {
         Row: {
@@ -227,6 +241,7 @@ export interface Database {
           adherence_score?: number | null
           created_at?: string
         }
+        Relationships: []
       }
       lifestyle_tracking: {
         Row: {
@@ -256,6 +271,7 @@ export interface Database {
           notes?: string | null
           created_at?: string
         }
+        Relationships: []
       }
       appointments: {
         Row: {
@@ -288,7 +304,661 @@ export interface Database {
           notes?: string | null
           created_at?: string
         }
+        Relationships: []
       }
+      ingredients: {
+        Row: {
+          id: string
+          name: string
+          category: string
+          nutritional_data: Json
+          species_safe: Json
+          toxicity_warnings: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          category: string
+          nutritional_data?: Json
+          species_safe?: Json
+          toxicity_warnings?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          category?: string
+          nutritional_data?: Json
+          species_safe?: Json
+          toxicity_warnings?: Json
+          created_at?: string
+        }
+        Relationships: []
+      }
+      ingredient_contraindications: {
+        Row: {
+          id: string
+          ingredient_id: string
+          condition_name: string
+          contraindication_type: 'avoid' | 'caution' | 'limit'
+          rationale: string | null
+          max_daily_amount: number | null
+          species_type: string
+        }
+        Insert: {
+          id?: string
+          ingredient_id: string
+          condition_name: string
+          contraindication_type: 'avoid' | 'caution' | 'limit'
+          rationale?: string | null
+          max_daily_amount?: number | null
+          species_type: string
+        }
+        Update: {
+          id?: string
+          ingredient_id?: string
+          condition_name?: string
+          contraindication_type?: 'avoid' | 'caution' | 'limit'
+          rationale?: string | null
+          max_daily_amount?: number | null
+          species_type?: string
+        }
+        Relationships: []
+      }
+      food_lookup_history: {
+        Row: {
+          id: string
+          profile_id: string
+          food_name: string
+          lookup_date: string
+          safety_classification: 'safe' | 'caution' | 'avoid'
+          rationale: string | null
+          ingredients_identified: Json
+          decision_trace: Json
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          food_name: string
+          lookup_date?: string
+          safety_classification: 'safe' | 'caution' | 'avoid'
+          rationale?: string | null
+          ingredients_identified?: Json
+          decision_trace?: Json
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          food_name?: string
+          lookup_date?: string
+          safety_classification?: 'safe' | 'caution' | 'avoid'
+          rationale?: string | null
+          ingredients_identified?: Json
+          decision_trace?: Json
+        }
+        Relationships: []
+      }
+      ingredient_aliases: {
+        Row: {
+          id: string
+          ingredient_id: string
+          alias: string
+          region: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          ingredient_id: string
+          alias: string
+          region?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          ingredient_id?: string
+          alias?: string
+          region?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      user_food_preferences: {
+        Row: {
+          id: string
+          profile_id: string
+          preference_type: 'allergy' | 'intolerance' | 'dislike' | 'cultural' | 'ethical'
+          food_item: string
+          severity: 'severe' | 'moderate' | 'mild' | null
+          notes: string | null
+          active: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          preference_type: 'allergy' | 'intolerance' | 'dislike' | 'cultural' | 'ethical'
+          food_item: string
+          severity?: 'severe' | 'moderate' | 'mild' | null
+          notes?: string | null
+          active?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          preference_type?: 'allergy' | 'intolerance' | 'dislike' | 'cultural' | 'ethical'
+          food_item?: string
+          severity?: 'severe' | 'moderate' | 'mild' | null
+          notes?: string | null
+          active?: boolean
+          created_at?: string
+        }
+        Relationships: []
+      }
+      grocery_products: {
+        Row: {
+          id: string
+          store_id: string
+          sku: string
+          name: string
+          brand: string | null
+          category: string | null
+          ingredients: Json
+          nutritional_info: Json
+          price: number
+          unit: string | null
+          in_stock: boolean
+          image_url: string | null
+          product_url: string | null
+          last_updated: string
+        }
+        Insert: {
+          id?: string
+          store_id: string
+          sku: string
+          name: string
+          brand?: string | null
+          category?: string | null
+          ingredients?: Json
+          nutritional_info?: Json
+          price: number
+          unit?: string | null
+          in_stock?: boolean
+          image_url?: string | null
+          product_url?: string | null
+          last_updated?: string
+        }
+        Update: {
+          id?: string
+          store_id?: string
+          sku?: string
+          name?: string
+          brand?: string | null
+          category?: string | null
+          ingredients?: Json
+          nutritional_info?: Json
+          price?: number
+          unit?: string | null
+          in_stock?: boolean
+          image_url?: string | null
+          product_url?: string | null
+          last_updated?: string
+        }
+        Relationships: []
+      }
+      scanned_products: {
+        Row: {
+          id: string
+          barcode: string
+          name: string
+          brand: string | null
+          ingredients: Json
+          ingredients_text: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          barcode: string
+          name: string
+          brand?: string | null
+          ingredients?: Json
+          ingredients_text?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          barcode?: string
+          name?: string
+          brand?: string | null
+          ingredients?: Json
+          ingredients_text?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      medications: {
+        Row: {
+          id: string
+          name: string
+          generic_name: string | null
+          brand_names: Json
+          medication_class: string | null
+          species: 'human' | 'dog' | 'cat' | 'all'
+          common_dosages: Json
+          administration_routes: Json
+          contraindications: Json
+          side_effects: Json
+          toxicity_warnings: Json
+          requires_prescription: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          generic_name?: string | null
+          brand_names?: Json
+          medication_class?: string | null
+          species?: 'human' | 'dog' | 'cat' | 'all'
+          common_dosages?: Json
+          administration_routes?: Json
+          contraindications?: Json
+          side_effects?: Json
+          toxicity_warnings?: Json
+          requires_prescription?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          generic_name?: string | null
+          brand_names?: Json
+          medication_class?: string | null
+          species?: 'human' | 'dog' | 'cat' | 'all'
+          common_dosages?: Json
+          administration_routes?: Json
+          contraindications?: Json
+          side_effects?: Json
+          toxicity_warnings?: Json
+          requires_prescription?: boolean
+          created_at?: string
+        }
+        Relationships: []
+      }
+      user_medications: {
+        Row: {
+          id: string
+          profile_id: string
+          medication_id: string | null
+          medication_name: string
+          dosage: string
+          dosage_amount: number | null
+          dosage_unit: string | null
+          frequency: string
+          schedule_times: Json
+          start_date: string
+          end_date: string | null
+          prescribing_provider: string | null
+          reason: string | null
+          special_instructions: string | null
+          active: boolean
+          recognition_data: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          medication_id?: string | null
+          medication_name: string
+          dosage: string
+          dosage_amount?: number | null
+          dosage_unit?: string | null
+          frequency: string
+          schedule_times?: Json
+          start_date: string
+          end_date?: string | null
+          prescribing_provider?: string | null
+          reason?: string | null
+          special_instructions?: string | null
+          active?: boolean
+          recognition_data?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          medication_id?: string | null
+          medication_name?: string
+          dosage?: string
+          dosage_amount?: number | null
+          dosage_unit?: string | null
+          frequency?: string
+          schedule_times?: Json
+          start_date?: string
+          end_date?: string | null
+          prescribing_provider?: string | null
+          reason?: string | null
+          special_instructions?: string | null
+          active?: boolean
+          recognition_data?: Json
+          created_at?: string
+        }
+        Relationships: []
+      }
+      medication_interactions: {
+        Row: {
+          id: string
+          interaction_type: 'drug_drug' | 'drug_food' | 'drug_supplement'
+          medication_id_1: string | null
+          medication_id_2: string | null
+          interacting_substance: string | null
+          severity: 'minor' | 'moderate' | 'major' | 'severe'
+          effect: string
+          mechanism: string | null
+          recommendation: string
+          species_specific: Json
+          source_references: Json
+        }
+        Insert: {
+          id?: string
+          interaction_type: 'drug_drug' | 'drug_food' | 'drug_supplement'
+          medication_id_1?: string | null
+          medication_id_2?: string | null
+          interacting_substance?: string | null
+          severity: 'minor' | 'moderate' | 'major' | 'severe'
+          effect: string
+          mechanism?: string | null
+          recommendation: string
+          species_specific?: Json
+          source_references?: Json
+        }
+        Update: {
+          id?: string
+          interaction_type?: 'drug_drug' | 'drug_food' | 'drug_supplement'
+          medication_id_1?: string | null
+          medication_id_2?: string | null
+          interacting_substance?: string | null
+          severity?: 'minor' | 'moderate' | 'major' | 'severe'
+          effect?: string
+          mechanism?: string | null
+          recommendation?: string
+          species_specific?: Json
+          source_references?: Json
+        }
+        Relationships: []
+      }
+      user_interaction_alerts: {
+        Row: {
+          id: string
+          profile_id: string
+          interaction_id: string | null
+          supplement_protocol_id: string | null
+          user_medication_ids: Json
+          alert_type: 'drug_drug' | 'drug_food' | 'drug_supplement'
+          severity: 'minor' | 'moderate' | 'major' | 'severe'
+          message: string
+          recommendation: string
+          acknowledged: boolean
+          dismissed: boolean
+          created_at: string
+          acknowledged_at: string | null
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          interaction_id?: string | null
+          supplement_protocol_id?: string | null
+          user_medication_ids?: Json
+          alert_type: 'drug_drug' | 'drug_food' | 'drug_supplement'
+          severity: 'minor' | 'moderate' | 'major' | 'severe'
+          message: string
+          recommendation: string
+          acknowledged?: boolean
+          dismissed?: boolean
+          created_at?: string
+          acknowledged_at?: string | null
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          interaction_id?: string | null
+          supplement_protocol_id?: string | null
+          user_medication_ids?: Json
+          alert_type?: 'drug_drug' | 'drug_food' | 'drug_supplement'
+          severity?: 'minor' | 'moderate' | 'major' | 'severe'
+          message?: string
+          recommendation?: string
+          acknowledged?: boolean
+          dismissed?: boolean
+          created_at?: string
+          acknowledged_at?: string | null
+        }
+        Relationships: []
+      }
+      medication_doses: {
+        Row: {
+          id: string
+          user_medication_id: string
+          profile_id: string
+          scheduled_time: string
+          taken_time: string | null
+          status: 'scheduled' | 'taken' | 'missed' | 'skipped'
+          missed_reason: string | null
+          reminder_sent: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_medication_id: string
+          profile_id: string
+          scheduled_time: string
+          taken_time?: string | null
+          status?: 'scheduled' | 'taken' | 'missed' | 'skipped'
+          missed_reason?: string | null
+          reminder_sent?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_medication_id?: string
+          profile_id?: string
+          scheduled_time?: string
+          taken_time?: string | null
+          status?: 'scheduled' | 'taken' | 'missed' | 'skipped'
+          missed_reason?: string | null
+          reminder_sent?: boolean
+          created_at?: string
+        }
+        Relationships: []
+      }
+      supplement_doses: {
+        Row: {
+          id: string
+          supplement_protocol_id: string
+          profile_id: string
+          scheduled_time: string
+          taken_time: string | null
+          status: 'scheduled' | 'taken' | 'missed' | 'skipped'
+          schedule_note: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          supplement_protocol_id: string
+          profile_id: string
+          scheduled_time: string
+          taken_time?: string | null
+          status?: 'scheduled' | 'taken' | 'missed' | 'skipped'
+          schedule_note?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          supplement_protocol_id?: string
+          profile_id?: string
+          scheduled_time?: string
+          taken_time?: string | null
+          status?: 'scheduled' | 'taken' | 'missed' | 'skipped'
+          schedule_note?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      weekly_meal_plans: {
+        Row: {
+          id: string
+          profile_id: string
+          plan_name: string
+          start_date: string
+          end_date: string
+          meals_by_day: Json
+          nutritional_targets: Json
+          adherence_optimization_enabled: boolean
+          status: 'active' | 'completed' | 'archived'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          plan_name: string
+          start_date: string
+          end_date: string
+          meals_by_day?: Json
+          nutritional_targets?: Json
+          adherence_optimization_enabled?: boolean
+          status?: 'active' | 'completed' | 'archived'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          plan_name?: string
+          start_date?: string
+          end_date?: string
+          meals_by_day?: Json
+          nutritional_targets?: Json
+          adherence_optimization_enabled?: boolean
+          status?: 'active' | 'completed' | 'archived'
+          created_at?: string
+        }
+        Relationships: []
+      }
+      recipes: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          species_type: 'human' | 'dog' | 'cat'
+          ingredients: Json
+          instructions: string
+          prep_time_minutes: number | null
+          cook_time_minutes: number | null
+          servings: number | null
+          difficulty_level: 'easy' | 'medium' | 'hard'
+          nutritional_breakdown: Json
+          condition_tags: Json
+          cultural_tags: Json
+          dietary_tags: Json
+          meal_types: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          species_type?: 'human' | 'dog' | 'cat'
+          ingredients?: Json
+          instructions: string
+          prep_time_minutes?: number | null
+          cook_time_minutes?: number | null
+          servings?: number | null
+          difficulty_level?: 'easy' | 'medium' | 'hard'
+          nutritional_breakdown?: Json
+          condition_tags?: Json
+          cultural_tags?: Json
+          dietary_tags?: Json
+          meal_types?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          species_type?: 'human' | 'dog' | 'cat'
+          ingredients?: Json
+          instructions?: string
+          prep_time_minutes?: number | null
+          cook_time_minutes?: number | null
+          servings?: number | null
+          difficulty_level?: 'easy' | 'medium' | 'hard'
+          nutritional_breakdown?: Json
+          condition_tags?: Json
+          cultural_tags?: Json
+          dietary_tags?: Json
+          meal_types?: Json
+          created_at?: string
+        }
+        Relationships: []
+      }
+      user_recipes: {
+        Row: {
+          id: string
+          profile_id: string
+          recipe_id: string
+          is_favorite: boolean
+          adherence_score: number | null
+          tried: boolean
+          rating: number | null
+          notes: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          recipe_id: string
+          is_favorite?: boolean
+          adherence_score?: number | null
+          tried?: boolean
+          rating?: number | null
+          notes?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          recipe_id?: string
+          is_favorite?: boolean
+          adherence_score?: number | null
+          tried?: boolean
+          rating?: number | null
+          notes?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      replace_nutrition_recommendations: {
+        Args: {
+          recommendations: Json
+        }
+        Returns: undefined
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
     }
   }
 }
@@ -0,0 +1,97 @@
+import type { AnalyteResult } from './biomarkers';
+import { getAnalyte } from './analyteCatalogue';
+import type { RangeContext } from './referenceRanges';
+import { roundValue } from './unitConversion';
+
+interface DerivedBiomarker {
+  key: string;
+  inputs: string[];
+  appliesTo: (context: RangeContext) => boolean;
+  calculate: (values: Record<string, number>, context: RangeContext) => number | null;
+}
+
+const CREATININE_UMOL_PER_MG_DL = 88.42;
+const UREA_MMOL_PER_BUN_MG_DL = 0.357;
+
+export function ckdEpiEgfr(creatinineUmolL: number, ageYears: number, sex: 'male' | 'female'): number {
+  const creatinineMgDl = creatinineUmolL / CREATININE_UMOL_PER_MG_DL;
+  const kappa = sex === 'female' ? 0.7 : 0.9;
+  const alpha = sex === 'female' ? -0.241 : -0.302;
+  const ratio = creatinineMgDl / kappa;
+
+  return (
+    142 *
+    Math.min(ratio, 1) ** alpha *
+    Math.max(ratio, 1) ** -1.2 *
+    0.9938 ** ageYears *
+    (sex === 'female' ? 1.012 : 1)
+  );
+}
+
+const DERIVED_BIOMARKERS: DerivedBiomarker[] = [
+  {
+    key: 'egfr',
+    inputs: ['creatinine'],
+    appliesTo: (context) => context.species === 'human' && context.sex !== null && (context.ageYears ?? 0) >= 18,
+    calculate: (values, context) => Math.round(ckdEpiEgfr(values.creatinine, context.ageYears!, context.sex!)),
+  },
+  {
+    key: 'homa_ir',
+    inputs: ['glucose', 'insulin'],
+    appliesTo: (context) => context.species === 'human',
+    calculate: (values) => (values.glucose * values.insulin) / 22.5,
+  },
+  {
+    key: 'non_hdl',
+    inputs: ['total_cholesterol', 'hdl'],
+    appliesTo: () => true,
+    calculate: (values) => values.total_cholesterol - values.hdl,
+  },
+  {
+    key: 'tg_hdl_ratio',
+    inputs: ['triglycerides', 'hdl'],
+    appliesTo: () => true,
+    calculate: (values) => (values.hdl > 0 ? values.triglycerides / values.hdl : null),
+  },
+  {
+    key: 'bun_creatinine_ratio',
+    inputs: ['urea', 'creatinine'],
+    appliesTo: (context) => context.species === 'dog' || context.species === 'cat',
+    calculate: (values) =>
+      values.creatinine > 0
+        ? values.urea / UREA_MMOL_PER_BUN_MG_DL / (values.creatinine / CREATININE_UMOL_PER_MG_DL)
+        : null,
+  },
+];
+
+export function deriveAnalytes(analytes: AnalyteResult[], context: RangeContext): AnalyteResult[] {
+  const values: Record<string, number> = {};
+  for (const analyte of analytes) {
+    const definition = analyte.analyte_key ? getAnalyte(analyte.analyte_key) : undefined;
+    if (definition && analyte.unit === definition.unit) values[definition.key] = analyte.value;
+  }
+
+  const derived: AnalyteResult[] = [];
+
+  for (const marker of DERIVED_BIOMARKERS) {
+    if (marker.key in values) continue;
+    if (!marker.inputs.every((input) => input in values)) continue;
+    if (!marker.appliesTo(context)) continue;
+
+    const value = marker.calculate(values, context);
+    if (value === null || !Number.isFinite(value)) continue;
+
+    const definition = getAnalyte(marker.key)!;
+    derived.push({
+      analyte_key: definition.key,
+      name: definition.name,
+      value: roundValue(value),
+      unit: definition.unit,
+      reference_low: null,
+      reference_high: null,
+      derived_from: marker.inputs,
+    });
+  }
+
+  return derived;
+}
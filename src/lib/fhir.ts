@@ -0,0 +1,302 @@
+import type { Database } from './database.types';
+import { findAnalyte, findAnalyteByLoinc, getAnalyte } from './analyteCatalogue';
+import { readAnalytes, type AnalyteResult } from './biomarkers';
+import { readFlaggedMarkers, type MarkerFlag } from './referenceRanges';
+import { normaliseAnalyte } from './unitConversion';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+type BiomarkerRecord = Database['public']['Tables']['biomarker_records']['Row'];
+
+const LOINC_SYSTEM = 'http://loinc.org';
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+const INTERPRETATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+
+type FhirCoding = {
+  system?: string;
+  code?: string;
+  display?: string;
+};
+
+type FhirCodeableConcept = {
+  coding?: FhirCoding[];
+  text?: string;
+};
+
+type FhirQuantity = {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+};
+
+type FhirReference = {
+  reference?: string;
+};
+
+type FhirObservation = {
+  resourceType: 'Observation';
+  id?: string;
+  status?: string;
+  category?: FhirCodeableConcept[];
+  code?: FhirCodeableConcept;
+  subject?: FhirReference;
+  effectiveDateTime?: string;
+  effectivePeriod?: { start?: string };
+  issued?: string;
+  valueQuantity?: FhirQuantity;
+  interpretation?: FhirCodeableConcept[];
+  referenceRange?: { low?: FhirQuantity; high?: FhirQuantity; text?: string }[];
+};
+
+type FhirDiagnosticReport = {
+  resourceType: 'DiagnosticReport';
+  id?: string;
+  status?: string;
+  category?: FhirCodeableConcept[];
+  code?: FhirCodeableConcept;
+  subject?: FhirReference;
+  effectiveDateTime?: string;
+  effectivePeriod?: { start?: string };
+  issued?: string;
+  result?: FhirReference[];
+};
+
+type FhirPatient = {
+  resourceType: 'Patient';
+  id?: string;
+  name?: { text?: string }[];
+  birthDate?: string;
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  extension?: { url: string; extension?: { url: string; valueCodeableConcept?: FhirCodeableConcept }[] }[];
+};
+
+type FhirResource = FhirPatient | FhirObservation | FhirDiagnosticReport;
+
+type FhirBundleEntry = {
+  fullUrl?: string;
+  resource?: FhirResource;
+};
+
+export type FhirBundle = {
+  resourceType: 'Bundle';
+  type: string;
+  timestamp?: string;
+  entry?: FhirBundleEntry[];
+};
+
+export interface FhirImportGroup {
+  reportId: string | null;
+  title: string;
+  testDate: string;
+  analytes: AnalyteResult[];
+  resources: FhirResource[];
+}
+
+function toDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const date = value.split('T')[0];
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : null;
+}
+
+function effectiveDate(resource: FhirObservation | FhirDiagnosticReport): string | null {
+  return toDate(resource.effectiveDateTime) ?? toDate(resource.effectivePeriod?.start) ?? toDate(resource.issued);
+}
+
+function readObservation(observation: FhirObservation): AnalyteResult | null {
+  const quantity = observation.valueQuantity;
+  if (!quantity || typeof quantity.value !== 'number') return null;
+
+  const loinc = observation.code?.coding?.find((coding) => coding.system === LOINC_SYSTEM && coding.code);
+  const name = observation.code?.text ?? loinc?.display ?? observation.code?.coding?.[0]?.display;
+  const definition = (loinc?.code ? findAnalyteByLoinc(loinc.code) : undefined) ?? (name ? findAnalyte(name) : undefined);
+  if (!definition && !name) return null;
+
+  const range = observation.referenceRange?.[0];
+
+  return {
+    analyte_key: definition?.key ?? null,
+    name: definition?.name ?? name ?? '',
+    value: quantity.value,
+    unit: quantity.unit ?? quantity.code ?? '',
+    reference_low: typeof range?.low?.value === 'number' ? range.low.value : null,
+    reference_high: typeof range?.high?.value === 'number' ? range.high.value : null,
+  };
+}
+
+function resourceKeys(entry: FhirBundleEntry): string[] {
+  const resource = entry.resource!;
+  const keys = resource.id ? [`${resource.resourceType}/${resource.id}`] : [];
+  if (entry.fullUrl) keys.push(entry.fullUrl);
+  return keys;
+}
+
+export function parseFhirBundle(input: unknown): FhirImportGroup[] {
+  if (!input || typeof input !== 'object' || (input as { resourceType?: unknown }).resourceType !== 'Bundle') {
+    throw new Error('File is not a FHIR Bundle');
+  }
+
+  const entries = ((input as FhirBundle).entry ?? []).filter((entry) => entry.resource?.resourceType);
+  const observations = new Map<string, FhirObservation>();
+  const reports: FhirDiagnosticReport[] = [];
+
+  for (const entry of entries) {
+    const resource = entry.resource!;
+    if (resource.resourceType === 'Observation') {
+      for (const key of resourceKeys(entry)) observations.set(key, resource);
+    } else if (resource.resourceType === 'DiagnosticReport') {
+      reports.push(resource);
+    }
+  }
+
+  const groups: FhirImportGroup[] = [];
+  const claimed = new Set<FhirObservation>();
+
+  for (const report of reports) {
+    const members = (report.result ?? [])
+      .map((reference) => (reference.reference ? observations.get(reference.reference) : undefined))
+      .filter((observation): observation is FhirObservation => observation !== undefined);
+
+    const analytes = members.map(readObservation).filter((analyte): analyte is AnalyteResult => analyte !== null);
+    members.forEach((observation) => claimed.add(observation));
+    if (analytes.length === 0) continue;
+
+    groups.push({
+      reportId: report.id ?? null,
+      title: report.code?.text ?? report.code?.coding?.[0]?.display ?? 'Diagnostic report',
+      testDate: effectiveDate(report) ?? members.map(effectiveDate).find(Boolean) ?? new Date().toISOString().split('T')[0],
+      analytes,
+      resources: [report, ...members],
+    });
+  }
+
+  const standalone = new Map<string, FhirObservation[]>();
+  for (const observation of new Set(observations.values())) {
+    if (claimed.has(observation)) continue;
+    const date = effectiveDate(observation) ?? new Date().toISOString().split('T')[0];
+    standalone.set(date, [...(standalone.get(date) ?? []), observation]);
+  }
+
+  for (const [testDate, members] of standalone) {
+    const analytes = members.map(readObservation).filter((analyte): analyte is AnalyteResult => analyte !== null);
+    if (analytes.length === 0) continue;
+
+    groups.push({
+      reportId: null,
+      title: 'Observations',
+      testDate,
+      analytes,
+      resources: members,
+    });
+  }
+
+  return groups.sort((a, b) => b.testDate.localeCompare(a.testDate));
+}
+
+function toUcum(unit: string): string {
+  switch (unit) {
+    case 'mU/L':
+      return 'm[IU]/L';
+    case 'uIU/mL':
+      return 'u[IU]/mL';
+    case 'mL/min/1.73m2':
+      return 'mL/min/{1.73_m2}';
+    default:
+      return unit;
+  }
+}
+
+const INTERPRETATION_CODES: Record<MarkerFlag, { code: string; display: string }> = {
+  low: { code: 'L', display: 'Low' },
+  high: { code: 'H', display: 'High' },
+  critical_low: { code: 'LL', display: 'Critical low' },
+  critical_high: { code: 'HH', display: 'Critical high' },
+};
+
+function toObservation(analyte: AnalyteResult, flag: MarkerFlag | null, testDate: string, patientUrl: string): FhirObservation {
+  const definition = analyte.analyte_key ? getAnalyte(analyte.analyte_key) : undefined;
+  const range: { low?: FhirQuantity; high?: FhirQuantity } = {};
+  if (analyte.reference_low !== null) {
+    range.low = { value: analyte.reference_low, unit: analyte.unit, system: UCUM_SYSTEM, code: toUcum(analyte.unit) };
+  }
+  if (analyte.reference_high !== null) {
+    range.high = { value: analyte.reference_high, unit: analyte.unit, system: UCUM_SYSTEM, code: toUcum(analyte.unit) };
+  }
+
+  return {
+    resourceType: 'Observation',
+    status: 'final',
+    category: [{
+      coding: [{
+        system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+        code: 'laboratory',
+        display: 'Laboratory',
+      }],
+    }],
+    code: {
+      coding: definition?.loinc.length ? [{ system: LOINC_SYSTEM, code: definition.loinc[0], display: definition.name }] : [],
+      text: analyte.name,
+    },
+    subject: { reference: patientUrl },
+    effectiveDateTime: testDate,
+    valueQuantity: { value: analyte.value, unit: analyte.unit, system: UCUM_SYSTEM, code: toUcum(analyte.unit) },
+    ...(flag && {
+      interpretation: [{ coding: [{ system: INTERPRETATION_SYSTEM, ...INTERPRETATION_CODES[flag] }] }],
+    }),
+    ...((range.low || range.high) && { referenceRange: [range] }),
+  };
+}
+
+export function buildFhirBundle(profile: Profile | null, records: BiomarkerRecord[]): FhirBundle {
+  const patientUrl = `urn:uuid:${profile?.id ?? crypto.randomUUID()}`;
+  const entry: FhirBundleEntry[] = [];
+
+  const patient: FhirPatient = {
+    resourceType: 'Patient',
+    name: profile ? [{ text: profile.full_name }] : [],
+    ...(profile?.date_of_birth && { birthDate: profile.date_of_birth }),
+    gender: profile?.biological_sex === 'male' || profile?.biological_sex === 'female' ? profile.biological_sex : 'unknown',
+    ...(profile?.species_type === 'pet' && profile.pet_species && {
+      extension: [{
+        url: 'http://hl7.org/fhir/StructureDefinition/patient-animal',
+        extension: [{ url: 'species', valueCodeableConcept: { text: profile.pet_species } }],
+      }],
+    }),
+  };
+  entry.push({ fullUrl: patientUrl, resource: patient });
+
+  for (const record of records) {
+    const flags = readFlaggedMarkers(record.flagged_markers);
+    const observationUrls: string[] = [];
+
+    for (const analyte of readAnalytes(record.processed_data).map(normaliseAnalyte)) {
+      const flag = flags.find(
+        (marker) => (marker.analyte_key ?? marker.name) === (analyte.analyte_key ?? analyte.name)
+      )?.flag ?? null;
+      const fullUrl = `urn:uuid:${crypto.randomUUID()}`;
+      observationUrls.push(fullUrl);
+      entry.push({
+        fullUrl,
+        resource: toObservation(analyte, flag, record.test_date, patientUrl),
+      });
+    }
+
+    const report: FhirDiagnosticReport = {
+      resourceType: 'DiagnosticReport',
+      status: 'final',
+      category: [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0074', code: 'LAB', display: 'Laboratory' }] }],
+      code: { text: `Lab results (${record.source_type})` },
+      subject: { reference: patientUrl },
+      effectiveDateTime: record.test_date,
+      issued: record.created_at,
+      result: observationUrls.map((reference) => ({ reference })),
+    };
+    entry.push({ fullUrl: `urn:uuid:${record.id}`, resource: report });
+  }
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry,
+  };
+}
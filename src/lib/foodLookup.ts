@@ -0,0 +1,238 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+import {
+  assessFoodName,
+  assessIngredient,
+  assessMeal,
+  loadSafetyProfile,
+  type ContraindicationNote,
+  type IngredientAssessment,
+  type SafetyClassification,
+  type SafetyProfile,
+  type TraceStep,
+  worstClassification,
+} from './foodSafety';
+import { parseMeal } from './mealParser';
+import { loadIngredientIndex, matchIngredient, normaliseTerm, type IngredientIndex } from './ingredientMatcher';
+
+type Ingredient = Database['public']['Tables']['ingredients']['Row'];
+type LookupHistory = Database['public']['Tables']['food_lookup_history']['Row'];
+
+export interface LookupContext {
+  index: IngredientIndex<Ingredient>;
+  profile: SafetyProfile;
+}
+
+export interface LookupResult {
+  food_name: string;
+  safety_classification: SafetyClassification;
+  rationale: string;
+  ingredients_identified: string[];
+  not_relevant: ContraindicationNote[];
+  assessments: IngredientAssessment[];
+  unrecognised: string[];
+  trace: TraceStep[];
+  matched: Ingredient[];
+}
+
+export interface FoodFrequency {
+  key: string;
+  foodName: string;
+  count: number;
+  avoidCount: number;
+  latestClassification: SafetyClassification;
+  lastLookedUp: string;
+}
+
+export const REPEAT_LOOKUP_THRESHOLD = 2;
+
+export const UNKNOWN_FOOD_RATIONALE =
+  'This food is not in our database yet. Please consult with a healthcare professional if you have specific dietary concerns.';
+
+export async function loadLookupContext(): Promise<LookupContext> {
+  const [index, profile] = await Promise.all([loadIngredientIndex(), loadSafetyProfile()]);
+  return { index, profile: profile ?? { species: 'human', conditions: [], preferences: [] } };
+}
+
+interface MatchedFood {
+  ingredients: Ingredient[];
+  matchedText: Map<Ingredient, string>;
+  unrecognised: string[];
+}
+
+// A "may contain" warning is never safe for someone who has to avoid the food,
+// even if the same conflict in the ingredient list would only be a dislike.
+function precautionaryAssessment(food: string, profile: SafetyProfile): IngredientAssessment | null {
+  const assessment = assessFoodName(food, profile);
+  if (!assessment) return null;
+
+  const trace = assessment.trace.map((step) => ({
+    ...step,
+    outcome: worstClassification([step.outcome, 'caution']),
+    detail: `The label says it may contain ${food}. ${step.detail}`,
+  }));
+  const classification = worstClassification(trace.map((step) => step.outcome));
+
+  return {
+    ...assessment,
+    ingredient: `${food} (may contain)`,
+    classification,
+    rationale: trace.find((step) => step.outcome === classification)!.detail,
+    trace,
+  };
+}
+
+async function classifyMatches(
+  foodName: string,
+  { ingredients, matchedText, unrecognised }: MatchedFood,
+  profile: SafetyProfile,
+  checkMatchedText = false,
+  mayContain: string[] = []
+): Promise<LookupResult> {
+  let assessments: IngredientAssessment[] = [];
+
+  if (ingredients.length > 0) {
+    const { data: contraindications, error } = await supabase
+      .from('ingredient_contraindications')
+      .select('*')
+      .in('ingredient_id', ingredients.map((ingredient) => ingredient.id))
+      .eq('species_type', profile.species);
+
+    if (error) throw error;
+
+    assessments = ingredients.map((ingredient) =>
+      assessIngredient(ingredient, contraindications || [], profile, matchedText.get(ingredient) ?? null)
+    );
+  }
+
+  const covered = new Set(assessments.flatMap((assessment) => assessment.trace.map((step) => step.profile_fact)));
+  const textToCheck = checkMatchedText ? [...unrecognised, ...matchedText.values()] : unrecognised;
+
+  const conflicting = new Set<string>();
+  const preferenceMatches = textToCheck.flatMap((food) => {
+    const assessment = assessFoodName(food, profile);
+    if (!assessment) return [];
+    conflicting.add(food);
+    if (assessment.trace.every((step) => covered.has(step.profile_fact))) return [];
+    assessment.trace.forEach((step) => covered.add(step.profile_fact));
+    return [assessment];
+  });
+  const unchecked = unrecognised.filter((food) => !conflicting.has(food));
+  const precautionary = mayContain.flatMap((food) => {
+    const assessment = precautionaryAssessment(food, profile);
+    return assessment ? [assessment] : [];
+  });
+  assessments = [...assessments, ...preferenceMatches, ...precautionary];
+
+  const result: LookupResult = {
+    food_name: foodName,
+    safety_classification: 'caution',
+    rationale: UNKNOWN_FOOD_RATIONALE,
+    ingredients_identified: assessments.map((assessment) => assessment.ingredient),
+    not_relevant: [],
+    assessments,
+    unrecognised: unchecked,
+    trace: [],
+    matched: ingredients,
+  };
+
+  if (assessments.length > 0) {
+    const meal = assessMeal(assessments, unchecked);
+    result.safety_classification = meal.classification;
+    result.rationale = meal.rationale;
+    result.not_relevant = meal.notRelevant;
+    result.trace = meal.trace;
+  }
+
+  return result;
+}
+
+export async function lookupFood(query: string, { index, profile }: LookupContext): Promise<LookupResult> {
+  return classifyMatches(query, parseMeal(query, index), profile);
+}
+
+export async function lookupIngredientList(
+  productName: string,
+  listedIngredients: string[],
+  { index, profile }: LookupContext,
+  mayContain: string[] = []
+): Promise<LookupResult> {
+  const matchedText = new Map<Ingredient, string>();
+  const unrecognised: string[] = [];
+
+  for (const listed of listedIngredients) {
+    const match = matchIngredient(index, listed);
+    const found = match && match.method !== 'partial' ? [match.ingredient] : parseMeal(listed, index).ingredients;
+
+    if (found.length === 0) unrecognised.push(listed);
+    for (const ingredient of found) {
+      if (!matchedText.has(ingredient)) matchedText.set(ingredient, listed);
+    }
+  }
+
+  return classifyMatches(
+    productName,
+    { ingredients: [...matchedText.keys()], matchedText, unrecognised },
+    profile,
+    true,
+    mayContain
+  );
+}
+
+export function lookupKey(foodName: string): string {
+  return normaliseTerm(foodName);
+}
+
+export function lookupFrequencies(history: Pick<LookupHistory, 'food_name' | 'lookup_date' | 'safety_classification'>[]): FoodFrequency[] {
+  const frequencies = new Map<string, FoodFrequency>();
+
+  for (const lookup of history) {
+    const key = lookupKey(lookup.food_name);
+    const existing = frequencies.get(key);
+    const avoid = lookup.safety_classification === 'avoid' ? 1 : 0;
+
+    if (!existing) {
+      frequencies.set(key, {
+        key,
+        foodName: lookup.food_name,
+        count: 1,
+        avoidCount: avoid,
+        latestClassification: lookup.safety_classification,
+        lastLookedUp: lookup.lookup_date,
+      });
+      continue;
+    }
+
+    existing.count++;
+    existing.avoidCount += avoid;
+    if (lookup.lookup_date > existing.lastLookedUp) {
+      existing.foodName = lookup.food_name;
+      existing.latestClassification = lookup.safety_classification;
+      existing.lastLookedUp = lookup.lookup_date;
+    }
+  }
+
+  return [...frequencies.values()].sort((a, b) => b.count - a.count || b.lastLookedUp.localeCompare(a.lastLookedUp));
+}
+
+export function repeatedAvoidLookups(frequencies: FoodFrequency[]): FoodFrequency[] {
+  return frequencies.filter(
+    (frequency) => frequency.avoidCount >= REPEAT_LOOKUP_THRESHOLD && frequency.latestClassification === 'avoid'
+  );
+}
+
+export async function saveLookup(result: LookupResult): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const { error } = await supabase.from('food_lookup_history').insert({
+    profile_id: user.id,
+    food_name: result.food_name,
+    safety_classification: result.safety_classification,
+    rationale: result.rationale,
+    ingredients_identified: result.ingredients_identified,
+    decision_trace: result.trace,
+  });
+
+  if (error) throw error;
+}
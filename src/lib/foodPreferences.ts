@@ -0,0 +1,157 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+import { stemPhrase } from './ingredientMatcher';
+import type { SafetyClassification } from './foodSafety';
+
+export type FoodPreference = Pick<
+  Database['public']['Tables']['user_food_preferences']['Row'],
+  'preference_type' | 'food_item' | 'severity'
+>;
+
+export interface PreferenceConflict {
+  preference: FoodPreference;
+  food: string;
+  classification: SafetyClassification;
+  rationale: string;
+}
+
+interface FoodGroup {
+  names: string[];
+  members: string[];
+  excludes?: string[];
+}
+
+const FOOD_GROUPS: FoodGroup[] = [
+  {
+    names: ['dairy', 'milk', 'lactose'],
+    members: ['milk', 'cheese', 'yogurt', 'yoghurt', 'butter', 'cream', 'whey', 'casein', 'parmesan', 'feta', 'ghee'],
+    excludes: ['peanut butter', 'almond butter', 'cocoa butter', 'coconut milk', 'coconut cream', 'almond milk', 'oat milk', 'soy milk', 'rice milk'],
+  },
+  {
+    names: ['gluten', 'wheat'],
+    members: ['wheat', 'barley', 'rye', 'bread', 'pasta', 'flour', 'couscous', 'crouton', 'spelt', 'semolina', 'granola'],
+  },
+  {
+    names: ['fish'],
+    members: ['salmon', 'tuna', 'cod', 'anchovy', 'sardine', 'mackerel', 'trout', 'haddock', 'fish oil'],
+  },
+  {
+    names: ['shellfish', 'crustacean'],
+    members: ['shrimp', 'prawn', 'crab', 'lobster', 'mussel', 'oyster', 'scallop', 'clam'],
+  },
+  {
+    names: ['tree nut', 'nut'],
+    members: ['almond', 'walnut', 'cashew', 'pecan', 'hazelnut', 'pistachio', 'macadamia', 'brazil nut', 'pine nut'],
+  },
+  { names: ['peanut', 'groundnut'], members: ['peanut', 'satay'] },
+  { names: ['sesame'], members: ['sesame', 'tahini', 'hummus'] },
+  { names: ['egg'], members: ['egg', 'mayonnaise', 'meringue'] },
+  { names: ['soy', 'soya'], members: ['soy', 'tofu', 'edamame', 'tempeh', 'miso'] },
+  { names: ['meat'], members: ['beef', 'pork', 'chicken', 'lamb', 'turkey', 'bacon', 'ham', 'venison'] },
+];
+
+const PREFERENCE_LABELS: Record<FoodPreference['preference_type'], string> = {
+  allergy: 'allergy',
+  intolerance: 'intolerance',
+  dislike: 'dislike',
+  cultural: 'cultural preference',
+  ethical: 'ethical preference',
+};
+
+interface PreferenceTerms {
+  terms: string[];
+  excludes: string[];
+}
+
+function termsFor(foodItem: string): PreferenceTerms {
+  const item = stemPhrase(foodItem);
+  const terms = new Set([item]);
+  const excludes = new Set<string>();
+
+  for (const group of FOOD_GROUPS) {
+    const names = group.names.map(stemPhrase);
+    const members = group.members.map(stemPhrase);
+    if (names.includes(item)) {
+      members.forEach((member) => terms.add(member));
+      group.excludes?.forEach((exclude) => excludes.add(stemPhrase(exclude)));
+    }
+    if (members.includes(item)) names.forEach((name) => terms.add(name));
+  }
+
+  return { terms: [...terms], excludes: [...excludes] };
+}
+
+function mentions(food: string, { terms, excludes }: PreferenceTerms): boolean {
+  let text = ` ${stemPhrase(food)} `;
+  for (const exclude of excludes) text = text.replace(` ${exclude} `, ' ');
+
+  return terms.some((term) => text.includes(` ${term} `) || text.replace(/ /g, '') === term.replace(/ /g, ''));
+}
+
+export function preferenceClassification(preference: FoodPreference): SafetyClassification {
+  switch (preference.preference_type) {
+    case 'allergy':
+      return preference.severity === 'mild' ? 'caution' : 'avoid';
+    case 'intolerance':
+      return preference.severity === 'severe' ? 'avoid' : 'caution';
+    case 'cultural':
+    case 'ethical':
+      return 'caution';
+    default:
+      return 'safe';
+  }
+}
+
+function describeConflict(preference: FoodPreference, food: string): string {
+  const severity = preference.severity ? `${preference.severity} ` : '';
+  const label = PREFERENCE_LABELS[preference.preference_type];
+  const subject = food.toLowerCase() === preference.food_item.toLowerCase() ? food : `${food} contains ${preference.food_item}`;
+
+  switch (preference.preference_type) {
+    case 'allergy':
+      return `${preference.severity === 'severe' ? 'ALLERGEN: ' : ''}${subject} - you have a ${severity}${preference.food_item} allergy.`;
+    case 'intolerance':
+      return `${subject} - you have a ${severity}${preference.food_item} ${label}.`;
+    case 'dislike':
+      return `${subject}, which you've said you dislike.`;
+    default:
+      return `${subject}, which conflicts with your ${label}.`;
+  }
+}
+
+export function findPreferenceConflicts(preferences: FoodPreference[], foods: string[]): PreferenceConflict[] {
+  const conflicts: PreferenceConflict[] = [];
+
+  for (const preference of preferences) {
+    const terms = termsFor(preference.food_item);
+    const food = foods.find((candidate) => mentions(candidate, terms));
+    if (!food) continue;
+
+    conflicts.push({
+      preference,
+      food,
+      classification: preferenceClassification(preference),
+      rationale: describeConflict(preference, food),
+    });
+  }
+
+  const rank = (conflict: PreferenceConflict) =>
+    (conflict.classification === 'avoid' ? 4 : conflict.classification === 'caution' ? 2 : 0) +
+    (conflict.preference.severity === 'severe' ? 1 : 0);
+
+  return conflicts.sort((a, b) => rank(b) - rank(a));
+}
+
+export async function loadFoodPreferences(): Promise<FoodPreference[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('user_food_preferences')
+    .select('preference_type, food_item, severity')
+    .eq('profile_id', user.id)
+    .eq('active', true);
+
+  if (error) throw error;
+  return data || [];
+}
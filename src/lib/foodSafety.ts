@@ -0,0 +1,279 @@
+import { supabase } from './supabase';
+import type { Database, Json } from './database.types';
+import { findPreferenceConflicts, loadFoodPreferences, type FoodPreference, type PreferenceConflict } from './foodPreferences';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+type Ingredient = Database['public']['Tables']['ingredients']['Row'];
+type Contraindication = Database['public']['Tables']['ingredient_contraindications']['Row'];
+type HealthCondition = Database['public']['Tables']['health_conditions']['Row'];
+
+export type SafetyClassification = 'safe' | 'caution' | 'avoid';
+
+export interface SafetyProfile {
+  species: string;
+  conditions: Pick<HealthCondition, 'condition_name' | 'condition_type'>[];
+  preferences: FoodPreference[];
+}
+
+export type ContraindicationNote = {
+  condition_name: string;
+  contraindication_type: Contraindication['contraindication_type'];
+  rationale: string | null;
+};
+
+export type TraceRule = 'toxicity_warning' | 'species_safe' | 'contraindication' | 'allergy' | 'intolerance' | 'food_preference';
+
+export type TraceStep = {
+  ingredient: string;
+  matched_text: string | null;
+  rule: TraceRule;
+  outcome: SafetyClassification;
+  detail: string;
+  profile_fact: string;
+};
+
+export interface IngredientAssessment {
+  ingredient: string;
+  classification: SafetyClassification;
+  rationale: string;
+  notRelevant: ContraindicationNote[];
+  trace: TraceStep[];
+}
+
+interface ToxicityWarning {
+  species: string[];
+  compound: string | null;
+  effect: string | null;
+}
+
+const SEVERITY: Record<SafetyClassification, number> = { safe: 0, caution: 1, avoid: 2 };
+
+export function speciesFor(profile: Pick<Profile, 'species_type' | 'pet_species'> | null): string {
+  if (!profile || profile.species_type === 'human') return 'human';
+  return profile.pet_species?.trim().toLowerCase() || 'pet';
+}
+
+export function worstClassification(classifications: SafetyClassification[]): SafetyClassification {
+  return classifications.reduce<SafetyClassification>(
+    (worst, classification) => (SEVERITY[classification] > SEVERITY[worst] ? classification : worst),
+    'safe'
+  );
+}
+
+const TRACE_RULES: TraceRule[] = ['toxicity_warning', 'species_safe', 'contraindication', 'allergy', 'intolerance', 'food_preference'];
+
+export function readDecisionTrace(trace: Json): TraceStep[] {
+  if (!Array.isArray(trace)) return [];
+
+  return trace.flatMap((entry): TraceStep[] => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [];
+    const { ingredient, matched_text, rule, outcome, detail, profile_fact } = entry;
+    if (typeof ingredient !== 'string' || typeof detail !== 'string') return [];
+    if (!TRACE_RULES.includes(rule as TraceRule) || !(typeof outcome === 'string' && outcome in SEVERITY)) return [];
+    return [{
+      ingredient,
+      matched_text: typeof matched_text === 'string' ? matched_text : null,
+      rule: rule as TraceRule,
+      outcome: outcome as SafetyClassification,
+      detail,
+      profile_fact: typeof profile_fact === 'string' ? profile_fact : '',
+    }];
+  });
+}
+
+function readToxicityWarnings(warnings: Json): ToxicityWarning[] {
+  if (!Array.isArray(warnings)) return [];
+
+  return warnings.flatMap((entry): ToxicityWarning[] => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [];
+    return [{
+      species: Array.isArray(entry.species) ? entry.species.filter((s): s is string => typeof s === 'string') : [],
+      compound: typeof entry.compound === 'string' ? entry.compound : null,
+      effect: typeof entry.effect === 'string' ? entry.effect : null,
+    }];
+  });
+}
+
+function isSpeciesSafe(speciesSafe: Json, species: string): boolean | null {
+  if (!speciesSafe || typeof speciesSafe !== 'object' || Array.isArray(speciesSafe)) return null;
+  const value = speciesSafe[species];
+  return typeof value === 'boolean' ? value : null;
+}
+
+function describeEffect(warning: ToxicityWarning): string {
+  if (!warning.effect) return 'Can cause serious health issues.';
+  const effect = warning.effect.replace(/_/g, ' ');
+  return warning.compound
+    ? `Contains ${warning.compound}, which can cause ${effect}.`
+    : `Can cause ${effect}.`;
+}
+
+function preferenceRule(conflict: PreferenceConflict): TraceRule {
+  const type = conflict.preference.preference_type;
+  return type === 'allergy' || type === 'intolerance' ? type : 'food_preference';
+}
+
+function preferenceStep(conflict: PreferenceConflict, ingredient: string, matchedText: string | null): TraceStep {
+  const { preference } = conflict;
+  return {
+    ingredient,
+    matched_text: matchedText,
+    rule: preferenceRule(conflict),
+    outcome: conflict.classification,
+    detail: conflict.rationale,
+    profile_fact: `${preference.severity ? `${preference.severity} ` : ''}${preference.preference_type}: ${preference.food_item}`,
+  };
+}
+
+function healthSteps(
+  ingredient: Ingredient,
+  contraindications: Contraindication[],
+  profile: SafetyProfile,
+  matchedText: string | null
+): { steps: TraceStep[]; notRelevant: ContraindicationNote[] } {
+  const { species } = profile;
+  const steps: TraceStep[] = [];
+  const step = (rule: TraceRule, outcome: SafetyClassification, detail: string, profileFact: string) =>
+    steps.push({ ingredient: ingredient.name, matched_text: matchedText, rule, outcome, detail, profile_fact: profileFact });
+
+  const toxic = readToxicityWarnings(ingredient.toxicity_warnings).find((warning) => warning.species.includes(species));
+  if (toxic) {
+    step('toxicity_warning', 'avoid', `DANGER: ${ingredient.name} is toxic to ${species}s. ${describeEffect(toxic)}`, `species: ${species}`);
+  }
+
+  if (isSpeciesSafe(ingredient.species_safe, species) === false) {
+    step('species_safe', 'avoid', `${ingredient.name} is not safe for ${species} consumption.`, `species: ${species}`);
+  }
+
+  const applicable = contraindications.filter(
+    (c) => c.ingredient_id === ingredient.id && c.species_type === species
+  );
+
+  const conditionFor = (c: Contraindication) =>
+    profile.conditions.find((condition) => condition.condition_name.toLowerCase() === c.condition_name.toLowerCase());
+
+  const notRelevant: ContraindicationNote[] = [];
+
+  for (const c of applicable) {
+    const condition = conditionFor(c);
+    if (!condition) {
+      notRelevant.push({
+        condition_name: c.condition_name,
+        contraindication_type: c.contraindication_type,
+        rationale: c.rationale,
+      });
+      continue;
+    }
+
+    const reason =
+      condition.condition_type === 'risk'
+        ? `you are at risk of ${condition.condition_name}`
+        : `you have ${condition.condition_name}`;
+    const profileFact = `${condition.condition_type} condition: ${condition.condition_name}`;
+
+    if (c.contraindication_type === 'avoid' && condition.condition_type !== 'risk') {
+      step('contraindication', 'avoid', `Avoid ${ingredient.name} because ${reason}. ${c.rationale ?? ''}`.trim(), profileFact);
+    } else {
+      const action = c.contraindication_type === 'limit' ? 'Limit' : 'Use caution with';
+      step('contraindication', 'caution', `${action} ${ingredient.name} because ${reason}. ${c.rationale ?? ''}`.trim(), profileFact);
+    }
+  }
+
+  return { steps, notRelevant };
+}
+
+function fromTrace(ingredient: string, trace: TraceStep[], notRelevant: ContraindicationNote[]): IngredientAssessment {
+  const classification = worstClassification(trace.map((step) => step.outcome));
+  const safeMessage = `${ingredient} appears to be safe for you based on your health profile.`;
+  const rationale =
+    classification === 'safe'
+      ? [safeMessage, ...trace.map((step) => step.detail)].join(' ')
+      : trace.find((step) => step.outcome === classification)!.detail;
+
+  return { ingredient, classification, rationale, notRelevant, trace };
+}
+
+export function assessIngredient(
+  ingredient: Ingredient,
+  contraindications: Contraindication[],
+  profile: SafetyProfile,
+  matchedText: string | null = null
+): IngredientAssessment {
+  const preferenceSteps = findPreferenceConflicts(profile.preferences, [ingredient.name]).map((conflict) =>
+    preferenceStep(conflict, ingredient.name, matchedText)
+  );
+  const { steps, notRelevant } = healthSteps(ingredient, contraindications, profile, matchedText);
+
+  return fromTrace(ingredient.name, [...preferenceSteps, ...steps], notRelevant);
+}
+
+export function assessFoodName(food: string, profile: SafetyProfile): IngredientAssessment | null {
+  const conflicts = findPreferenceConflicts(profile.preferences, [food]);
+  if (conflicts.length === 0) return null;
+  return fromTrace(food, conflicts.map((conflict) => preferenceStep(conflict, food, food)), []);
+}
+
+export interface MealAssessment {
+  classification: SafetyClassification;
+  rationale: string;
+  notRelevant: ContraindicationNote[];
+  trace: TraceStep[];
+}
+
+export function assessMeal(assessments: IngredientAssessment[], unrecognised: string[] = []): MealAssessment {
+  const classification = worstClassification(assessments.map((assessment) => assessment.classification));
+  const flagged = assessments
+    .filter((assessment) => assessment.classification !== 'safe')
+    .sort((a, b) => SEVERITY[b.classification] - SEVERITY[a.classification]);
+
+  let rationale: string;
+  if (assessments.length === 1) {
+    rationale = assessments[0].rationale;
+  } else if (flagged.length > 0) {
+    rationale = flagged.map((assessment) => assessment.rationale).join(' ');
+  } else {
+    rationale = `All ${assessments.length} identified ingredients appear to be safe for you based on your health profile.`;
+  }
+
+  if (unrecognised.length > 0) {
+    rationale += ` We couldn't check: ${unrecognised.join(', ')}.`;
+  }
+
+  const notRelevant = new Map<string, ContraindicationNote>();
+  for (const note of assessments.flatMap((assessment) => assessment.notRelevant)) {
+    notRelevant.set(`${note.condition_name}:${note.contraindication_type}`, note);
+  }
+
+  return {
+    classification,
+    rationale,
+    notRelevant: [...notRelevant.values()],
+    trace: assessments.flatMap((assessment) => assessment.trace),
+  };
+}
+
+export async function loadSafetyProfile(): Promise<SafetyProfile | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const [{ data: profile, error: profileError }, { data: conditions, error: conditionsError }, preferences] = await Promise.all([
+    supabase.from('profiles').select('species_type, pet_species').eq('id', user.id).maybeSingle(),
+    supabase
+      .from('health_conditions')
+      .select('condition_name, condition_type')
+      .eq('profile_id', user.id)
+      .eq('active', true),
+    loadFoodPreferences(),
+  ]);
+
+  // Without the profile or conditions every food would look safe, so a failed
+  // read is surfaced rather than returned as an empty profile.
+  if (profileError) throw profileError;
+  if (conditionsError) throw conditionsError;
+
+  return {
+    species: speciesFor(profile),
+    conditions: conditions || [],
+    preferences,
+  };
+}
@@ -0,0 +1,131 @@
+import { supabase } from './supabase';
+import type { Json } from './database.types';
+import { contextFromProfile } from './referenceRanges';
+import { inferConditions, latestValues } from './conditionInference';
+
+export type ConditionEvidence =
+  | {
+      kind: 'biomarker';
+      analyte_key: string;
+      name: string;
+      value: number;
+      unit: string;
+      test_date: string;
+    }
+  | {
+      kind: 'symptom';
+      description: string;
+    };
+
+export function readConditionEvidence(evidence: Json | null): ConditionEvidence[] {
+  if (!Array.isArray(evidence)) return [];
+
+  return evidence.flatMap((entry): ConditionEvidence[] => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [];
+
+    if (entry.kind === 'symptom' && typeof entry.description === 'string') {
+      return [{ kind: 'symptom', description: entry.description }];
+    }
+
+    if (
+      entry.kind === 'biomarker' &&
+      typeof entry.analyte_key === 'string' &&
+      typeof entry.name === 'string' &&
+      typeof entry.value === 'number'
+    ) {
+      return [{
+        kind: 'biomarker',
+        analyte_key: entry.analyte_key,
+        name: entry.name,
+        value: entry.value,
+        unit: typeof entry.unit === 'string' ? entry.unit : '',
+        test_date: typeof entry.test_date === 'string' ? entry.test_date : '',
+      }];
+    }
+
+    return [];
+  });
+}
+
+function evidenceKey(evidence: ConditionEvidence): string {
+  return evidence.kind === 'symptom' ? `symptom:${evidence.description.toLowerCase()}` : `biomarker:${evidence.analyte_key}`;
+}
+
+// Later evidence replaces earlier evidence for the same symptom or analyte.
+export function mergeConditionEvidence(current: ConditionEvidence[], added: ConditionEvidence[]): ConditionEvidence[] {
+  const merged = new Map(current.map((evidence) => [evidenceKey(evidence), evidence]));
+  for (const evidence of added) merged.set(evidenceKey(evidence), evidence);
+  return [...merged.values()];
+}
+
+export async function syncBiomarkerConditions(): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not signed in');
+
+  const [{ data: profile }, { data: records, error: recordsError }, { data: existing, error: conditionsError }] =
+    await Promise.all([
+      supabase
+        .from('profiles')
+        .select('species_type, pet_species, biological_sex, date_of_birth')
+        .eq('id', user.id)
+        .maybeSingle(),
+      supabase.from('biomarker_records').select('*').eq('profile_id', user.id),
+      supabase.from('health_conditions').select('*').eq('profile_id', user.id),
+    ]);
+
+  if (recordsError) throw recordsError;
+  if (conditionsError) throw conditionsError;
+
+  const values = latestValues(records || []);
+  const { resolved, findings } = inferConditions(values, contextFromProfile(profile));
+  const conditions = existing || [];
+
+  const findExisting = (conditionName: string) =>
+    conditions.find((condition) => condition.condition_name.toLowerCase() === conditionName.toLowerCase());
+
+  for (const finding of findings) {
+    const current = findExisting(finding.condition_name);
+
+    if (!current) {
+      const { error } = await supabase.from('health_conditions').insert({
+        profile_id: user.id,
+        condition_name: finding.condition_name,
+        condition_type: finding.condition_type,
+        probability_score: finding.probability_score,
+        identified_from: 'biomarkers',
+        active: true,
+        notes: finding.notes,
+        evidence: finding.evidence,
+      });
+      if (error) throw error;
+    } else if (current.identified_from === 'biomarkers' && current.condition_type !== 'diagnosed') {
+      const { error } = await supabase
+        .from('health_conditions')
+        .update({
+          condition_type: finding.condition_type,
+          probability_score: finding.probability_score,
+          active: true,
+          notes: finding.notes,
+          evidence: finding.evidence,
+        })
+        .eq('id', current.id);
+      if (error) throw error;
+    }
+  }
+
+  for (const resolution of resolved) {
+    const current = findExisting(resolution.condition_name);
+    if (!current || !current.active || current.identified_from !== 'biomarkers' || current.condition_type === 'diagnosed') {
+      continue;
+    }
+
+    const { error } = await supabase
+      .from('health_conditions')
+      .update({
+        active: false,
+        notes: `${current.notes ? `${current.notes} ` : ''}${resolution.notes}`,
+      })
+      .eq('id', current.id);
+    if (error) throw error;
+  }
+}
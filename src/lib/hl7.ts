@@ -0,0 +1,126 @@
+import { parseNumber, type AnalyteResult } from './biomarkers';
+import { findAnalyte, findAnalyteByLoinc } from './analyteCatalogue';
+import { parseReferenceRange } from './labReportParser';
+
+const NUMERIC_VALUE_TYPES = ['NM', 'SN', 'ST', ''];
+
+export interface Hl7Message {
+  messageType: string | null;
+  controlId: string | null;
+  testDate: string | null;
+  results: AnalyteResult[];
+}
+
+interface Delimiters {
+  field: string;
+  component: string;
+  escape: string;
+}
+
+function unescape(value: string, delimiters: Delimiters): string {
+  const escape = delimiters.escape;
+  if (!escape || !value.includes(escape)) return value;
+
+  const replacements: Record<string, string> = {
+    F: delimiters.field,
+    S: delimiters.component,
+    T: '&',
+    R: '~',
+    E: escape,
+  };
+
+  return value.replace(new RegExp(`\\${escape}([FSTRE])\\${escape}`, 'g'), (_, code: string) => replacements[code]);
+}
+
+function toIsoDate(value: string | undefined): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function readValue(raw: string, delimiters: Delimiters): number | null {
+  const components = raw.split(delimiters.component);
+
+  if (components.length > 1) {
+    // SN (structured numeric): comparator^num1^separator^num2
+    return parseNumber(components[1]);
+  }
+
+  return parseNumber(raw.replace(/^[<>]=?/, ''));
+}
+
+function readObx(fields: string[], delimiters: Delimiters): AnalyteResult | null {
+  const valueType = fields[2] ?? '';
+  if (!NUMERIC_VALUE_TYPES.includes(valueType)) return null;
+
+  const value = readValue(fields[5] ?? '', delimiters);
+  if (value === null) return null;
+
+  const [identifier = '', text = '', codingSystem = '', altIdentifier = '', altText = '', altSystem = ''] =
+    (fields[3] ?? '').split(delimiters.component).map((part) => unescape(part, delimiters));
+
+  const loinc = codingSystem === 'LN' ? identifier : altSystem === 'LN' ? altIdentifier : null;
+  const definition =
+    (loinc ? findAnalyteByLoinc(loinc) : undefined) ??
+    findAnalyte(text) ??
+    findAnalyte(altText) ??
+    findAnalyte(identifier);
+
+  const name = definition?.name ?? (text || altText || identifier);
+  if (!name) return null;
+
+  const unit = unescape((fields[6] ?? '').split(delimiters.component)[0], delimiters);
+  const { low, high } = parseReferenceRange(unescape(fields[7] ?? '', delimiters));
+
+  return {
+    analyte_key: definition?.key ?? null,
+    name,
+    value,
+    unit,
+    reference_low: low,
+    reference_high: high,
+  };
+}
+
+export function parseHl7Message(text: string): Hl7Message {
+  const segments = text
+    .split(/\r\n|\r|\n/)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+  const header = segments.find((segment) => segment.startsWith('MSH'));
+  if (!header || header.length < 8) {
+    throw new Error('Message has no MSH segment');
+  }
+
+  const delimiters: Delimiters = {
+    field: header[3],
+    component: header[4],
+    escape: header[6],
+  };
+
+  // MSH-1 is the field separator itself, so MSH fields are offset by one
+  const headerFields = header.split(delimiters.field);
+  const messageType = headerFields[8]?.split(delimiters.component).slice(0, 2).join('^') || null;
+
+  let testDate: string | null = null;
+  const results: AnalyteResult[] = [];
+
+  for (const segment of segments) {
+    const fields = segment.split(delimiters.field);
+
+    if (fields[0] === 'OBR') {
+      testDate = testDate ?? toIsoDate(fields[7]) ?? toIsoDate(fields[22]);
+    } else if (fields[0] === 'OBX') {
+      testDate = testDate ?? toIsoDate(fields[14]);
+      const result = readObx(fields, delimiters);
+      if (result) results.push(result);
+    }
+  }
+
+  return {
+    messageType,
+    controlId: headerFields[9] || null,
+    testDate,
+    results,
+  };
+}
@@ -0,0 +1,166 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+type Ingredient = Database['public']['Tables']['ingredients']['Row'];
+type IngredientAlias = Database['public']['Tables']['ingredient_aliases']['Row'];
+
+export type MatchMethod = 'exact' | 'alias' | 'stem' | 'fuzzy' | 'partial';
+
+export interface IngredientMatch<T> {
+  ingredient: T;
+  term: string;
+  method: MatchMethod;
+  score: number;
+}
+
+interface IndexTerm<T> {
+  ingredient: T;
+  term: string;
+  plain: string;
+  key: string;
+  words: string[];
+  isAlias: boolean;
+}
+
+export interface IngredientIndex<T> {
+  ingredients: T[];
+  terms: IndexTerm<T>[];
+}
+
+const FUZZY_THRESHOLD = 0.8;
+const MIN_MATCH_SCORE = 0.6;
+
+export function normaliseTerm(text: string): string {
+  return text.toLowerCase().replace(/&/g, ' and ').replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+export function containsPhrase(text: string, phrase: string): boolean {
+  return phrase.length > 0 && ` ${text} `.includes(` ${phrase} `);
+}
+
+export function stemWord(word: string): string {
+  if (word.length <= 3) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('oes')) return word.slice(0, -2);
+  if (/(ch|sh|x|ss)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) return word.slice(0, -1);
+  return word;
+}
+
+export function stemPhrase(text: string): string {
+  return normaliseTerm(text).split(' ').map(stemWord).join(' ');
+}
+
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+export function buildIngredientIndex<T extends { id: string; name: string }>(
+  ingredients: T[],
+  aliases: Pick<IngredientAlias, 'ingredient_id' | 'alias'>[] = []
+): IngredientIndex<T> {
+  const byId = new Map(ingredients.map((ingredient) => [ingredient.id, ingredient]));
+
+  const toTerm = (ingredient: T, term: string, isAlias: boolean): IndexTerm<T> => {
+    const key = stemPhrase(term);
+    return { ingredient, term, plain: normaliseTerm(term), key, words: key.split(' '), isAlias };
+  };
+
+  const terms = [
+    ...ingredients.map((ingredient) => toTerm(ingredient, ingredient.name, false)),
+    ...aliases.flatMap((alias) => {
+      const ingredient = byId.get(alias.ingredient_id);
+      return ingredient ? [toTerm(ingredient, alias.alias, true)] : [];
+    }),
+  ];
+
+  return { ingredients, terms };
+}
+
+function scoreTerm<T>(term: IndexTerm<T>, plain: string, key: string): IngredientMatch<T> | null {
+  const match = (method: MatchMethod, score: number) => ({ ingredient: term.ingredient, term: term.term, method, score });
+
+  if (plain === term.plain) return term.isAlias ? match('alias', 0.97) : match('exact', 1);
+  if (key === term.key) return term.isAlias ? match('alias', 0.93) : match('stem', 0.95);
+  if (key.replace(/ /g, '') === term.key.replace(/ /g, '')) return match(term.isAlias ? 'alias' : 'stem', 0.9);
+
+  if (key.length >= 4 && term.key.length >= 4) {
+    const similarity = 1 - editDistance(key, term.key) / Math.max(key.length, term.key.length);
+    if (similarity >= FUZZY_THRESHOLD) return match('fuzzy', Math.round(similarity * 90) / 100);
+  }
+
+  if (!key.includes(' ') && term.words.length > 1 && term.words.includes(key)) return match('partial', MIN_MATCH_SCORE);
+
+  return null;
+}
+
+export function rankIngredientMatches<T>(index: IngredientIndex<T>, text: string, limit = 5): IngredientMatch<T>[] {
+  const plain = normaliseTerm(text);
+  if (!plain) return [];
+  const key = stemPhrase(plain);
+
+  const best = new Map<T, IngredientMatch<T>>();
+  for (const term of index.terms) {
+    const match = scoreTerm(term, plain, key);
+    if (!match) continue;
+
+    const current = best.get(term.ingredient);
+    if (!current || match.score > current.score) best.set(term.ingredient, match);
+  }
+
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score || a.term.length - b.term.length)
+    .slice(0, limit);
+}
+
+export function matchIngredient<T>(index: IngredientIndex<T>, text: string): IngredientMatch<T> | null {
+  return rankIngredientMatches(index, text, 1)[0] ?? null;
+}
+
+// PostgREST caps each response (1000 rows by default), so the ingredient and
+// alias tables are read a page at a time.
+const PAGE_SIZE = 1000;
+
+async function loadAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+let ingredientIndex: Promise<IngredientIndex<Ingredient>> | null = null;
+
+// The ingredient catalogue is shared by every user, so it is loaded once per
+// session. A failed load is not kept, so the next call tries again.
+export function loadIngredientIndex(): Promise<IngredientIndex<Ingredient>> {
+  if (!ingredientIndex) {
+    ingredientIndex = Promise.all([
+      loadAllRows((from, to) => supabase.from('ingredients').select('*').order('id').range(from, to)),
+      loadAllRows((from, to) =>
+        supabase.from('ingredient_aliases').select('ingredient_id, alias').order('id').range(from, to)
+      ),
+    ]).then(([ingredients, aliases]) => buildIngredientIndex(ingredients, aliases));
+    ingredientIndex.catch(() => {
+      ingredientIndex = null;
+    });
+  }
+  return ingredientIndex;
+}
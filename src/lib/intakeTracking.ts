@@ -0,0 +1,150 @@
+import { supabase } from './supabase';
+import type { Database, Json } from './database.types';
+import { loadSafetyProfile, type SafetyProfile } from './foodSafety';
+
+type Contraindication = Database['public']['Tables']['ingredient_contraindications']['Row'];
+type LifestyleLog = Database['public']['Tables']['lifestyle_tracking']['Row'];
+
+export type MealLogItem = {
+  ingredient_id: string;
+  ingredient: string;
+  quantity_g: number;
+};
+
+export type MealLogData = {
+  description: string;
+  items: MealLogItem[];
+};
+
+export interface DailyLimit {
+  ingredientId: string;
+  ingredient: string;
+  conditionName: string;
+  maxGrams: number;
+  consumedGrams: number;
+}
+
+export interface IntakeWarning {
+  limit: DailyLimit;
+  plannedGrams: number;
+  totalGrams: number;
+}
+
+export const DEFAULT_PORTION_GRAMS = 100;
+
+export function todayDate(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+export function readMealLog(data: Json): MealLogData | null {
+  if (!data || typeof data !== 'object' || Array.isArray(data) || !Array.isArray(data.items)) return null;
+
+  const items = data.items.flatMap((item): MealLogItem[] => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+    if (typeof item.ingredient_id !== 'string' || typeof item.quantity_g !== 'number') return [];
+    return [{
+      ingredient_id: item.ingredient_id,
+      ingredient: typeof item.ingredient === 'string' ? item.ingredient : '',
+      quantity_g: item.quantity_g,
+    }];
+  });
+
+  return { description: typeof data.description === 'string' ? data.description : '', items };
+}
+
+export function totalIntake(logs: Pick<LifestyleLog, 'log_type' | 'data'>[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+
+  for (const log of logs) {
+    if (log.log_type !== 'meal') continue;
+    for (const item of readMealLog(log.data)?.items ?? []) {
+      totals[item.ingredient_id] = (totals[item.ingredient_id] ?? 0) + item.quantity_g;
+    }
+  }
+
+  return totals;
+}
+
+export function dailyLimits(
+  contraindications: Pick<Contraindication, 'ingredient_id' | 'condition_name' | 'max_daily_amount' | 'species_type'>[],
+  ingredientNames: Record<string, string>,
+  profile: SafetyProfile,
+  totals: Record<string, number>
+): DailyLimit[] {
+  const activeConditions = new Set(profile.conditions.map((condition) => condition.condition_name.toLowerCase()));
+  const limits = new Map<string, DailyLimit>();
+
+  for (const c of contraindications) {
+    if (c.max_daily_amount === null || c.species_type !== profile.species) continue;
+    if (!activeConditions.has(c.condition_name.toLowerCase())) continue;
+
+    const existing = limits.get(c.ingredient_id);
+    if (existing && existing.maxGrams <= c.max_daily_amount) continue;
+
+    limits.set(c.ingredient_id, {
+      ingredientId: c.ingredient_id,
+      ingredient: ingredientNames[c.ingredient_id] ?? 'Unknown ingredient',
+      conditionName: c.condition_name,
+      maxGrams: c.max_daily_amount,
+      consumedGrams: totals[c.ingredient_id] ?? 0,
+    });
+  }
+
+  return [...limits.values()].sort((a, b) => b.consumedGrams / b.maxGrams - a.consumedGrams / a.maxGrams);
+}
+
+export function checkPlannedIntake(limits: DailyLimit[], planned: Pick<MealLogItem, 'ingredient_id' | 'quantity_g'>[]): IntakeWarning[] {
+  return planned.flatMap((item) => {
+    const limit = limits.find((candidate) => candidate.ingredientId === item.ingredient_id);
+    if (!limit) return [];
+
+    const totalGrams = limit.consumedGrams + item.quantity_g;
+    return totalGrams > limit.maxGrams ? [{ limit, plannedGrams: item.quantity_g, totalGrams }] : [];
+  });
+}
+
+export async function loadDailyLimits(date: string = todayDate()): Promise<DailyLimit[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const profile = await loadSafetyProfile();
+  if (!profile || profile.conditions.length === 0) return [];
+
+  const [{ data: contraindications, error }, { data: logs }] = await Promise.all([
+    supabase
+      .from('ingredient_contraindications')
+      .select('ingredient_id, condition_name, max_daily_amount, species_type')
+      .not('max_daily_amount', 'is', null)
+      .eq('species_type', profile.species),
+    supabase
+      .from('lifestyle_tracking')
+      .select('log_type, data')
+      .eq('profile_id', user.id)
+      .eq('log_date', date)
+      .eq('log_type', 'meal'),
+  ]);
+
+  if (error) throw error;
+
+  const { data: ingredients } = await supabase
+    .from('ingredients')
+    .select('id, name')
+    .in('id', (contraindications || []).map((c) => c.ingredient_id));
+
+  const names = Object.fromEntries((ingredients || []).map((ingredient) => [ingredient.id, ingredient.name]));
+  return dailyLimits(contraindications || [], names, profile, totalIntake(logs || []));
+}
+
+export async function logMeal(meal: MealLogData, date: string = todayDate()): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const { error } = await supabase.from('lifestyle_tracking').insert({
+    profile_id: user.id,
+    log_date: date,
+    log_type: 'meal',
+    data: meal,
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,159 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.js?url';
+import { parseNumber, type AnalyteResult } from './biomarkers';
+import { findAnalyte } from './analyteCatalogue';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+const LINE_TOLERANCE = 2;
+
+const NUMBER = '\\d+(?:[.,]\\d+)?';
+const ROW_PATTERN = new RegExp(
+  `^([A-Za-z][A-Za-z0-9 ,'()/+\\-]*?[A-Za-z0-9)])\\s*:?\\s+(?:[HL*]\\s+)?([<>]?${NUMBER})(?=\\s|$)\\s*(?:[HL*](?=\\s|$))?\\s*(.*)$`
+);
+const BETWEEN_RANGE = new RegExp(`[([]?\\s*(${NUMBER})\\s*(?:-|–|to)\\s*(${NUMBER})\\s*[)\\]]?`);
+const BOUND_RANGE = new RegExp(`[([]?\\s*(<=?|>=?|≤|≥)\\s*(${NUMBER})\\s*[)\\]]?`);
+
+const IGNORED_PREFIXES = [
+  'page', 'date', 'dob', 'd.o.b', 'age', 'patient', 'phone', 'tel', 'fax', 'nhs', 'lab no',
+  'sample', 'specimen', 'ref', 'report', 'collected', 'received', 'printed', 'time',
+];
+
+const TEST_DATE_PATTERN = /(?:collected|collection date|date collected|sample date|specimen date|date of test|test date)\s*:?\s*(\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{4}-\d{2}-\d{2}|\d{1,2}\s+[A-Za-z]{3,9}\s+\d{4})/i;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+export async function extractPdfText(file: File): Promise<string> {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const pdf = await pdfjsLib.getDocument({ data }).promise;
+  const pages: string[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items = content.items.filter((item): item is TextItem => 'str' in item && item.str.trim() !== '');
+      pages.push(groupIntoLines(items).join('\n'));
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages.join('\n');
+}
+
+function groupIntoLines(items: TextItem[]): string[] {
+  const lines: { y: number; parts: { x: number; text: string }[] }[] = [];
+
+  for (const item of items) {
+    const x = item.transform[4];
+    const y = item.transform[5];
+    const line = lines.find((candidate) => Math.abs(candidate.y - y) <= LINE_TOLERANCE);
+
+    if (line) {
+      line.parts.push({ x, text: item.str });
+    } else {
+      lines.push({ y, parts: [{ x, text: item.str }] });
+    }
+  }
+
+  return lines
+    .sort((a, b) => b.y - a.y)
+    .map((line) =>
+      line.parts
+        .sort((a, b) => a.x - b.x)
+        .map((part) => part.text)
+        .join(' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+    );
+}
+
+export function parseLabReportText(text: string): AnalyteResult[] {
+  const results: AnalyteResult[] = [];
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.replace(/\s+/g, ' ').trim();
+    const row = parseLabLine(line);
+    if (row) results.push(row);
+  }
+
+  return results;
+}
+
+export function parseLabLine(line: string): AnalyteResult | null {
+  const match = ROW_PATTERN.exec(line);
+  if (!match) return null;
+
+  const name = match[1].trim();
+  if (IGNORED_PREFIXES.some((prefix) => name.toLowerCase().startsWith(prefix))) return null;
+
+  const value = parseNumber(match[2].replace(/^[<>]/, ''));
+  if (value === null) return null;
+
+  let remainder = match[3].trim();
+  let unit = '';
+
+  const firstToken = remainder.split(' ')[0] ?? '';
+  if (firstToken && !/^[([<>≤≥]/.test(firstToken) && !/^\d/.test(firstToken)) {
+    unit = firstToken;
+    remainder = remainder.slice(firstToken.length).trim();
+  }
+
+  const { low, high } = parseReferenceRange(remainder);
+
+  return {
+    analyte_key: findAnalyte(name)?.key ?? null,
+    name,
+    value,
+    unit,
+    reference_low: low,
+    reference_high: high,
+  };
+}
+
+export function parseReferenceRange(text: string): { low: number | null; high: number | null } {
+  const between = BETWEEN_RANGE.exec(text);
+  if (between) {
+    return { low: parseNumber(between[1]), high: parseNumber(between[2]) };
+  }
+
+  const bound = BOUND_RANGE.exec(text);
+  if (bound) {
+    const limit = parseNumber(bound[2]);
+    return bound[1].startsWith('<') || bound[1] === '≤'
+      ? { low: null, high: limit }
+      : { low: limit, high: null };
+  }
+
+  return { low: null, high: null };
+}
+
+export function extractTestDate(text: string): string | null {
+  const match = TEST_DATE_PATTERN.exec(text);
+  if (!match) return null;
+
+  const raw = match[1];
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) return raw;
+
+  const numeric = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/.exec(raw);
+  if (numeric) {
+    const year = numeric[3].length === 2 ? `20${numeric[3]}` : numeric[3];
+    return toIsoDate(Number(year), Number(numeric[2]), Number(numeric[1]));
+  }
+
+  const named = /^(\d{1,2})\s+([A-Za-z]{3,9})\s+(\d{4})$/.exec(raw);
+  if (named) {
+    const month = MONTHS.indexOf(named[2].slice(0, 3).toLowerCase()) + 1;
+    if (month > 0) return toIsoDate(Number(named[3]), month, Number(named[1]));
+  }
+
+  return null;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
@@ -0,0 +1,99 @@
+import { matchIngredient, normaliseTerm, stemPhrase, stemWord, type IngredientIndex } from './ingredientMatcher';
+
+export interface ParsedMeal<T> {
+  dishes: string[];
+  ingredients: T[];
+  matchedText: Map<T, string>;
+  unrecognised: string[];
+}
+
+const DISH_DICTIONARY: Record<string, string[]> = {
+  'caesar salad': ['Romaine Lettuce', 'Parmesan', 'Anchovy', 'Egg', 'Garlic', 'Olive Oil'],
+  'greek salad': ['Tomato', 'Cucumber', 'Onion', 'Feta', 'Olive', 'Olive Oil'],
+  'stir fry': ['Broccoli', 'Onion', 'Garlic', 'Bell Pepper', 'Soy Sauce'],
+  'poke bowl': ['Salmon', 'Rice', 'Soy Sauce', 'Avocado'],
+  'spaghetti bolognese': ['Pasta', 'Beef', 'Tomato', 'Onion', 'Garlic'],
+  'french onion soup': ['Onion', 'Beef Broth', 'Cheese', 'Bread'],
+  'garlic bread': ['Bread', 'Garlic', 'Butter'],
+  guacamole: ['Avocado', 'Onion', 'Tomato', 'Lime'],
+  hummus: ['Chickpeas', 'Tahini', 'Garlic', 'Lemon', 'Olive Oil'],
+  pesto: ['Basil', 'Garlic', 'Pine Nuts', 'Parmesan', 'Olive Oil'],
+  omelette: ['Egg', 'Butter'],
+  smoothie: ['Banana', 'Blueberries', 'Greek Yogurt'],
+  parfait: ['Greek Yogurt', 'Blueberries', 'Granola'],
+  'buddha bowl': ['Quinoa', 'Sweet Potato', 'Spinach', 'Chickpeas', 'Tahini'],
+  'chicken curry': ['Chicken Breast', 'Onion', 'Garlic', 'Tomato', 'Coconut Milk'],
+  'fish and chips': ['Cod', 'Potato', 'Flour'],
+};
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'the', 'with', 'without', 'of', 'on', 'in', 'side', 'some', 'fresh', 'plus', 'or',
+  'grilled', 'baked', 'fried', 'roasted', 'steamed', 'raw', 'cooked', 'chopped', 'sliced', 'bowl', 'plate',
+]);
+
+const MAX_PHRASE_WORDS = 4;
+
+function findPhrase(words: string[], phrase: string[]): number {
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((word, offset) => words[i + offset] === word)) return i;
+  }
+  return -1;
+}
+
+export function parseMeal<T>(query: string, index: IngredientIndex<T>): ParsedMeal<T> {
+  const tokens = normaliseTerm(query).split(' ').filter(Boolean);
+  const stems = tokens.map(stemWord);
+  const consumed = tokens.map(() => false);
+
+  const dishes: string[] = [];
+  const matched = new Map<T, string>();
+  const unrecognised = new Set<string>();
+
+  for (const dish of Object.keys(DISH_DICTIONARY).sort((a, b) => b.length - a.length)) {
+    const phrase = stemPhrase(dish).split(' ');
+    const masked = stems.map((stem, i) => (consumed[i] ? '' : stem));
+    const start = findPhrase(masked, phrase);
+    if (start === -1) continue;
+
+    phrase.forEach((_, offset) => (consumed[start + offset] = true));
+    dishes.push(dish);
+
+    for (const component of DISH_DICTIONARY[dish]) {
+      const match = matchIngredient(index, component);
+      if (match && match.method !== 'partial') {
+        if (!matched.has(match.ingredient)) matched.set(match.ingredient, dish);
+      } else {
+        unrecognised.add(component.toLowerCase());
+      }
+    }
+  }
+
+  let i = 0;
+  while (i < tokens.length) {
+    if (consumed[i] || STOPWORDS.has(tokens[i]) || /^\d+$/.test(tokens[i])) {
+      i++;
+      continue;
+    }
+
+    let length = 0;
+    for (let n = Math.min(MAX_PHRASE_WORDS, tokens.length - i); n >= 1; n--) {
+      const words = tokens.slice(i, i + n);
+      if (consumed.slice(i, i + n).some(Boolean) || STOPWORDS.has(words[n - 1])) continue;
+
+      const match = matchIngredient(index, words.join(' '));
+      if (match && (n === 1 || match.method !== 'fuzzy')) {
+        if (!matched.has(match.ingredient)) matched.set(match.ingredient, words.join(' '));
+        length = n;
+        break;
+      }
+    }
+
+    if (length === 0) {
+      unrecognised.add(tokens[i]);
+      length = 1;
+    }
+    i += length;
+  }
+
+  return { dishes, ingredients: [...matched.keys()], matchedText: matched, unrecognised: [...unrecognised] };
+}
@@ -0,0 +1,588 @@
+import { supabase } from './supabase';
+import type { Database, Json } from './database.types';
+import { assessFoodName, assessIngredient, loadSafetyProfile, worstClassification, type SafetyClassification, type SafetyProfile } from './foodSafety';
+import { loadIngredientIndex, matchIngredient, type IngredientIndex } from './ingredientMatcher';
+import { DEFAULT_PORTION_GRAMS, todayDate } from './intakeTracking';
+import {
+  NUTRIENT_LABELS,
+  NUTRIENT_UNITS,
+  loadNutritionalTargets,
+  type NutrientKey,
+  type NutrientTarget,
+  type NutritionalTargets,
+} from './nutritionalTargets';
+
+type Ingredient = Database['public']['Tables']['ingredients']['Row'];
+type Contraindication = Database['public']['Tables']['ingredient_contraindications']['Row'];
+type Recipe = Database['public']['Tables']['recipes']['Row'];
+type UserRecipe = Database['public']['Tables']['user_recipes']['Row'];
+
+export type WeeklyMealPlan = Database['public']['Tables']['weekly_meal_plans']['Row'];
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snacks';
+
+export type NutrientAmounts = Partial<Record<NutrientKey, number>>;
+
+export type PlannedMeal = {
+  recipe_id: string;
+  recipe_name: string;
+  servings: number;
+  nutrients: NutrientAmounts;
+  locked: boolean;
+};
+
+export type DayMeals = Record<MealSlot, PlannedMeal | null>;
+
+export type MealsByDay = Record<string, DayMeals>;
+
+export type NutrientStatus = 'under' | 'within' | 'over';
+
+export interface CandidateRecipe {
+  id: string;
+  name: string;
+  mealTypes: MealSlot[];
+  perServing: NutrientAmounts;
+  weight: number;
+}
+
+export interface PlanResult {
+  mealsByDay: MealsByDay;
+  warnings: string[];
+}
+
+export interface GeneratedMealPlan {
+  plan: WeeklyMealPlan;
+  warnings: string[];
+  excluded: number;
+}
+
+type RecipeIngredient = {
+  ingredient: string;
+  quantity: number;
+  unit: string;
+};
+
+interface RecipeContext {
+  index: IngredientIndex<Ingredient>;
+  profile: SafetyProfile;
+  contraindications: Contraindication[];
+}
+
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner', 'snacks'];
+
+export const MEAL_SLOT_LABELS: Record<MealSlot, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snacks: 'Snacks',
+};
+
+// Share of the day's energy each slot should provide. Pets are fed twice a day.
+const HUMAN_SLOT_SHARES: Partial<Record<MealSlot, number>> = { breakfast: 0.25, lunch: 0.3, dinner: 0.35, snacks: 0.1 };
+const PET_SLOT_SHARES: Partial<Record<MealSlot, number>> = { breakfast: 0.5, dinner: 0.5 };
+
+const MAIN_MEALS: MealSlot[] = ['lunch', 'dinner'];
+
+export const PLAN_DAYS = 7;
+export const NUTRIENT_TOLERANCE = 0.1;
+const MAX_USES_PER_WEEK = 2;
+const MIN_SERVINGS = 0.5;
+const MAX_SERVINGS = 2;
+
+const GRAMS_PER_UNIT: Record<string, number> = {
+  g: 1,
+  gram: 1,
+  grams: 1,
+  kg: 1000,
+  mg: 0.001,
+  oz: 28.35,
+  lb: 453.6,
+  lbs: 453.6,
+  ml: 1,
+  l: 1000,
+  cup: 240,
+  cups: 240,
+  tbsp: 15,
+  tablespoon: 15,
+  tablespoons: 15,
+  tsp: 5,
+  teaspoon: 5,
+  teaspoons: 5,
+};
+
+const NUTRIENT_KEYS = Object.keys(NUTRIENT_UNITS) as NutrientKey[];
+
+export function emptyDay(): DayMeals {
+  return { breakfast: null, lunch: null, dinner: null, snacks: null };
+}
+
+export function slotShares(species: NutritionalTargets['species']): Partial<Record<MealSlot, number>> {
+  return species === 'human' ? HUMAN_SLOT_SHARES : PET_SLOT_SHARES;
+}
+
+function parseQuantity(value: Json | undefined): number {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return 1;
+
+  const fraction = value.trim().match(/^(?:(\d+)\s+)?(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[1] ?? 0) + Number(fraction[2]) / Number(fraction[3]);
+
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) ? amount : 1;
+}
+
+function readRecipeIngredients(ingredients: Json): RecipeIngredient[] {
+  if (!Array.isArray(ingredients)) return [];
+
+  return ingredients.flatMap((entry): RecipeIngredient[] => {
+    if (typeof entry === 'string') return [{ ingredient: entry, quantity: 1, unit: '' }];
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry) || typeof entry.ingredient !== 'string') return [];
+    return [{
+      ingredient: entry.ingredient,
+      quantity: parseQuantity(entry.quantity),
+      unit: typeof entry.unit === 'string' ? entry.unit.trim().toLowerCase() : '',
+    }];
+  });
+}
+
+function readMealTypes(mealTypes: Json): MealSlot[] {
+  return Array.isArray(mealTypes)
+    ? mealTypes.filter((type): type is MealSlot => typeof type === 'string' && MEAL_SLOTS.includes(type as MealSlot))
+    : [];
+}
+
+function readAmounts(data: Json): NutrientAmounts {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return {};
+
+  const amounts: NutrientAmounts = {};
+  for (const key of NUTRIENT_KEYS) {
+    const value = data[key];
+    if (typeof value === 'number') amounts[key] = value;
+  }
+  return amounts;
+}
+
+export function gramsFor({ quantity, unit }: Pick<RecipeIngredient, 'quantity' | 'unit'>): number {
+  return quantity * (GRAMS_PER_UNIT[unit] ?? DEFAULT_PORTION_GRAMS);
+}
+
+function withEnergy(amounts: NutrientAmounts): NutrientAmounts {
+  if (amounts.calories !== undefined) return amounts;
+  const { protein, carbs, fat } = amounts;
+  if (protein === undefined && carbs === undefined && fat === undefined) return amounts;
+  return { ...amounts, calories: 4 * (protein ?? 0) + 4 * (carbs ?? 0) + 9 * (fat ?? 0) };
+}
+
+function scaleAmounts(amounts: NutrientAmounts, factor: number): NutrientAmounts {
+  const scaled: NutrientAmounts = {};
+  for (const [key, value] of Object.entries(amounts) as [NutrientKey, number][]) scaled[key] = value * factor;
+  return scaled;
+}
+
+export function addAmounts(...amounts: NutrientAmounts[]): NutrientAmounts {
+  const total: NutrientAmounts = {};
+  for (const entry of amounts) {
+    for (const [key, value] of Object.entries(entry) as [NutrientKey, number][]) total[key] = (total[key] ?? 0) + value;
+  }
+  return total;
+}
+
+// Partial matches are guesses ("oil" for Olive Oil), so like the meal parser
+// they count as unrecognised rather than as the ingredient they resemble.
+function confidentMatch(index: IngredientIndex<Ingredient>, text: string): Ingredient | null {
+  const match = matchIngredient(index, text);
+  return match && match.method !== 'partial' ? match.ingredient : null;
+}
+
+// Uses the recipe's own per-serving breakdown when it has one, otherwise
+// estimates it from the ingredient list (nutritional_data is per 100 g).
+export function recipeNutrients(recipe: Pick<Recipe, 'ingredients' | 'nutritional_breakdown' | 'servings'>, index: IngredientIndex<Ingredient>): NutrientAmounts {
+  const breakdown = readAmounts(recipe.nutritional_breakdown);
+  if (Object.keys(breakdown).length > 0) return withEnergy(breakdown);
+
+  const totals = readRecipeIngredients(recipe.ingredients).flatMap((item) => {
+    const ingredient = confidentMatch(index, item.ingredient);
+    return ingredient ? [scaleAmounts(readAmounts(ingredient.nutritional_data), gramsFor(item) / 100)] : [];
+  });
+
+  return withEnergy(scaleAmounts(addAmounts(...totals), 1 / Math.max(recipe.servings ?? 1, 1)));
+}
+
+function recipeSafety(recipe: Pick<Recipe, 'ingredients'>, { index, profile, contraindications }: RecipeContext): SafetyClassification {
+  const classifications = readRecipeIngredients(recipe.ingredients).flatMap(({ ingredient }) => {
+    const match = confidentMatch(index, ingredient);
+    const assessments = [
+      match ? assessIngredient(match, contraindications, profile, ingredient) : null,
+      assessFoodName(ingredient, profile),
+    ];
+    return assessments.flatMap((assessment) => (assessment ? [assessment.classification] : []));
+  });
+
+  return worstClassification(classifications);
+}
+
+function preferenceWeight(interaction: Pick<UserRecipe, 'is_favorite' | 'rating'> | undefined): number {
+  if (!interaction) return 0;
+  return (interaction.is_favorite ? 3 : 0) + (interaction.rating ? interaction.rating - 3 : 0);
+}
+
+export function screenRecipes(
+  recipes: Recipe[],
+  interactions: Pick<UserRecipe, 'recipe_id' | 'is_favorite' | 'rating'>[],
+  context: RecipeContext
+): { candidates: CandidateRecipe[]; excluded: number } {
+  const byRecipe = new Map(interactions.map((interaction) => [interaction.recipe_id, interaction]));
+  const candidates: CandidateRecipe[] = [];
+  let excluded = 0;
+
+  for (const recipe of recipes) {
+    // Plans are followed without a second look, so only recipes with no
+    // conflict at all (not even a caution or limit) are offered.
+    if (recipeSafety(recipe, context) !== 'safe') {
+      excluded++;
+      continue;
+    }
+
+    candidates.push({
+      id: recipe.id,
+      name: recipe.name,
+      mealTypes: readMealTypes(recipe.meal_types),
+      perServing: recipeNutrients(recipe, context.index),
+      weight: preferenceWeight(byRecipe.get(recipe.id)),
+    });
+  }
+
+  return { candidates, excluded };
+}
+
+export function dayTotals(day: DayMeals): NutrientAmounts {
+  return addAmounts(...MEAL_SLOTS.flatMap((slot) => (day[slot] ? [day[slot]!.nutrients] : [])));
+}
+
+export function nutrientStatus(amount: number, target: Pick<NutrientTarget, 'min' | 'max'>, share = 1): NutrientStatus {
+  if (target.min !== null && amount < target.min * share * (1 - NUTRIENT_TOLERANCE)) return 'under';
+  if (target.max !== null && amount > target.max * share * (1 + NUTRIENT_TOLERANCE)) return 'over';
+  return 'within';
+}
+
+// Relative distance outside the target range, scaled to the share of the day
+// planned so far. Nutrients no recipe reports on are left out.
+function deviation(totals: NutrientAmounts, targets: NutrientTarget[], share: number): number {
+  return targets.reduce((sum, target) => {
+    const amount = totals[target.nutrient];
+    if (amount === undefined) return sum;
+
+    const weight = target.nutrient === 'calories' ? 2 : 1;
+    if (target.min !== null && amount < target.min * share) return sum + (weight * (target.min * share - amount)) / (target.min * share);
+    if (target.max !== null && amount > target.max * share) return sum + (weight * (amount - target.max * share)) / (target.max * share);
+    return sum;
+  }, 0);
+}
+
+function servingsFor(recipe: CandidateRecipe, slotEnergy: number): number {
+  const energy = recipe.perServing.calories;
+  if (!energy || !slotEnergy) return 1;
+  const servings = Math.round((slotEnergy / energy) * 4) / 4;
+  return Math.min(Math.max(servings, MIN_SERVINGS), MAX_SERVINGS);
+}
+
+function suitsSlot(recipe: CandidateRecipe, slot: MealSlot): boolean {
+  return recipe.mealTypes.length === 0 ? MAIN_MEALS.includes(slot) : recipe.mealTypes.includes(slot);
+}
+
+export function plannedMeal(recipe: CandidateRecipe, servings: number, locked = false): PlannedMeal {
+  const nutrients = scaleAmounts(recipe.perServing, servings);
+  for (const key of Object.keys(nutrients) as NutrientKey[]) nutrients[key] = Math.round(nutrients[key]! * 10) / 10;
+  return { recipe_id: recipe.id, recipe_name: recipe.name, servings, nutrients, locked };
+}
+
+export function formatPlanDay(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+}
+
+export function describeDayStatus(date: string, totals: NutrientAmounts, targets: NutrientTarget[]): string[] {
+  return targets.flatMap((target) => {
+    const amount = totals[target.nutrient];
+    if (amount === undefined) return [];
+
+    const status = nutrientStatus(amount, target);
+    if (status === 'within') return [];
+
+    const label = NUTRIENT_LABELS[target.nutrient];
+    const limit = status === 'under' ? `${target.min} ${target.unit} minimum` : `${target.max} ${target.unit} maximum`;
+    return [`${formatPlanDay(date)}: ${label} ${Math.round(amount)} ${target.unit} is ${status === 'under' ? 'below' : 'above'} the ${limit}.`];
+  });
+}
+
+export function planDates(startDate: string, days = PLAN_DAYS): string[] {
+  const start = new Date(`${startDate}T00:00:00`);
+  return Array.from({ length: days }, (_, offset) => {
+    const date = new Date(start);
+    date.setDate(start.getDate() + offset);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  });
+}
+
+function recipesIn(day: DayMeals, except?: MealSlot): Set<string> {
+  return new Set(MEAL_SLOTS.flatMap((slot) => (slot !== except && day[slot] ? [day[slot]!.recipe_id] : [])));
+}
+
+export function recipeUses(mealsByDay: MealsByDay): Map<string, number> {
+  const uses = new Map<string, number>();
+  for (const day of Object.values(mealsByDay)) {
+    for (const slot of MEAL_SLOTS) {
+      const meal = day[slot];
+      if (meal) uses.set(meal.recipe_id, (uses.get(meal.recipe_id) ?? 0) + 1);
+    }
+  }
+  return uses;
+}
+
+// Recipes that suit the slot and aren't already on the plate elsewhere that day.
+export function slotOptions(candidates: CandidateRecipe[], day: DayMeals, slot: MealSlot): CandidateRecipe[] {
+  const suitable = candidates.filter((recipe) => suitsSlot(recipe, slot));
+  const pool = suitable.length > 0 ? suitable : candidates.filter((recipe) => recipe.mealTypes.length === 0);
+  const taken = recipesIn(day, slot);
+  return pool.filter((recipe) => !taken.has(recipe.id));
+}
+
+// Scores each option by how well the day's totals fit the targets once it is
+// added, against the share of the day covered by the meals planned so far.
+export function rankMeals(
+  options: CandidateRecipe[],
+  day: DayMeals,
+  slot: MealSlot,
+  targets: NutritionalTargets,
+  uses: Map<string, number> = new Map(),
+  random: () => number = () => 0
+): PlannedMeal[] {
+  const shares = slotShares(targets.species);
+  const energyTarget = targets.nutrients.find((target) => target.nutrient === 'calories')?.target ?? 0;
+  const slotShare = shares[slot] ?? 0;
+  const share = MEAL_SLOTS.reduce((sum, other) => sum + (other !== slot && day[other] ? shares[other] ?? 0 : 0), slotShare) || 1;
+  const running = dayTotals({ ...day, [slot]: null });
+
+  return options
+    .map((recipe) => {
+      const meal = plannedMeal(recipe, servingsFor(recipe, energyTarget * slotShare), day[slot]?.locked ?? false);
+      const score =
+        recipe.weight -
+        4 * deviation(addAmounts(running, meal.nutrients), targets.nutrients, share) -
+        (uses.get(recipe.id) ?? 0) +
+        random() * 0.5;
+      return { meal, score };
+    })
+    .sort((a, b) => b.score - a.score)
+    .map(({ meal }) => meal);
+}
+
+export function planWeek(
+  candidates: CandidateRecipe[],
+  targets: NutritionalTargets,
+  startDate: string,
+  random: () => number = Math.random,
+  existing: MealsByDay = {}
+): PlanResult {
+  const shares = slotShares(targets.species);
+  const mealsByDay: MealsByDay = {};
+  const warnings: string[] = [];
+  const emptySlots = new Set<MealSlot>();
+  let repeated = false;
+
+  const dates = planDates(startDate);
+  for (const date of dates) {
+    const day = emptyDay();
+    for (const slot of MEAL_SLOTS) {
+      if (existing[date]?.[slot]?.locked) day[slot] = existing[date][slot];
+    }
+    mealsByDay[date] = day;
+  }
+
+  const uses = recipeUses(mealsByDay);
+
+  for (const date of dates) {
+    const day = mealsByDay[date];
+
+    for (const slot of MEAL_SLOTS) {
+      if (!shares[slot] || day[slot]) continue;
+
+      const pool = slotOptions(candidates, day, slot);
+      const fresh = pool.filter((recipe) => (uses.get(recipe.id) ?? 0) < MAX_USES_PER_WEEK);
+      const options = fresh.length > 0 ? fresh : pool;
+
+      if (options.length === 0) {
+        emptySlots.add(slot);
+        continue;
+      }
+      if (fresh.length === 0) repeated = true;
+
+      const best = rankMeals(options, day, slot, targets, uses, random)[0];
+      day[slot] = best;
+      uses.set(best.recipe_id, (uses.get(best.recipe_id) ?? 0) + 1);
+    }
+
+    warnings.push(...describeDayStatus(date, dayTotals(day), targets.nutrients));
+  }
+
+  if (emptySlots.size > 0) {
+    warnings.unshift(`No suitable recipes for ${[...emptySlots].map((slot) => MEAL_SLOT_LABELS[slot].toLowerCase()).join(', ')}.`);
+  }
+  if (repeated) {
+    warnings.unshift(`Not enough suitable recipes to avoid repeats - some appear more than ${MAX_USES_PER_WEEK} times this week.`);
+  }
+
+  return { mealsByDay, warnings };
+}
+
+export function readMealsByDay(mealsByDay: Json): MealsByDay {
+  if (!mealsByDay || typeof mealsByDay !== 'object' || Array.isArray(mealsByDay)) return {};
+
+  const days: MealsByDay = {};
+  for (const [date, meals] of Object.entries(mealsByDay)) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !meals || typeof meals !== 'object' || Array.isArray(meals)) continue;
+
+    const day = emptyDay();
+    for (const slot of MEAL_SLOTS) {
+      const meal = meals[slot];
+      if (!meal || typeof meal !== 'object' || Array.isArray(meal)) continue;
+      if (typeof meal.recipe_id !== 'string' || typeof meal.recipe_name !== 'string') continue;
+      day[slot] = {
+        recipe_id: meal.recipe_id,
+        recipe_name: meal.recipe_name,
+        servings: typeof meal.servings === 'number' ? meal.servings : 1,
+        nutrients: readAmounts(meal.nutrients ?? null),
+        locked: meal.locked === true,
+      };
+    }
+    days[date] = day;
+  }
+
+  return days;
+}
+
+export async function loadRecipeCandidates(species: NutritionalTargets['species']): Promise<{ candidates: CandidateRecipe[]; excluded: number }> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { candidates: [], excluded: 0 };
+
+  const [{ data: recipes, error }, { data: interactions }, index, profile] = await Promise.all([
+    supabase.from('recipes').select('*').eq('species_type', species),
+    supabase.from('user_recipes').select('recipe_id, is_favorite, rating').eq('profile_id', user.id),
+    loadIngredientIndex(),
+    loadSafetyProfile(),
+  ]);
+
+  if (error) throw error;
+
+  const safetyProfile = profile ?? { species, conditions: [], preferences: [] };
+  const { data: contraindications, error: contraindicationsError } = await supabase
+    .from('ingredient_contraindications')
+    .select('*')
+    .eq('species_type', safetyProfile.species);
+
+  if (contraindicationsError) throw contraindicationsError;
+
+  return screenRecipes(recipes || [], interactions || [], {
+    index,
+    profile: safetyProfile,
+    contraindications: contraindications || [],
+  });
+}
+
+async function archiveActivePlans(profileId: string, exceptId?: string): Promise<string[]> {
+  let query = supabase
+    .from('weekly_meal_plans')
+    .update({ status: 'archived' })
+    .eq('profile_id', profileId)
+    .eq('status', 'active');
+
+  if (exceptId) query = query.neq('id', exceptId);
+
+  const { data, error } = await query.select('id');
+  if (error) throw error;
+  return (data || []).map((plan) => plan.id);
+}
+
+// Archiving and activating are separate requests, so a failed activation
+// puts the previously active plan back rather than leaving none active.
+async function restoreActivePlans(planIds: string[]): Promise<void> {
+  if (planIds.length === 0) return;
+
+  const { error } = await supabase.from('weekly_meal_plans').update({ status: 'active' }).in('id', planIds);
+  if (error) console.error('Error restoring active meal plan:', error);
+}
+
+export async function generateWeeklyMealPlan(startDate: string = todayDate()): Promise<GeneratedMealPlan> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not signed in');
+
+  const { targets, missing } = await loadNutritionalTargets();
+  if (!targets) throw new Error(`Add your ${missing.join(', ')} to your profile before generating a meal plan.`);
+
+  const { candidates, excluded } = await loadRecipeCandidates(targets.species);
+  if (candidates.length === 0) {
+    throw new Error(
+      excluded > 0
+        ? 'Every available recipe conflicts with your health conditions or food preferences.'
+        : 'There are no recipes for your species yet.'
+    );
+  }
+
+  const { mealsByDay, warnings } = planWeek(candidates, targets, startDate);
+  const dates = Object.keys(mealsByDay);
+
+  const archived = await archiveActivePlans(user.id);
+
+  const { data, error } = await supabase
+    .from('weekly_meal_plans')
+    .insert({
+      profile_id: user.id,
+      plan_name: `Week of ${new Date(`${startDate}T00:00:00`).toLocaleDateString()}`,
+      start_date: dates[0],
+      end_date: dates[dates.length - 1],
+      meals_by_day: mealsByDay,
+      nutritional_targets: targets,
+      status: 'active',
+    })
+    .select()
+    .single();
+
+  if (error) {
+    await restoreActivePlans(archived);
+    throw error;
+  }
+  return { plan: data, warnings, excluded };
+}
+
+export async function loadMealPlan(planId: string): Promise<WeeklyMealPlan | null> {
+  const { data, error } = await supabase.from('weekly_meal_plans').select('*').eq('id', planId).maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function saveMealsByDay(planId: string, mealsByDay: MealsByDay): Promise<void> {
+  const { error } = await supabase.from('weekly_meal_plans').update({ meals_by_day: mealsByDay }).eq('id', planId);
+  if (error) throw error;
+}
+
+export async function regenerateUnlockedMeals(
+  plan: WeeklyMealPlan,
+  candidates: CandidateRecipe[],
+  targets: NutritionalTargets
+): Promise<PlanResult> {
+  const result = planWeek(candidates, targets, plan.start_date, Math.random, readMealsByDay(plan.meals_by_day));
+  await saveMealsByDay(plan.id, result.mealsByDay);
+  return result;
+}
+
+// Only one plan per profile can be active; activating a plan archives the
+// previously active one.
+export async function setMealPlanStatus(plan: Pick<WeeklyMealPlan, 'id' | 'profile_id'>, status: WeeklyMealPlan['status']): Promise<void> {
+  const archived = status === 'active' ? await archiveActivePlans(plan.profile_id, plan.id) : [];
+
+  const { error } = await supabase.from('weekly_meal_plans').update({ status }).eq('id', plan.id);
+  if (error) {
+    await restoreActivePlans(archived);
+    throw error;
+  }
+}
@@ -0,0 +1,429 @@
+import { supabase } from './supabase';
+import type { Database, Json } from './database.types';
+import { getAnalyte } from './analyteCatalogue';
+import { latestValues } from './conditionInference';
+import { loadIngredientIndex } from './ingredientMatcher';
+import { contextFromProfile, evaluateAnalyte, type FlaggedMarker, type Species } from './referenceRanges';
+import { speciesFor, type SafetyProfile } from './foodSafety';
+import { findPreferenceConflicts, loadFoodPreferences } from './foodPreferences';
+
+type Ingredient = Database['public']['Tables']['ingredients']['Row'];
+type Contraindication = Database['public']['Tables']['ingredient_contraindications']['Row'];
+type RecommendationRow = Database['public']['Tables']['nutrition_recommendations']['Row'];
+
+export type RecommendationType = RecommendationRow['recommendation_type'];
+
+export type NutritionRecommendation = Pick<
+  RecommendationRow,
+  'recommendation_type' | 'food_item' | 'category' | 'rationale' | 'priority_level'
+>;
+
+export interface RecommendationInput {
+  species: string;
+  markerSpecies: Species | null;
+  profile: SafetyProfile;
+  ingredients: Pick<Ingredient, 'id' | 'name' | 'category' | 'species_safe' | 'toxicity_warnings'>[];
+  contraindications: Pick<Contraindication, 'ingredient_id' | 'condition_name' | 'contraindication_type' | 'rationale' | 'species_type'>[];
+  flaggedMarkers: FlaggedMarker[];
+}
+
+interface MarkerFood {
+  type: RecommendationType;
+  food: string;
+  category: string;
+  reason: string;
+}
+
+interface MarkerGuidance {
+  analytes: string[];
+  direction: 'low' | 'high';
+  species: Species[];
+  foods: MarkerFood[];
+}
+
+export const PRIORITY_HIGH = 1;
+export const PRIORITY_MEDIUM = 2;
+export const PRIORITY_LOW = 3;
+
+const TYPE_RANK: Record<RecommendationType, number> = { eat: 0, caution: 1, avoid: 2 };
+
+const MARKER_GUIDANCE: MarkerGuidance[] = [
+  {
+    analytes: ['ferritin', 'iron', 'haemoglobin'],
+    direction: 'low',
+    species: ['human'],
+    foods: [
+      { type: 'eat', food: 'Spinach', category: 'vegetable', reason: 'Spinach is a source of non-haem iron - pair with vitamin C to improve absorption.' },
+      { type: 'eat', food: 'Lentils', category: 'legume', reason: 'Lentils are rich in iron and folate.' },
+      { type: 'eat', food: 'Beef', category: 'protein', reason: 'Beef provides well-absorbed haem iron.' },
+      { type: 'caution', food: 'Tea', category: 'beverage', reason: 'Tannins reduce iron absorption - drink between meals rather than with them.' },
+    ],
+  },
+  {
+    analytes: ['vitamin_d'],
+    direction: 'low',
+    species: ['human'],
+    foods: [
+      { type: 'eat', food: 'Salmon', category: 'protein', reason: 'Salmon is one of the few good dietary sources of vitamin D.' },
+      { type: 'eat', food: 'Eggs', category: 'protein', reason: 'Egg yolks contain vitamin D.' },
+    ],
+  },
+  {
+    analytes: ['vitamin_b12'],
+    direction: 'low',
+    species: ['human'],
+    foods: [
+      { type: 'eat', food: 'Eggs', category: 'protein', reason: 'Eggs are a source of vitamin B12.' },
+      { type: 'eat', food: 'Greek Yogurt', category: 'dairy', reason: 'Greek yogurt is a source of vitamin B12.' },
+      { type: 'eat', food: 'Salmon', category: 'protein', reason: 'Salmon is high in vitamin B12.' },
+    ],
+  },
+  {
+    analytes: ['folate'],
+    direction: 'low',
+    species: ['human'],
+    foods: [
+      { type: 'eat', food: 'Spinach', category: 'vegetable', reason: 'Spinach is high in folate.' },
+      { type: 'eat', food: 'Chickpeas', category: 'legume', reason: 'Chickpeas are high in folate.' },
+      { type: 'eat', food: 'Broccoli', category: 'vegetable', reason: 'Broccoli is a good source of folate.' },
+    ],
+  },
+  {
+    analytes: ['ldl', 'total_cholesterol', 'non_hdl'],
+    direction: 'high',
+    species: ['human'],
+    foods: [
+      { type: 'eat', food: 'Oats', category: 'grain', reason: 'Soluble fibre (beta-glucan) helps lower LDL cholesterol.' },
+      { type: 'eat', food: 'Walnuts', category: 'nuts', reason: 'Unsaturated fats support healthier cholesterol levels.' },
+      { type: 'eat', food: 'Olive Oil', category: 'fat', reason: 'Olive oil is a better replacement for saturated fats.' },
+      { type: 'caution', food: 'Butter', category: 'dairy', reason: 'Butter is high in saturated fat, which raises LDL cholesterol.' },
+      { type: 'avoid', food: 'Processed Meat', category: 'protein', reason: 'Processed meat is high in saturated fat and salt.' },
+    ],
+  },
+  {
+    analytes: ['triglycerides', 'tg_hdl_ratio'],
+    direction: 'high',
+    species: ['human'],
+    foods: [
+      { type: 'eat', food: 'Salmon', category: 'protein', reason: 'Omega-3 fats help lower triglycerides.' },
+      { type: 'avoid', food: 'Sugary Drinks', category: 'beverage', reason: 'Added sugars raise triglycerides.' },
+      { type: 'caution', food: 'Alcohol', category: 'beverage', reason: 'Even moderate amounts can raise triglycerides.' },
+    ],
+  },
+  {
+    analytes: ['glucose', 'hba1c', 'insulin', 'homa_ir'],
+    direction: 'high',
+    species: ['human'],
+    foods: [
+      { type: 'eat', food: 'Lentils', category: 'legume', reason: 'Fibre and protein slow the rise in blood sugar.' },
+      { type: 'eat', food: 'Quinoa', category: 'grain', reason: 'Quinoa is a lower-glycaemic alternative to white rice.' },
+      { type: 'eat', food: 'Broccoli', category: 'vegetable', reason: 'Non-starchy vegetables help keep blood sugar steady.' },
+      { type: 'avoid', food: 'Sugary Drinks', category: 'beverage', reason: 'Sugary drinks cause rapid blood sugar spikes.' },
+      { type: 'caution', food: 'White Bread', category: 'grain', reason: 'Refined carbohydrates raise blood sugar quickly.' },
+    ],
+  },
+  {
+    analytes: ['uric_acid'],
+    direction: 'high',
+    species: ['human'],
+    foods: [
+      { type: 'eat', food: 'Cherries', category: 'fruit', reason: 'Cherries are associated with lower uric acid levels.' },
+      { type: 'avoid', food: 'Organ Meats', category: 'protein', reason: 'Organ meats are very high in purines, which are broken down into uric acid.' },
+      { type: 'caution', food: 'Shellfish', category: 'protein', reason: 'Shellfish is high in purines.' },
+      { type: 'caution', food: 'Sugary Drinks', category: 'beverage', reason: 'Fructose raises uric acid.' },
+    ],
+  },
+  {
+    analytes: ['crp'],
+    direction: 'high',
+    species: ['human'],
+    foods: [
+      { type: 'eat', food: 'Salmon', category: 'protein', reason: 'Omega-3 fats have anti-inflammatory effects.' },
+      { type: 'eat', food: 'Blueberries', category: 'fruit', reason: 'Blueberries are rich in anti-inflammatory polyphenols.' },
+      { type: 'eat', food: 'Olive Oil', category: 'fat', reason: 'Olive oil is part of an anti-inflammatory Mediterranean diet.' },
+      { type: 'caution', food: 'Processed Meat', category: 'protein', reason: 'Processed meat is associated with higher inflammation.' },
+    ],
+  },
+  {
+    analytes: ['alt', 'ast'],
+    direction: 'high',
+    species: ['human'],
+    foods: [
+      { type: 'avoid', food: 'Alcohol', category: 'beverage', reason: 'Alcohol puts further strain on the liver.' },
+      { type: 'caution', food: 'Sugary Drinks', category: 'beverage', reason: 'Fructose contributes to fat build-up in the liver.' },
+    ],
+  },
+  {
+    analytes: ['potassium'],
+    direction: 'high',
+    species: ['human', 'dog', 'cat'],
+    foods: [
+      { type: 'caution', food: 'Bananas', category: 'fruit', reason: 'Bananas are high in potassium.' },
+      { type: 'caution', food: 'Sweet Potato', category: 'vegetable', reason: 'Sweet potato is high in potassium.' },
+    ],
+  },
+  {
+    analytes: ['potassium'],
+    direction: 'low',
+    species: ['human'],
+    foods: [
+      { type: 'eat', food: 'Bananas', category: 'fruit', reason: 'Bananas are a good source of potassium.' },
+      { type: 'eat', food: 'Spinach', category: 'vegetable', reason: 'Spinach is a good source of potassium.' },
+    ],
+  },
+  {
+    analytes: ['calcium'],
+    direction: 'low',
+    species: ['human'],
+    foods: [
+      { type: 'eat', food: 'Greek Yogurt', category: 'dairy', reason: 'Greek yogurt is a rich source of calcium.' },
+      { type: 'eat', food: 'Broccoli', category: 'vegetable', reason: 'Broccoli is a plant source of calcium.' },
+    ],
+  },
+  {
+    analytes: ['creatinine', 'urea'],
+    direction: 'high',
+    species: ['human'],
+    foods: [
+      { type: 'caution', food: 'Red Meat', category: 'protein', reason: 'Large protein portions add to the kidneys\' workload.' },
+      { type: 'avoid', food: 'Processed Meat', category: 'protein', reason: 'Processed meat is high in salt and phosphate additives.' },
+    ],
+  },
+  {
+    analytes: ['egfr'],
+    direction: 'low',
+    species: ['human'],
+    foods: [
+      { type: 'caution', food: 'Red Meat', category: 'protein', reason: 'Large protein portions add to the kidneys\' workload.' },
+      { type: 'avoid', food: 'Processed Meat', category: 'protein', reason: 'Processed meat is high in salt and phosphate additives.' },
+    ],
+  },
+  {
+    analytes: ['creatinine', 'urea'],
+    direction: 'high',
+    species: ['dog', 'cat'],
+    foods: [
+      { type: 'caution', food: 'High-Protein Treats', category: 'treats', reason: 'Extra protein and phosphorus add to the kidneys\' workload.' },
+      { type: 'avoid', food: 'Jerky Treats', category: 'treats', reason: 'Jerky treats are very high in protein, phosphorus and salt.' },
+    ],
+  },
+];
+
+function markerDirection(marker: FlaggedMarker): 'low' | 'high' {
+  return marker.flag === 'low' || marker.flag === 'critical_low' ? 'low' : 'high';
+}
+
+export function isCritical(marker: FlaggedMarker): boolean {
+  return marker.flag === 'critical_low' || marker.flag === 'critical_high';
+}
+
+export function matchingMarkers(
+  flaggedMarkers: FlaggedMarker[],
+  analytes: string[],
+  direction: 'low' | 'high'
+): FlaggedMarker[] {
+  return flaggedMarkers.filter(
+    (marker) => marker.analyte_key && analytes.includes(marker.analyte_key) && markerDirection(marker) === direction
+  );
+}
+
+export function describeMarkers(markers: FlaggedMarker[], direction: 'low' | 'high'): string {
+  const names = markers.map((marker) => `${marker.name} (${marker.value} ${marker.unit})`);
+  const list = names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+  const severity = markers.some(isCritical) ? 'critically ' : '';
+  return `Your ${list} ${names.length > 1 ? 'are' : 'is'} ${severity}${direction}.`;
+}
+
+function readWarningSpecies(warnings: Json): string[] {
+  if (!Array.isArray(warnings)) return [];
+  return warnings.flatMap((warning) =>
+    warning && typeof warning === 'object' && !Array.isArray(warning) && Array.isArray(warning.species)
+      ? warning.species.filter((species): species is string => typeof species === 'string')
+      : []
+  );
+}
+
+function isUnsafeForSpecies(ingredient: RecommendationInput['ingredients'][number], species: string): boolean {
+  const speciesSafe = ingredient.species_safe;
+  const unsafe =
+    !!speciesSafe && typeof speciesSafe === 'object' && !Array.isArray(speciesSafe) && speciesSafe[species] === false;
+  return unsafe || readWarningSpecies(ingredient.toxicity_warnings).includes(species);
+}
+
+function mergeRecommendations(recommendations: NutritionRecommendation[]): NutritionRecommendation[] {
+  const merged = new Map<string, NutritionRecommendation>();
+
+  for (const recommendation of recommendations) {
+    const key = recommendation.food_item.toLowerCase();
+    const existing = merged.get(key);
+
+    if (!existing) {
+      merged.set(key, { ...recommendation });
+      continue;
+    }
+
+    const [primary, secondary] =
+      TYPE_RANK[recommendation.recommendation_type] > TYPE_RANK[existing.recommendation_type]
+        ? [recommendation, existing]
+        : [existing, recommendation];
+
+    const rationale = [primary.rationale, secondary.rationale]
+      .filter((text, i, all): text is string => !!text && all.indexOf(text) === i)
+      .join(' ');
+
+    merged.set(key, {
+      ...primary,
+      rationale,
+      priority_level: Math.min(primary.priority_level, secondary.priority_level),
+    });
+  }
+
+  return [...merged.values()];
+}
+
+export function buildRecommendations(input: RecommendationInput): NutritionRecommendation[] {
+  const { species, markerSpecies, profile, ingredients, contraindications, flaggedMarkers } = input;
+  const recommendations: NutritionRecommendation[] = [];
+  const ingredientById = new Map(ingredients.map((ingredient) => [ingredient.id, ingredient]));
+
+  if (species !== 'human') {
+    for (const ingredient of ingredients) {
+      if (!isUnsafeForSpecies(ingredient, species)) continue;
+      recommendations.push({
+        recommendation_type: 'avoid',
+        food_item: ingredient.name,
+        category: ingredient.category ?? 'other',
+        rationale: `${ingredient.name} is toxic or unsafe for ${species}s.`,
+        priority_level: PRIORITY_HIGH,
+      });
+    }
+  }
+
+  for (const c of contraindications) {
+    if (c.species_type !== species) continue;
+    const ingredient = ingredientById.get(c.ingredient_id);
+    const condition = profile.conditions.find(
+      (candidate) => candidate.condition_name.toLowerCase() === c.condition_name.toLowerCase()
+    );
+    if (!ingredient || !condition) continue;
+
+    const atRisk = condition.condition_type === 'risk';
+    const avoid = c.contraindication_type === 'avoid' && !atRisk;
+    const reason = atRisk ? `you are at risk of ${condition.condition_name}` : `you have ${condition.condition_name}`;
+    const action = avoid ? 'Avoid' : c.contraindication_type === 'limit' ? 'Limit' : 'Use caution with';
+
+    recommendations.push({
+      recommendation_type: avoid ? 'avoid' : 'caution',
+      food_item: ingredient.name,
+      category: ingredient.category ?? 'other',
+      rationale: `${action} ${ingredient.name} because ${reason}. ${c.rationale ?? ''}`.trim(),
+      priority_level: avoid ? PRIORITY_HIGH : PRIORITY_MEDIUM,
+    });
+  }
+
+  for (const guidance of MARKER_GUIDANCE) {
+    if (!markerSpecies || !guidance.species.includes(markerSpecies)) continue;
+
+    const markers = matchingMarkers(flaggedMarkers, guidance.analytes, guidance.direction);
+    if (markers.length === 0) continue;
+
+    const critical = markers.some(isCritical);
+    for (const food of guidance.foods) {
+      recommendations.push({
+        recommendation_type: food.type,
+        food_item: food.food,
+        category: food.category,
+        rationale: `${describeMarkers(markers, guidance.direction)} ${food.reason}`,
+        priority_level: critical ? PRIORITY_HIGH : food.type === 'eat' ? PRIORITY_LOW : PRIORITY_MEDIUM,
+      });
+    }
+  }
+
+  return mergeRecommendations(recommendations)
+    .filter(
+      (recommendation) =>
+        recommendation.recommendation_type !== 'eat' ||
+        findPreferenceConflicts(profile.preferences, [recommendation.food_item]).every(
+          (conflict) => conflict.classification === 'safe'
+        )
+    )
+    .sort(
+      (a, b) =>
+        a.priority_level - b.priority_level ||
+        TYPE_RANK[b.recommendation_type] - TYPE_RANK[a.recommendation_type] ||
+        a.food_item.localeCompare(b.food_item)
+    );
+}
+
+export function latestFlaggedMarkers(
+  records: Database['public']['Tables']['biomarker_records']['Row'][],
+  context: ReturnType<typeof contextFromProfile>
+): FlaggedMarker[] {
+  return Object.entries(latestValues(records)).flatMap(([key, latest]) => {
+    const marker = evaluateAnalyte(
+      {
+        analyte_key: key,
+        name: getAnalyte(key)?.name ?? key,
+        value: latest.value,
+        unit: latest.unit,
+        reference_low: null,
+        reference_high: null,
+      },
+      context
+    );
+    return marker ? [marker] : [];
+  });
+}
+
+export async function regenerateNutritionRecommendations(): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not signed in');
+
+  const [
+    { data: profile, error: profileError },
+    { data: conditions, error: conditionsError },
+    { data: records, error: recordsError },
+    { ingredients },
+    preferences,
+  ] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('species_type, pet_species, biological_sex, date_of_birth')
+      .eq('id', user.id)
+      .maybeSingle(),
+    supabase
+      .from('health_conditions')
+      .select('condition_name, condition_type')
+      .eq('profile_id', user.id)
+      .eq('active', true),
+    supabase.from('biomarker_records').select('*').eq('profile_id', user.id),
+    loadIngredientIndex(),
+    loadFoodPreferences(),
+  ]);
+
+  // A partial read would replace good recommendations with a weaker set.
+  if (profileError) throw profileError;
+  if (conditionsError) throw conditionsError;
+  if (recordsError) throw recordsError;
+
+  const species = speciesFor(profile);
+  const { data: contraindications, error: contraindicationsError } = await supabase
+    .from('ingredient_contraindications')
+    .select('ingredient_id, condition_name, contraindication_type, rationale, species_type')
+    .eq('species_type', species);
+
+  if (contraindicationsError) throw contraindicationsError;
+
+  const context = contextFromProfile(profile);
+  const recommendations = buildRecommendations({
+    species,
+    markerSpecies: context.species,
+    profile: { species, conditions: conditions || [], preferences },
+    ingredients,
+    contraindications: contraindications || [],
+    flaggedMarkers: latestFlaggedMarkers(records || [], context),
+  });
+
+  const { error } = await supabase.rpc('replace_nutrition_recommendations', { recommendations });
+  if (error) throw error;
+}
@@ -0,0 +1,539 @@
+import { supabase } from './supabase';
+import type { Database, Json } from './database.types';
+import { containsPhrase, normaliseTerm } from './ingredientMatcher';
+import { contextFromProfile, type RangeContext, type Species } from './referenceRanges';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+type HealthCondition = Database['public']['Tables']['health_conditions']['Row'];
+
+export type ActivityLevel = NonNullable<Profile['activity_level']>;
+
+export type TargetProfile = Pick<
+  Profile,
+  'species_type' | 'pet_species' | 'biological_sex' | 'date_of_birth' | 'weight_kg' | 'height_cm' | 'activity_level'
+>;
+
+export type NutrientKey =
+  | 'calories'
+  | 'protein'
+  | 'carbs'
+  | 'fat'
+  | 'saturated_fat'
+  | 'fiber'
+  | 'sodium'
+  | 'potassium'
+  | 'phosphorus'
+  | 'calcium'
+  | 'iron'
+  | 'vitamin_d';
+
+export type NutrientTarget = {
+  nutrient: NutrientKey;
+  target: number;
+  min: number | null;
+  max: number | null;
+  unit: string;
+};
+
+export type NutritionalTargets = {
+  species: Species;
+  energy_method: 'mifflin_st_jeor' | 'rer';
+  energy_basis: string;
+  nutrients: NutrientTarget[];
+  adjustments: string[];
+  calculated_at: string;
+};
+
+export interface TargetResult {
+  targets: NutritionalTargets | null;
+  missing: string[];
+}
+
+interface TargetRange {
+  target: number;
+  min: number | null;
+  max: number | null;
+}
+
+interface TargetBuilder {
+  adjustments: string[];
+  set(nutrient: NutrientKey, target: number, min?: number | null, max?: number | null): void;
+  cap(nutrient: NutrientKey, max: number, condition: string): void;
+  raise(nutrient: NutrientKey, min: number, condition: string): void;
+  restrict(nutrient: NutrientKey, range: TargetRange, note: string): void;
+  build(): NutrientTarget[];
+}
+
+interface ConditionRule {
+  names: string[];
+  species: Species[];
+  adjust: (targets: TargetBuilder, context: AdjustmentContext) => void;
+}
+
+interface AdjustmentContext {
+  condition: string;
+  energy: number;
+  weightKg: number;
+  species: Species;
+}
+
+export const NUTRIENT_LABELS: Record<NutrientKey, string> = {
+  calories: 'Energy',
+  protein: 'Protein',
+  carbs: 'Carbohydrate',
+  fat: 'Fat',
+  saturated_fat: 'Saturated fat',
+  fiber: 'Fibre',
+  sodium: 'Sodium',
+  potassium: 'Potassium',
+  phosphorus: 'Phosphorus',
+  calcium: 'Calcium',
+  iron: 'Iron',
+  vitamin_d: 'Vitamin D',
+};
+
+export const NUTRIENT_UNITS: Record<NutrientKey, string> = {
+  calories: 'kcal',
+  protein: 'g',
+  carbs: 'g',
+  fat: 'g',
+  saturated_fat: 'g',
+  fiber: 'g',
+  sodium: 'mg',
+  potassium: 'mg',
+  phosphorus: 'mg',
+  calcium: 'mg',
+  iron: 'mg',
+  vitamin_d: 'mcg',
+};
+
+export const ACTIVITY_LABELS: Record<ActivityLevel, string> = {
+  sedentary: 'Sedentary (little or no exercise)',
+  light: 'Lightly active (exercise 1-3 days a week)',
+  moderate: 'Moderately active (exercise 3-5 days a week)',
+  active: 'Very active (exercise 6-7 days a week)',
+  very_active: 'Extremely active (physical job or training twice a day)',
+};
+
+const ACTIVITY_FACTORS: Record<ActivityLevel, number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  very_active: 1.9,
+};
+
+const DEFAULT_ACTIVITY: ActivityLevel = 'light';
+
+const ENERGY_TOLERANCE = 0.1;
+const WEIGHT_LOSS_DEFICIT_KCAL = 500;
+const MIN_WEIGHT_LOSS_KCAL: Record<'male' | 'female', number> = { male: 1500, female: 1200 };
+
+const WEIGHT_LOSS_CONDITIONS = ['obesity', 'obese', 'overweight'];
+
+// AAFCO minimums per 1000 kcal metabolisable energy.
+const PET_MINIMUMS: Record<'dog' | 'cat', Record<'growth' | 'adult', Partial<Record<NutrientKey, number>>>> = {
+  dog: {
+    growth: { protein: 56.3, fat: 21.3, calcium: 3000, phosphorus: 2500, sodium: 800 },
+    adult: { protein: 45, fat: 13.8, calcium: 1250, phosphorus: 1000, sodium: 200 },
+  },
+  cat: {
+    growth: { protein: 75, fat: 22.5, calcium: 2500, phosphorus: 2000, sodium: 500 },
+    adult: { protein: 65, fat: 22.5, calcium: 1500, phosphorus: 1250, sodium: 500 },
+  },
+};
+
+const PET_RENAL_LIMITS: Record<'dog' | 'cat', Partial<Record<NutrientKey, number>>> = {
+  dog: { protein: 50, phosphorus: 600 },
+  cat: { protein: 75, phosphorus: 1000 },
+};
+
+const CONDITION_RULES: ConditionRule[] = [
+  {
+    names: ['hypertension', 'high blood pressure'],
+    species: ['human'],
+    adjust: (targets, { condition }) => {
+      targets.cap('sodium', 1500, condition);
+      targets.raise('potassium', 3500, condition);
+    },
+  },
+  {
+    names: ['heart failure'],
+    species: ['human'],
+    adjust: (targets, { condition }) => targets.cap('sodium', 2000, condition),
+  },
+  {
+    names: ['kidney disease', 'ckd', 'renal failure', 'renal disease'],
+    species: ['human'],
+    adjust: (targets, { condition, weightKg }) => {
+      targets.restrict(
+        'protein',
+        { target: 0.7 * weightKg, min: 0.6 * weightKg, max: 0.8 * weightKg },
+        `Protein restricted to 0.6-0.8 g per kg of body weight for ${condition}.`
+      );
+      targets.cap('phosphorus', 800, condition);
+      targets.cap('potassium', 2000, condition);
+      targets.cap('sodium', 2000, condition);
+    },
+  },
+  {
+    names: ['kidney disease', 'ckd', 'renal failure', 'renal disease'],
+    species: ['dog', 'cat'],
+    adjust: (targets, { condition, energy, species }) => {
+      const limits = PET_RENAL_LIMITS[species as 'dog' | 'cat'];
+      for (const [nutrient, perThousand] of Object.entries(limits) as [NutrientKey, number][]) {
+        targets.cap(nutrient, (perThousand * energy) / 1000, `${condition} - discuss a renal diet with your vet`);
+      }
+    },
+  },
+  {
+    names: ['diabetes', 'prediabetes', 'insulin resistance'],
+    species: ['human'],
+    adjust: (targets, { condition, energy }) => {
+      targets.cap('carbs', (energy * 0.45) / 4, condition);
+      targets.raise('fiber', 30, condition);
+    },
+  },
+  {
+    names: ['high cholesterol', 'hypercholesterolaemia', 'hypercholesterolemia', 'hyperlipidaemia', 'hyperlipidemia', 'dyslipidaemia', 'dyslipidemia'],
+    species: ['human'],
+    adjust: (targets, { condition, energy }) => {
+      targets.cap('saturated_fat', (energy * 0.06) / 9, condition);
+      targets.raise('fiber', 30, condition);
+    },
+  },
+  {
+    names: ['osteoporosis', 'osteopenia'],
+    species: ['human'],
+    adjust: (targets, { condition }) => {
+      targets.raise('calcium', 1200, condition);
+      targets.raise('vitamin_d', 20, condition);
+    },
+  },
+  {
+    names: ['iron deficiency', 'anaemia', 'anemia'],
+    species: ['human'],
+    adjust: (targets, { condition }) => targets.raise('iron', 18, condition),
+  },
+  {
+    names: ['vitamin d deficiency'],
+    species: ['human'],
+    adjust: (targets, { condition }) => targets.raise('vitamin_d', 20, condition),
+  },
+];
+
+function formatAmount(nutrient: NutrientKey, amount: number): string {
+  return `${Math.round(amount)} ${NUTRIENT_UNITS[nutrient]}`;
+}
+
+function createTargetBuilder(): TargetBuilder {
+  const ranges = new Map<NutrientKey, TargetRange>();
+  const adjustments: string[] = [];
+
+  return {
+    adjustments,
+
+    set(nutrient, target, min = null, max = null) {
+      ranges.set(nutrient, { target, min, max });
+    },
+
+    cap(nutrient, max, condition) {
+      const range = ranges.get(nutrient);
+      if (!range || (range.max !== null && range.max <= max)) return;
+
+      ranges.set(nutrient, {
+        target: Math.min(range.target, max),
+        min: range.min === null ? null : Math.min(range.min, max),
+        max,
+      });
+      adjustments.push(`${NUTRIENT_LABELS[nutrient]} capped at ${formatAmount(nutrient, max)} for ${condition}.`);
+    },
+
+    raise(nutrient, min, condition) {
+      const range = ranges.get(nutrient);
+      if (!range || (range.min !== null && range.min >= min)) return;
+
+      ranges.set(nutrient, {
+        target: Math.max(range.target, min),
+        min,
+        max: range.max === null ? null : Math.max(range.max, min),
+      });
+      adjustments.push(`${NUTRIENT_LABELS[nutrient]} raised to at least ${formatAmount(nutrient, min)} for ${condition}.`);
+    },
+
+    restrict(nutrient, range, note) {
+      if (!ranges.has(nutrient)) return;
+      ranges.set(nutrient, range);
+      adjustments.push(note);
+    },
+
+    build() {
+      return [...ranges.entries()].map(([nutrient, range]) => ({
+        nutrient,
+        target: Math.round(range.target),
+        min: range.min === null ? null : Math.round(range.min),
+        max: range.max === null ? null : Math.round(range.max),
+        unit: NUTRIENT_UNITS[nutrient],
+      }));
+    },
+  };
+}
+
+function matchesCondition(conditionName: string, names: string[]): boolean {
+  const normalised = normaliseTerm(conditionName);
+  return names.some((name) => containsPhrase(normalised, normaliseTerm(name)));
+}
+
+function ageInMonths(dateOfBirth: string, today: Date): number {
+  const birth = new Date(dateOfBirth);
+  const months = (today.getFullYear() - birth.getFullYear()) * 12 + today.getMonth() - birth.getMonth();
+  return today.getDate() < birth.getDate() ? months - 1 : months;
+}
+
+function energyRange(targets: TargetBuilder, energy: number) {
+  targets.set('calories', energy, energy * (1 - ENERGY_TOLERANCE), energy * (1 + ENERGY_TOLERANCE));
+}
+
+function applyConditionRules(
+  targets: TargetBuilder,
+  conditions: Pick<HealthCondition, 'condition_name'>[],
+  context: Omit<AdjustmentContext, 'condition'>
+) {
+  for (const rule of CONDITION_RULES) {
+    if (!rule.species.includes(context.species)) continue;
+
+    const condition = conditions.find((c) => matchesCondition(c.condition_name, rule.names));
+    if (condition) rule.adjust(targets, { ...context, condition: condition.condition_name });
+  }
+}
+
+export function missingTargetFields(profile: TargetProfile | null): string[] {
+  if (!profile) return ['profile'];
+
+  const context = contextFromProfile(profile);
+  const missing: string[] = [];
+  if (!profile.weight_kg) missing.push('weight');
+
+  if (profile.species_type === 'pet') {
+    if (!context.species) missing.push('pet species (dog or cat)');
+    return missing;
+  }
+
+  if (!profile.height_cm) missing.push('height');
+  if (!profile.date_of_birth) missing.push('date of birth');
+  return missing;
+}
+
+function humanTargets(
+  profile: TargetProfile,
+  context: RangeContext,
+  conditions: Pick<HealthCondition, 'condition_name'>[]
+): NutritionalTargets {
+  const weightKg = profile.weight_kg ?? 0;
+  const age = context.ageYears ?? 0;
+  const sexOffset = context.sex === 'male' ? 5 : context.sex === 'female' ? -161 : -78;
+  const bmr = 10 * weightKg + 6.25 * (profile.height_cm ?? 0) - 5 * age + sexOffset;
+
+  const activity = profile.activity_level ?? DEFAULT_ACTIVITY;
+  const factor = ACTIVITY_FACTORS[activity];
+  let energy = bmr * factor;
+  const targets = createTargetBuilder();
+
+  if (!profile.activity_level) targets.adjustments.push('Activity level not set - assuming lightly active.');
+  if (!context.sex) targets.adjustments.push('Biological sex not set - using the average of male and female values.');
+
+  const weightLoss = conditions.find((c) => matchesCondition(c.condition_name, WEIGHT_LOSS_CONDITIONS));
+  if (weightLoss) {
+    const floor = context.sex ? MIN_WEIGHT_LOSS_KCAL[context.sex] : MIN_WEIGHT_LOSS_KCAL.female;
+    const reduced = Math.max(energy - WEIGHT_LOSS_DEFICIT_KCAL, floor);
+    if (reduced < energy) {
+      targets.adjustments.push(
+        `Energy reduced by ${Math.round(energy - reduced)} kcal for gradual weight loss (${weightLoss.condition_name}).`
+      );
+      energy = reduced;
+    }
+  }
+
+  const female = context.sex === 'female';
+  const male = context.sex === 'male';
+  const proteinPerKg = age >= 65 ? 1.0 : 0.8;
+  const potassium = male ? 3400 : female ? 2600 : 3000;
+  const calcium = (female && age > 50) || age > 70 ? 1200 : 1000;
+  const iron = female && age >= 19 && age <= 50 ? 18 : 8;
+  const vitaminD = age > 70 ? 20 : 15;
+
+  energyRange(targets, energy);
+  targets.set('protein', Math.max(proteinPerKg * weightKg, (energy * 0.15) / 4), proteinPerKg * weightKg, (energy * 0.35) / 4);
+  targets.set('carbs', (energy * 0.5) / 4, (energy * 0.45) / 4, (energy * 0.65) / 4);
+  targets.set('fat', (energy * 0.3) / 9, (energy * 0.2) / 9, (energy * 0.35) / 9);
+  targets.set('saturated_fat', (energy * 0.1) / 9, null, (energy * 0.1) / 9);
+  targets.set('fiber', (14 * energy) / 1000, (14 * energy) / 1000);
+  targets.set('sodium', 2300, null, 2300);
+  targets.set('potassium', potassium, potassium);
+  targets.set('phosphorus', 700, 700, 4000);
+  targets.set('calcium', calcium, calcium, 2500);
+  targets.set('iron', iron, iron, 45);
+  targets.set('vitamin_d', vitaminD, vitaminD, 100);
+
+  applyConditionRules(targets, conditions, { energy, weightKg, species: 'human' });
+
+  return {
+    species: 'human',
+    energy_method: 'mifflin_st_jeor',
+    energy_basis: `Mifflin-St Jeor BMR of ${Math.round(bmr)} kcal × ${factor} (${ACTIVITY_LABELS[activity].toLowerCase()})`,
+    nutrients: targets.build(),
+    adjustments: targets.adjustments,
+    calculated_at: new Date().toISOString(),
+  };
+}
+
+function petLifeStage(
+  species: 'dog' | 'cat',
+  profile: TargetProfile,
+  today: Date,
+  weightLoss: boolean
+): { factor: number; label: string; growth: boolean } {
+  const months = profile.date_of_birth ? ageInMonths(profile.date_of_birth, today) : null;
+  const active = profile.activity_level === 'active' || profile.activity_level === 'very_active';
+
+  if (species === 'dog') {
+    if (months !== null && months < 4) return { factor: 3.0, label: 'puppy under 4 months', growth: true };
+    if (months !== null && months < 12) return { factor: 2.0, label: 'growing puppy', growth: true };
+    if (weightLoss) return { factor: 1.0, label: 'adult dog on a weight-loss plan', growth: false };
+    if (months !== null && months >= 7 * 12) return { factor: 1.4, label: 'senior dog', growth: false };
+    if (active) return { factor: 2.0, label: 'active or working adult dog', growth: false };
+    return { factor: 1.6, label: 'neutered adult dog', growth: false };
+  }
+
+  if (months !== null && months < 12) return { factor: 2.5, label: 'kitten', growth: true };
+  if (weightLoss) return { factor: 0.8, label: 'adult cat on a weight-loss plan', growth: false };
+  if (months !== null && months >= 11 * 12) return { factor: 1.1, label: 'senior cat', growth: false };
+  if (active) return { factor: 1.4, label: 'active adult cat', growth: false };
+  return { factor: 1.2, label: 'neutered adult cat', growth: false };
+}
+
+function petTargets(
+  species: 'dog' | 'cat',
+  profile: TargetProfile,
+  conditions: Pick<HealthCondition, 'condition_name'>[],
+  today: Date
+): NutritionalTargets {
+  const weightKg = profile.weight_kg ?? 0;
+  const rer = 70 * Math.pow(weightKg, 0.75);
+  const weightLoss = conditions.find((c) => matchesCondition(c.condition_name, WEIGHT_LOSS_CONDITIONS));
+  const stage = petLifeStage(species, profile, today, !!weightLoss);
+  const energy = rer * stage.factor;
+  const targets = createTargetBuilder();
+
+  if (!profile.date_of_birth) targets.adjustments.push('Date of birth not set - assuming an adult.');
+  if (weightLoss && !stage.growth) {
+    targets.adjustments.push(`Energy set for gradual weight loss (${weightLoss.condition_name}).`);
+  }
+
+  energyRange(targets, energy);
+
+  const minimums = PET_MINIMUMS[species][stage.growth ? 'growth' : 'adult'];
+  for (const [nutrient, perThousand] of Object.entries(minimums) as [NutrientKey, number][]) {
+    const amount = (perThousand * energy) / 1000;
+    targets.set(nutrient, amount, amount);
+  }
+
+  applyConditionRules(targets, conditions, { energy, weightKg, species });
+
+  return {
+    species,
+    energy_method: 'rer',
+    energy_basis: `RER of ${Math.round(rer)} kcal (70 × ${weightKg} kg^0.75) × ${stage.factor} for a ${stage.label}`,
+    nutrients: targets.build(),
+    adjustments: targets.adjustments,
+    calculated_at: new Date().toISOString(),
+  };
+}
+
+export function calculateNutritionalTargets(
+  profile: TargetProfile | null,
+  conditions: Pick<HealthCondition, 'condition_name'>[],
+  today: Date = new Date()
+): TargetResult {
+  const missing = missingTargetFields(profile);
+  if (!profile || missing.length > 0) return { targets: null, missing };
+
+  const context = contextFromProfile(profile, today.toISOString().split('T')[0]);
+  if (context.species === 'human') return { targets: humanTargets(profile, context, conditions), missing };
+  if (context.species) return { targets: petTargets(context.species, profile, conditions, today), missing };
+  return { targets: null, missing: ['pet species (dog or cat)'] };
+}
+
+export function readNutritionalTargets(targets: Json | null): NutritionalTargets | null {
+  if (!targets || typeof targets !== 'object' || Array.isArray(targets)) return null;
+
+  const { species, energy_method, energy_basis, nutrients, adjustments, calculated_at } = targets;
+  if (species !== 'human' && species !== 'dog' && species !== 'cat') return null;
+  if (energy_method !== 'mifflin_st_jeor' && energy_method !== 'rer') return null;
+  if (!Array.isArray(nutrients)) return null;
+
+  return {
+    species,
+    energy_method,
+    energy_basis: typeof energy_basis === 'string' ? energy_basis : '',
+    nutrients: nutrients.flatMap((entry): NutrientTarget[] => {
+      if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [];
+      const { nutrient, target, min, max } = entry;
+      if (typeof nutrient !== 'string' || !(nutrient in NUTRIENT_UNITS) || typeof target !== 'number') return [];
+      return [{
+        nutrient: nutrient as NutrientKey,
+        target,
+        min: typeof min === 'number' ? min : null,
+        max: typeof max === 'number' ? max : null,
+        unit: NUTRIENT_UNITS[nutrient as NutrientKey],
+      }];
+    }),
+    adjustments: Array.isArray(adjustments)
+      ? adjustments.filter((note): note is string => typeof note === 'string')
+      : [],
+    calculated_at: typeof calculated_at === 'string' ? calculated_at : '',
+  };
+}
+
+export async function loadNutritionalTargets(): Promise<TargetResult> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { targets: null, missing: ['profile'] };
+
+  const [{ data: profile, error }, { data: conditions, error: conditionsError }] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('species_type, pet_species, biological_sex, date_of_birth, weight_kg, height_cm, activity_level')
+      .eq('id', user.id)
+      .maybeSingle(),
+    supabase.from('health_conditions').select('condition_name').eq('profile_id', user.id).eq('active', true),
+  ]);
+
+  if (error) throw error;
+  if (conditionsError) throw conditionsError;
+  return calculateNutritionalTargets(profile, conditions || []);
+}
+
+export async function refreshMealPlanTargets(): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const { targets } = await loadNutritionalTargets();
+  if (!targets) return;
+
+  const today = new Date().toISOString().split('T')[0];
+  const [weekly, plans] = await Promise.all([
+    supabase
+      .from('weekly_meal_plans')
+      .update({ nutritional_targets: targets })
+      .eq('profile_id', user.id)
+      .eq('status', 'active'),
+    supabase
+      .from('meal_plans')
+      .update({ nutritional_targets: targets })
+      .eq('profile_id', user.id)
+      .gte('end_date', today),
+  ]);
+
+  if (weekly.error) throw weekly.error;
+  if (plans.error) throw plans.error;
+}
@@ -0,0 +1,54 @@
+import { createWorker } from 'tesseract.js';
+import type { AnalyteResult } from './biomarkers';
+import { parseLabLine } from './labReportParser';
+
+export interface OcrLine {
+  text: string;
+  confidence: number;
+}
+
+export interface OcrResult {
+  text: string;
+  lines: OcrLine[];
+}
+
+export interface RecognisedRow {
+  analyte: AnalyteResult;
+  confidence: number;
+  line: string;
+}
+
+// Self-hosted by the build (see vite.config.ts). The worker runs from a blob
+// URL, so every path has to be absolute.
+function tesseractPath(): string {
+  return new URL(`${import.meta.env.BASE_URL}tesseract`, window.location.href).href;
+}
+
+export async function recognisePhoto(image: File, onProgress?: (progress: number) => void): Promise<OcrResult> {
+  const assets = tesseractPath();
+  const worker = await createWorker('eng', undefined, {
+    workerPath: `${assets}/worker.min.js`,
+    corePath: assets,
+    langPath: assets,
+    logger: (message) => {
+      if (message.status === 'recognizing text') onProgress?.(message.progress);
+    },
+  });
+
+  try {
+    const { data } = await worker.recognize(image);
+    return {
+      text: data.text,
+      lines: data.lines.map((line) => ({ text: line.text.trim(), confidence: line.confidence })),
+    };
+  } finally {
+    await worker.terminate();
+  }
+}
+
+export function parseOcrLines(lines: OcrLine[]): RecognisedRow[] {
+  return lines.flatMap((line) => {
+    const analyte = parseLabLine(line.text.replace(/\s+/g, ' ').trim());
+    return analyte ? [{ analyte, confidence: Math.round(line.confidence), line: line.text }] : [];
+  });
+}
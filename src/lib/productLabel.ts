@@ -0,0 +1,274 @@
+import { supabase } from './supabase';
+import type { Database, Json } from './database.types';
+import { normaliseTerm } from './ingredientMatcher';
+
+type ScannedProductRow = Database['public']['Tables']['scanned_products']['Row'];
+
+export type ProductSource = 'grocery' | 'scanned' | 'shared';
+
+export type AllergenStatement = {
+  kind: 'contains' | 'may_contain';
+  allergen: string;
+};
+
+export interface ProductRecord {
+  barcode: string;
+  name: string;
+  brand: string | null;
+  ingredients: string[];
+  allergens: AllergenStatement[];
+  labelText: string | null;
+  source: ProductSource;
+}
+
+interface BarcodeDetectorLike {
+  detect(image: ImageBitmapSource): Promise<{ rawValue: string }[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorLike;
+
+const BARCODE_LENGTHS = [8, 12, 13, 14];
+const BARCODE_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+
+const LIST_PREFIX = /^.*?\bingredients?\s*[:-]\s*/i;
+const LIST_TERMINATORS = /\b(allergy advice|allergen advice|may contain|nutrition(al)? information|storage|best before|suitable for)\b/i;
+
+// Precautionary ("may contain") statements first, so their wording isn't
+// picked up again as a "contains" statement.
+const MAY_CONTAIN_STATEMENT =
+  /\b(?:may (?:also )?contain|not suitable for (?:people|those|customers) with an? |(?:made|produced|packed|manufactured) (?:in|on) [^.:]*?(?:that|which) (?:also )?(?:handles?|uses?|processes?))\s*:?\s*([^.]*)/gi;
+const CONTAINS_STATEMENT = /\bcontains?\b(?!\s*:?\s*(?:\d|less than|one or more))\s*:?\s*([^.()]*)/gi;
+const ALLERGEN_SEPARATORS = /,|;|\/|\band\b|\bor\b|&/i;
+const ALLERGEN_FILLER = /\b(?:traces? of|small amounts? of|other|ingredients?|products?|allerg(?:y|ies|ens?))\b/gi;
+
+export function normaliseBarcode(input: string): string {
+  return input.replace(/\D/g, '');
+}
+
+function hasValidCheckDigit(code: string): boolean {
+  const digits = code.split('').map(Number);
+  const check = digits.pop()!;
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+// UPC-E zero-suppresses a UPC-A code; the last of its six digits says where
+// the zeros were taken out.
+export function expandUpcE(barcode: string): string | null {
+  if (!/^[01]\d{7}$/.test(barcode)) return null;
+
+  const [system, d1, d2, d3, d4, d5, d6, check] = barcode.split('');
+  let body: string;
+  if (d6 <= '2') body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+  else if (d6 === '3') body = `${d1}${d2}${d3}00000${d4}${d5}`;
+  else if (d6 === '4') body = `${d1}${d2}${d3}${d4}00000${d5}`;
+  else body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+
+  return `${system}${body}${check}`;
+}
+
+// Every EAN-8, UPC-E, UPC-A, EAN-13 and GTIN-14 code as a zero-padded GTIN-14,
+// so the same product compares equal whichever form it was printed or stored in.
+export function toGtin14(barcode: string): string | null {
+  if (!BARCODE_LENGTHS.includes(barcode.length)) return null;
+
+  // EAN-8 codes starting with 0 are for restricted circulation only, so an
+  // 8-digit code that reads as both is taken as UPC-E.
+  if (barcode.length === 8) {
+    const upcA = expandUpcE(barcode);
+    const validUpcE = !!upcA && hasValidCheckDigit(upcA);
+    if (validUpcE && (barcode.startsWith('0') || !hasValidCheckDigit(barcode))) return upcA.padStart(14, '0');
+  }
+
+  return hasValidCheckDigit(barcode) ? barcode.padStart(14, '0') : null;
+}
+
+export function isValidBarcode(barcode: string): boolean {
+  return toGtin14(barcode) !== null;
+}
+
+// The shorter forms a GTIN-14 may have been stored under.
+function barcodeForms(gtin: string): string[] {
+  return [14, 13, 12, 8].flatMap((length) =>
+    gtin.slice(0, 14 - length).replace(/0/g, '') === '' ? [gtin.slice(14 - length)] : []
+  );
+}
+
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of text) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth = Math.max(0, depth - 1);
+
+    if (depth === 0 && (char === ',' || char === ';')) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+function cleanIngredient(text: string): string {
+  const name = text.includes(':') ? text.slice(text.lastIndexOf(':') + 1) : text;
+  return normaliseTerm(name.replace(/\d+(\.\d+)?\s*%/g, ' ').replace(/\bcontains?\b/gi, ' '));
+}
+
+export function splitIngredientList(text: string): string[] {
+  let list = text.replace(/\s+/g, ' ').replace(LIST_PREFIX, '');
+  const end = list.search(LIST_TERMINATORS);
+  if (end > 0) list = list.slice(0, end);
+  list = list.replace(/\.\s*$/, '').replace(/\.\s+/g, ', ');
+
+  const ingredients = new Set<string>();
+
+  for (const part of splitTopLevel(list)) {
+    const open = part.search(/[([]/);
+    const outer = open === -1 ? part : part.slice(0, open);
+    const inner = open === -1 ? '' : part.slice(open + 1).replace(/[)\]]\s*$/, '');
+
+    const name = cleanIngredient(outer);
+    if (name) ingredients.add(name);
+    if (inner) splitIngredientList(inner).forEach((sub) => ingredients.add(sub));
+  }
+
+  return [...ingredients];
+}
+
+function statementAllergens(text: string): string[] {
+  return text
+    .split(ALLERGEN_SEPARATORS)
+    .map((item) => normaliseTerm(item.replace(ALLERGEN_FILLER, ' ')))
+    .filter((item) => item && item.split(' ').length <= 4);
+}
+
+export function parseAllergenStatements(text: string | null): AllergenStatement[] {
+  if (!text) return [];
+
+  const statements = new Map<string, AllergenStatement>();
+  const add = (kind: AllergenStatement['kind'], allergen: string) => {
+    if (!statements.has(allergen) || kind === 'contains') statements.set(allergen, { kind, allergen });
+  };
+
+  let remaining = text.replace(/\s+/g, ' ');
+  remaining = remaining.replace(MAY_CONTAIN_STATEMENT, (_, list: string) => {
+    statementAllergens(list).forEach((allergen) => add('may_contain', allergen));
+    return '.';
+  });
+  for (const [, list] of remaining.matchAll(CONTAINS_STATEMENT)) {
+    statementAllergens(list).forEach((allergen) => add('contains', allergen));
+  }
+
+  return [...statements.values()];
+}
+
+export function productIngredients(text: string): string[] {
+  const contained = parseAllergenStatements(text).flatMap((statement) => (statement.kind === 'contains' ? [statement.allergen] : []));
+  return [...new Set([...splitIngredientList(text), ...contained])];
+}
+
+export function mayContain(allergens: AllergenStatement[]): string[] {
+  return allergens.flatMap((statement) => (statement.kind === 'may_contain' ? [statement.allergen] : []));
+}
+
+export function readIngredientList(ingredients: Json): string[] {
+  if (!Array.isArray(ingredients)) return [];
+  return ingredients.flatMap((entry) => (typeof entry === 'string' && entry.trim() ? [entry.trim()] : []));
+}
+
+export function barcodeScanningSupported(): boolean {
+  return 'BarcodeDetector' in window;
+}
+
+export async function detectBarcode(image: File): Promise<string | null> {
+  const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  if (!Detector) return null;
+
+  const bitmap = await createImageBitmap(image);
+  try {
+    const [code] = await new Detector({ formats: BARCODE_FORMATS }).detect(bitmap);
+    return code ? normaliseBarcode(code.rawValue) : null;
+  } finally {
+    bitmap.close();
+  }
+}
+
+function fromScannedProduct(barcode: string, row: ScannedProductRow, userId: string | undefined): ProductRecord {
+  return {
+    barcode,
+    name: row.name,
+    brand: row.brand,
+    ingredients: readIngredientList(row.ingredients),
+    allergens: parseAllergenStatements(row.ingredients_text),
+    labelText: row.ingredients_text,
+    source: row.created_by === userId ? 'scanned' : 'shared',
+  };
+}
+
+// Takes a GTIN-14 from toGtin14. Prefers the user's own copy of a scanned
+// label, then the most recent one entered by anyone else.
+export async function findProductByBarcode(barcode: string): Promise<ProductRecord | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  const forms = barcodeForms(barcode);
+
+  const [{ data: groceryProduct, error: groceryError }, { data: scannedProducts, error: scannedError }] = await Promise.all([
+    supabase.from('grocery_products').select('sku, name, brand, ingredients').in('sku', forms).limit(1).maybeSingle(),
+    supabase.from('scanned_products').select('*').in('barcode', forms).order('updated_at', { ascending: false }),
+  ]);
+
+  if (groceryError) throw groceryError;
+  if (scannedError) throw scannedError;
+
+  const groceryIngredients = groceryProduct ? readIngredientList(groceryProduct.ingredients) : [];
+  if (groceryProduct && groceryIngredients.length > 0) {
+    return {
+      barcode,
+      name: groceryProduct.name,
+      brand: groceryProduct.brand,
+      ingredients: groceryIngredients,
+      allergens: [],
+      labelText: null,
+      source: 'grocery',
+    };
+  }
+
+  const scannedProduct =
+    (scannedProducts || []).find((product) => product.created_by === user?.id) ?? scannedProducts?.[0];
+  if (scannedProduct) return fromScannedProduct(barcode, scannedProduct, user?.id);
+
+  return groceryProduct
+    ? { barcode, name: groceryProduct.name, brand: groceryProduct.brand, ingredients: [], allergens: [], labelText: null, source: 'grocery' }
+    : null;
+}
+
+export async function cacheScannedProduct(
+  product: Pick<ProductRecord, 'barcode' | 'name' | 'brand' | 'ingredients'>,
+  ingredientsText: string
+): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const { error } = await supabase.from('scanned_products').upsert(
+    {
+      barcode: product.barcode,
+      name: product.name,
+      brand: product.brand,
+      ingredients: product.ingredients,
+      ingredients_text: ingredientsText,
+      created_by: user.id,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'barcode,created_by' }
+  );
+
+  if (error) throw error;
+}
@@ -0,0 +1,231 @@
+import type { Database, Json } from './database.types';
+import type { AnalyteResult } from './biomarkers';
+import { getAnalyte, normaliseUnit } from './analyteCatalogue';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+type RiskLevel = Database['public']['Tables']['biomarker_records']['Row']['risk_level'];
+
+export type Species = 'human' | 'dog' | 'cat';
+export type Sex = 'male' | 'female';
+
+export interface RangeContext {
+  species: Species | null;
+  sex: Sex | null;
+  ageYears: number | null;
+}
+
+interface ReferenceRangeRule {
+  analyte_key: string;
+  species: Species;
+  sex?: Sex;
+  min_age?: number;
+  max_age?: number;
+  low: number | null;
+  high: number | null;
+  critical_low?: number;
+  critical_high?: number;
+}
+
+export type MarkerFlag = 'low' | 'high' | 'critical_low' | 'critical_high';
+
+export type FlaggedMarker = {
+  analyte_key: string | null;
+  name: string;
+  value: number;
+  unit: string;
+  flag: MarkerFlag;
+  reference_low: number | null;
+  reference_high: number | null;
+};
+
+export interface RangeAssessment {
+  risk_level: RiskLevel;
+  flagged_markers: FlaggedMarker[];
+}
+
+const REFERENCE_RANGES: ReferenceRangeRule[] = [
+  { analyte_key: 'hba1c', species: 'human', low: 20, high: 41, critical_high: 100 },
+  { analyte_key: 'glucose', species: 'human', low: 3.9, high: 5.5, critical_low: 2.5, critical_high: 25 },
+  { analyte_key: 'insulin', species: 'human', low: 2, high: 25 },
+  { analyte_key: 'homa_ir', species: 'human', low: null, high: 2.5 },
+  { analyte_key: 'uric_acid', species: 'human', sex: 'male', low: 200, high: 430 },
+  { analyte_key: 'uric_acid', species: 'human', sex: 'female', low: 140, high: 360 },
+  { analyte_key: 'total_cholesterol', species: 'human', low: null, high: 5.0 },
+  { analyte_key: 'ldl', species: 'human', low: null, high: 3.0 },
+  { analyte_key: 'hdl', species: 'human', sex: 'male', low: 1.0, high: null },
+  { analyte_key: 'hdl', species: 'human', sex: 'female', low: 1.2, high: null },
+  { analyte_key: 'triglycerides', species: 'human', low: null, high: 1.7, critical_high: 10 },
+  { analyte_key: 'non_hdl', species: 'human', low: null, high: 4.0 },
+  { analyte_key: 'tg_hdl_ratio', species: 'human', low: null, high: 1.3 },
+  { analyte_key: 'haemoglobin', species: 'human', sex: 'male', low: 130, high: 180, critical_low: 70, critical_high: 200 },
+  { analyte_key: 'haemoglobin', species: 'human', sex: 'female', low: 115, high: 165, critical_low: 70, critical_high: 200 },
+  { analyte_key: 'ferritin', species: 'human', sex: 'male', low: 30, high: 400, critical_high: 1000 },
+  { analyte_key: 'ferritin', species: 'human', sex: 'female', max_age: 49, low: 15, high: 150, critical_high: 1000 },
+  { analyte_key: 'ferritin', species: 'human', sex: 'female', min_age: 50, low: 15, high: 300, critical_high: 1000 },
+  { analyte_key: 'iron', species: 'human', low: 10, high: 30 },
+  { analyte_key: 'tsh', species: 'human', low: 0.27, high: 4.2, critical_low: 0.01, critical_high: 20 },
+  { analyte_key: 'free_t4', species: 'human', low: 12, high: 22 },
+  { analyte_key: 'alt', species: 'human', sex: 'male', low: null, high: 40, critical_high: 500 },
+  { analyte_key: 'alt', species: 'human', sex: 'female', low: null, high: 35, critical_high: 500 },
+  { analyte_key: 'ast', species: 'human', low: null, high: 40, critical_high: 500 },
+  { analyte_key: 'albumin', species: 'human', low: 35, high: 50 },
+  { analyte_key: 'creatinine', species: 'human', max_age: 17, low: 30, high: 90, critical_high: 350 },
+  { analyte_key: 'creatinine', species: 'human', sex: 'male', min_age: 18, low: 59, high: 104, critical_high: 350 },
+  { analyte_key: 'creatinine', species: 'human', sex: 'female', min_age: 18, low: 45, high: 84, critical_high: 350 },
+  { analyte_key: 'urea', species: 'human', low: 2.5, high: 7.8, critical_high: 30 },
+  { analyte_key: 'egfr', species: 'human', max_age: 69, low: 60, high: null, critical_low: 15 },
+  { analyte_key: 'egfr', species: 'human', min_age: 70, low: 45, high: null, critical_low: 15 },
+  { analyte_key: 'vitamin_d', species: 'human', low: 50, high: 175 },
+  { analyte_key: 'vitamin_b12', species: 'human', low: 197, high: 771 },
+  { analyte_key: 'folate', species: 'human', low: 3.9, high: 26.8 },
+  { analyte_key: 'crp', species: 'human', low: null, high: 5, critical_high: 100 },
+  { analyte_key: 'sodium', species: 'human', low: 133, high: 146, critical_low: 120, critical_high: 160 },
+  { analyte_key: 'potassium', species: 'human', low: 3.5, high: 5.3, critical_low: 2.5, critical_high: 6.5 },
+  { analyte_key: 'calcium', species: 'human', low: 2.2, high: 2.6, critical_low: 1.8, critical_high: 3.0 },
+
+  { analyte_key: 'glucose', species: 'dog', low: 3.9, high: 7.5, critical_low: 2.8, critical_high: 20 },
+  { analyte_key: 'creatinine', species: 'dog', low: 44, high: 159, critical_high: 440 },
+  { analyte_key: 'urea', species: 'dog', low: 2.5, high: 9.6, critical_high: 35 },
+  { analyte_key: 'bun_creatinine_ratio', species: 'dog', low: 10, high: 27 },
+  { analyte_key: 'alt', species: 'dog', low: 10, high: 125, critical_high: 1000 },
+  { analyte_key: 'albumin', species: 'dog', low: 23, high: 40 },
+  { analyte_key: 'total_cholesterol', species: 'dog', low: 2.8, high: 8.3 },
+  { analyte_key: 'triglycerides', species: 'dog', low: 0.3, high: 1.2 },
+  { analyte_key: 'haemoglobin', species: 'dog', low: 120, high: 180, critical_low: 60 },
+  { analyte_key: 'free_t4', species: 'dog', low: 7.7, high: 47.6 },
+  { analyte_key: 'calcium', species: 'dog', low: 1.98, high: 3.0, critical_low: 1.5, critical_high: 3.5 },
+  { analyte_key: 'sodium', species: 'dog', low: 144, high: 160, critical_low: 130, critical_high: 170 },
+  { analyte_key: 'potassium', species: 'dog', low: 3.5, high: 5.8, critical_low: 2.5, critical_high: 7.5 },
+
+  { analyte_key: 'glucose', species: 'cat', low: 3.9, high: 8.8, critical_low: 2.8, critical_high: 25 },
+  { analyte_key: 'creatinine', species: 'cat', low: 71, high: 212, critical_high: 440 },
+  { analyte_key: 'urea', species: 'cat', low: 5.7, high: 12.9, critical_high: 40 },
+  { analyte_key: 'bun_creatinine_ratio', species: 'cat', low: 15, high: 30 },
+  { analyte_key: 'alt', species: 'cat', low: 12, high: 130, critical_high: 1000 },
+  { analyte_key: 'albumin', species: 'cat', low: 22, high: 40 },
+  { analyte_key: 'total_cholesterol', species: 'cat', low: 1.7, high: 5.8 },
+  { analyte_key: 'triglycerides', species: 'cat', low: 0.1, high: 1.1 },
+  { analyte_key: 'haemoglobin', species: 'cat', low: 98, high: 162, critical_low: 50 },
+  { analyte_key: 'free_t4', species: 'cat', low: 10, high: 50 },
+  { analyte_key: 'calcium', species: 'cat', low: 1.95, high: 2.83, critical_low: 1.5, critical_high: 3.5 },
+  { analyte_key: 'sodium', species: 'cat', low: 150, high: 165, critical_low: 135, critical_high: 175 },
+  { analyte_key: 'potassium', species: 'cat', low: 3.5, high: 5.8, critical_low: 2.5, critical_high: 7.5 },
+];
+
+export function contextFromProfile(
+  profile: Pick<Profile, 'species_type' | 'pet_species' | 'biological_sex' | 'date_of_birth'> | null,
+  onDate: string = new Date().toISOString().split('T')[0]
+): RangeContext {
+  if (!profile) return { species: 'human', sex: null, ageYears: null };
+
+  let species: Species | null = 'human';
+  if (profile.species_type === 'pet') {
+    const petSpecies = profile.pet_species?.trim().toLowerCase();
+    species = petSpecies === 'dog' || petSpecies === 'cat' ? petSpecies : null;
+  }
+
+  const sex = profile.biological_sex?.trim().toLowerCase();
+
+  return {
+    species,
+    sex: sex === 'male' || sex === 'female' ? sex : null,
+    ageYears: profile.date_of_birth ? ageOn(profile.date_of_birth, onDate) : null,
+  };
+}
+
+// Read YYYY-MM-DD directly: new Date() would treat it as UTC midnight and
+// shift the day for anyone west of UTC.
+function dateParts(date: string): [number, number, number] {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return [year, month, day];
+}
+
+function ageOn(dateOfBirth: string, onDate: string): number {
+  const [birthYear, birthMonth, birthDay] = dateParts(dateOfBirth);
+  const [year, month, day] = dateParts(onDate);
+  let age = year - birthYear;
+  const beforeBirthday = month < birthMonth || (month === birthMonth && day < birthDay);
+  if (beforeBirthday) age -= 1;
+  return age;
+}
+
+function specificity(rule: ReferenceRangeRule): number {
+  return (rule.sex ? 2 : 0) + (rule.min_age !== undefined || rule.max_age !== undefined ? 1 : 0);
+}
+
+export function findReferenceRange(analyteKey: string, context: RangeContext): ReferenceRangeRule | undefined {
+  if (!context.species) return undefined;
+
+  return REFERENCE_RANGES
+    .filter((rule) => {
+      if (rule.analyte_key !== analyteKey || rule.species !== context.species) return false;
+      if (rule.sex && rule.sex !== context.sex) return false;
+      if (rule.min_age !== undefined && (context.ageYears === null || context.ageYears < rule.min_age)) return false;
+      if (rule.max_age !== undefined && context.ageYears !== null && context.ageYears > rule.max_age) return false;
+      return true;
+    })
+    .sort((a, b) => specificity(b) - specificity(a))[0];
+}
+
+export function evaluateAnalyte(analyte: AnalyteResult, context: RangeContext): FlaggedMarker | null {
+  const definition = analyte.analyte_key ? getAnalyte(analyte.analyte_key) : undefined;
+  const rule =
+    definition && normaliseUnit(analyte.unit) === normaliseUnit(definition.unit)
+      ? findReferenceRange(definition.key, context)
+      : undefined;
+
+  const low = rule ? rule.low : analyte.reference_low;
+  const high = rule ? rule.high : analyte.reference_high;
+
+  let flag: MarkerFlag | null = null;
+  if (rule?.critical_low !== undefined && analyte.value < rule.critical_low) flag = 'critical_low';
+  else if (rule?.critical_high !== undefined && analyte.value > rule.critical_high) flag = 'critical_high';
+  else if (low !== null && analyte.value < low) flag = 'low';
+  else if (high !== null && analyte.value > high) flag = 'high';
+
+  if (!flag) return null;
+
+  return {
+    analyte_key: analyte.analyte_key,
+    name: analyte.name,
+    value: analyte.value,
+    unit: analyte.unit,
+    flag,
+    reference_low: low,
+    reference_high: high,
+  };
+}
+
+export function assessAnalytes(analytes: AnalyteResult[], context: RangeContext): RangeAssessment {
+  const flaggedMarkers = analytes
+    .map((analyte) => evaluateAnalyte(analyte, context))
+    .filter((marker): marker is FlaggedMarker => marker !== null);
+
+  let riskLevel: RiskLevel = 'normal';
+  if (flaggedMarkers.some((marker) => marker.flag === 'critical_low' || marker.flag === 'critical_high')) {
+    riskLevel = 'urgent';
+  } else if (flaggedMarkers.length > 0) {
+    riskLevel = 'caution';
+  }
+
+  return { risk_level: riskLevel, flagged_markers: flaggedMarkers };
+}
+
+export function readFlaggedMarkers(flaggedMarkers: Json): FlaggedMarker[] {
+  if (!Array.isArray(flaggedMarkers)) return [];
+
+  return flaggedMarkers.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [];
+    if (typeof entry.name !== 'string' || typeof entry.value !== 'number' || typeof entry.flag !== 'string') return [];
+
+    return [{
+      analyte_key: typeof entry.analyte_key === 'string' ? entry.analyte_key : null,
+      name: entry.name,
+      value: entry.value,
+      unit: typeof entry.unit === 'string' ? entry.unit : '',
+      flag: entry.flag as MarkerFlag,
+      reference_low: typeof entry.reference_low === 'number' ? entry.reference_low : null,
+      reference_high: typeof entry.reference_high === 'number' ? entry.reference_high : null,
+    }];
+  });
+}
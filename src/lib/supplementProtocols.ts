@@ -0,0 +1,468 @@
+import { supabase } from './supabase';
+import type { Database, Json } from './database.types';
+import { containsPhrase, normaliseTerm } from './ingredientMatcher';
+import { contextFromProfile, type FlaggedMarker, type Species } from './referenceRanges';
+import { describeMarkers, isCritical, latestFlaggedMarkers, matchingMarkers } from './nutritionRecommendations';
+
+type Tables = Database['public']['Tables'];
+export type SupplementProtocol = Tables['supplement_protocols']['Row'];
+type UserMedication = Pick<Tables['user_medications']['Row'], 'id' | 'medication_id' | 'medication_name'>;
+type Medication = Pick<Tables['medications']['Row'], 'id' | 'name' | 'generic_name' | 'brand_names'>;
+type MedicationInteraction = Tables['medication_interactions']['Row'];
+
+export type InteractionSeverity = MedicationInteraction['severity'];
+
+export type SupplementFrequency = 'once_daily' | 'twice_daily' | 'three_times_daily' | 'weekly' | 'as_needed';
+
+export type SupplementInteraction = {
+  interaction_id: string;
+  user_medication_id: string;
+  medication_name: string;
+  substance: string;
+  severity: InteractionSeverity;
+  effect: string;
+  recommendation: string;
+};
+
+interface SupplementIndication {
+  analytes: string[];
+  direction: 'low' | 'high';
+  reason: string;
+}
+
+export interface SupplementDefinition {
+  name: string;
+  aliases: string[];
+  dosage: Partial<Record<Species, string>>;
+  frequency: SupplementFrequency;
+  safetyNotes: string;
+  indications: SupplementIndication[];
+}
+
+export interface SupplementSuggestion {
+  supplement: SupplementDefinition;
+  dosage: string;
+  rationale: string;
+  urgent: boolean;
+}
+
+export interface SupplementOptions {
+  species: Species | null;
+  suggestions: SupplementSuggestion[];
+}
+
+export interface ScreeningContext {
+  medications: UserMedication[];
+  catalogue: Medication[];
+  interactions: MedicationInteraction[];
+}
+
+export interface NewSupplementProtocol {
+  supplement_name: string;
+  dosage: string;
+  frequency: string;
+  rationale: string | null;
+  safety_notes: string | null;
+}
+
+export const FREQUENCY_LABELS: Record<SupplementFrequency, string> = {
+  once_daily: 'Once Daily',
+  twice_daily: 'Twice Daily',
+  three_times_daily: 'Three Times Daily',
+  weekly: 'Weekly',
+  as_needed: 'As Needed',
+};
+
+export const SEVERITY_RANK: Record<InteractionSeverity, number> = { minor: 0, moderate: 1, major: 2, severe: 3 };
+
+const SEVERITIES = Object.keys(SEVERITY_RANK) as InteractionSeverity[];
+
+const VET_DOSAGE = 'As directed by your vet';
+
+export const SUPPLEMENT_CATALOGUE: SupplementDefinition[] = [
+  {
+    name: 'Vitamin D3',
+    aliases: ['vitamin d', 'cholecalciferol', 'colecalciferol'],
+    dosage: { human: '1000 IU' },
+    frequency: 'once_daily',
+    safetyNotes: 'Fat-soluble - take with a meal that contains some fat. Recheck levels after 3 months, as long-term high doses can raise calcium.',
+    indications: [
+      { analytes: ['vitamin_d'], direction: 'low', reason: 'Vitamin D3 is the usual way to correct a low vitamin D level.' },
+    ],
+  },
+  {
+    name: 'Iron',
+    aliases: ['ferrous sulphate', 'ferrous sulfate', 'ferrous fumarate', 'ferrous bisglycinate'],
+    dosage: { human: '200mg ferrous sulphate (65mg iron)' },
+    frequency: 'once_daily',
+    safetyNotes: 'Take on an empty stomach with vitamin C, at least 2 hours apart from tea, coffee and calcium. Iron overdose is dangerous for children and pets - store securely.',
+    indications: [
+      { analytes: ['ferritin', 'iron', 'haemoglobin'], direction: 'low', reason: 'Iron supplementation rebuilds depleted iron stores faster than diet alone.' },
+    ],
+  },
+  {
+    name: 'Vitamin B12',
+    aliases: ['b12', 'cobalamin', 'cyanocobalamin', 'methylcobalamin'],
+    dosage: { human: '1000mcg', dog: VET_DOSAGE, cat: VET_DOSAGE },
+    frequency: 'once_daily',
+    safetyNotes: 'Water-soluble and well tolerated. Long-term metformin use can lower B12, so keep taking it while on metformin unless advised otherwise.',
+    indications: [
+      { analytes: ['vitamin_b12'], direction: 'low', reason: 'Vitamin B12 supplements correct a low level, including when absorption from food is poor.' },
+    ],
+  },
+  {
+    name: 'Folic Acid',
+    aliases: ['folate', 'methylfolate', 'vitamin b9'],
+    dosage: { human: '400mcg' },
+    frequency: 'once_daily',
+    safetyNotes: 'High doses can hide a vitamin B12 deficiency - check B12 too if folate is low.',
+    indications: [
+      { analytes: ['folate'], direction: 'low', reason: 'Folic acid supplements restore a low folate level.' },
+    ],
+  },
+  {
+    name: 'Calcium',
+    aliases: ['calcium carbonate', 'calcium citrate'],
+    dosage: { human: '500mg' },
+    frequency: 'once_daily',
+    safetyNotes: 'Take at least 2 hours apart from iron and 4 hours apart from thyroid medication. Calcium carbonate is best taken with food.',
+    indications: [
+      { analytes: ['calcium'], direction: 'low', reason: 'Calcium supplements can help while the cause of a low calcium level is investigated.' },
+    ],
+  },
+  {
+    name: 'Magnesium',
+    aliases: ['magnesium glycinate', 'magnesium citrate', 'magnesium oxide'],
+    dosage: { human: '200mg' },
+    frequency: 'once_daily',
+    safetyNotes: 'Can loosen stools at higher doses. Not suitable with significantly reduced kidney function unless prescribed.',
+    indications: [],
+  },
+  {
+    name: 'Fish Oil',
+    aliases: ['omega 3', 'omega 3 fish oil', 'epa', 'dha', 'epa dha'],
+    dosage: { human: '1000mg EPA/DHA', dog: VET_DOSAGE, cat: VET_DOSAGE },
+    frequency: 'once_daily',
+    safetyNotes: 'Take with food to reduce fishy burps. High doses have a mild blood-thinning effect.',
+    indications: [
+      { analytes: ['triglycerides', 'tg_hdl_ratio'], direction: 'high', reason: 'Omega-3 fats from fish oil lower triglycerides.' },
+      { analytes: ['crp'], direction: 'high', reason: 'Omega-3 fats have anti-inflammatory effects.' },
+    ],
+  },
+  {
+    name: 'Potassium',
+    aliases: ['potassium chloride', 'potassium citrate', 'potassium gluconate'],
+    dosage: { human: '99mg' },
+    frequency: 'once_daily',
+    safetyNotes: 'Do not take with ACE inhibitors, ARBs or potassium-sparing diuretics unless prescribed - potassium can build up to dangerous levels.',
+    indications: [
+      { analytes: ['potassium'], direction: 'low', reason: 'Potassium supplements can top up a low level, ideally under medical supervision.' },
+    ],
+  },
+  {
+    name: 'Vitamin K2',
+    aliases: ['vitamin k', 'menaquinone', 'mk 7'],
+    dosage: { human: '100mcg' },
+    frequency: 'once_daily',
+    safetyNotes: 'Interferes with warfarin - do not start or stop while taking it without your prescriber.',
+    indications: [],
+  },
+  {
+    name: 'Zinc',
+    aliases: ['zinc gluconate', 'zinc picolinate'],
+    dosage: { human: '15mg' },
+    frequency: 'once_daily',
+    safetyNotes: 'Take with food to avoid nausea. Long-term use above 25mg a day can lower copper.',
+    indications: [],
+  },
+  {
+    name: 'Probiotic',
+    aliases: ['probiotics', 'lactobacillus', 'bifidobacterium'],
+    dosage: { human: '10 billion CFU', dog: VET_DOSAGE, cat: VET_DOSAGE },
+    frequency: 'once_daily',
+    safetyNotes: 'Check with your practitioner first if you are immunocompromised.',
+    indications: [],
+  },
+];
+
+const GENERIC_SUFFIXES = /\b(supplements?|tablets?|capsules?)\b/g;
+
+function supplementTerms(name: string): string[] {
+  const supplement = findSupplement(name);
+  const names = supplement ? [supplement.name, ...supplement.aliases] : [];
+  return [...new Set([name, ...names].map(normaliseTerm))];
+}
+
+export function findSupplement(name: string): SupplementDefinition | undefined {
+  const term = normaliseTerm(name);
+  return (
+    SUPPLEMENT_CATALOGUE.find(
+      (supplement) => normaliseTerm(supplement.name) === term || supplement.aliases.includes(term)
+    ) ??
+    SUPPLEMENT_CATALOGUE.find((supplement) =>
+      [supplement.name, ...supplement.aliases].some((alias) => containsPhrase(term, normaliseTerm(alias)))
+    )
+  );
+}
+
+export function supplementsFor(species: Species | null): SupplementDefinition[] {
+  return species ? SUPPLEMENT_CATALOGUE.filter((supplement) => supplement.dosage[species]) : [];
+}
+
+export function substanceMatchesSupplement(substance: string, supplementName: string): boolean {
+  const normalised = normaliseTerm(substance).replace(GENERIC_SUFFIXES, ' ').replace(/\s+/g, ' ').trim();
+  return supplementTerms(supplementName).some(
+    (term) => containsPhrase(term, normalised) || containsPhrase(normalised, term)
+  );
+}
+
+function readStrings(json: Json): string[] {
+  return Array.isArray(json) ? json.filter((value): value is string => typeof value === 'string') : [];
+}
+
+function catalogueMedicationId(medication: UserMedication, catalogue: Medication[]): string | null {
+  if (medication.medication_id) return medication.medication_id;
+
+  const name = normaliseTerm(medication.medication_name);
+  const match = catalogue.find((entry) =>
+    [entry.name, entry.generic_name, ...readStrings(entry.brand_names)].some(
+      (candidate) => candidate && containsPhrase(name, normaliseTerm(candidate))
+    )
+  );
+  return match?.id ?? null;
+}
+
+export function screenSupplement(supplementName: string, context: ScreeningContext): SupplementInteraction[] {
+  const interactions = context.interactions.filter(
+    (interaction) =>
+      interaction.interaction_type === 'drug_supplement' &&
+      interaction.interacting_substance &&
+      substanceMatchesSupplement(interaction.interacting_substance, supplementName)
+  );
+
+  return context.medications
+    .flatMap((medication) => {
+      const medicationId = catalogueMedicationId(medication, context.catalogue);
+      if (!medicationId) return [];
+
+      return interactions
+        .filter(
+          (interaction) =>
+            interaction.medication_id_1 === medicationId || interaction.medication_id_2 === medicationId
+        )
+        .map((interaction) => ({
+          interaction_id: interaction.id,
+          user_medication_id: medication.id,
+          medication_name: medication.medication_name,
+          substance: interaction.interacting_substance ?? supplementName,
+          severity: interaction.severity,
+          effect: interaction.effect,
+          recommendation: interaction.recommendation,
+        }));
+    })
+    .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+}
+
+export function readSupplementInteractions(interactions: Json): SupplementInteraction[] {
+  if (!Array.isArray(interactions)) return [];
+
+  return interactions.flatMap((entry): SupplementInteraction[] => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [];
+    const { interaction_id, user_medication_id, medication_name, substance, severity, effect, recommendation } = entry;
+    if (typeof interaction_id !== 'string' || typeof user_medication_id !== 'string') return [];
+    if (!SEVERITIES.includes(severity as InteractionSeverity)) return [];
+    return [{
+      interaction_id,
+      user_medication_id,
+      medication_name: typeof medication_name === 'string' ? medication_name : '',
+      substance: typeof substance === 'string' ? substance : '',
+      severity: severity as InteractionSeverity,
+      effect: typeof effect === 'string' ? effect : '',
+      recommendation: typeof recommendation === 'string' ? recommendation : '',
+    }];
+  });
+}
+
+export function suggestSupplements(
+  flaggedMarkers: FlaggedMarker[],
+  species: Species | null,
+  currentSupplements: string[]
+): SupplementSuggestion[] {
+  if (!species) return [];
+
+  const current = new Set(currentSupplements.map((name) => findSupplement(name)?.name ?? name));
+
+  return supplementsFor(species).flatMap((supplement): SupplementSuggestion[] => {
+    if (current.has(supplement.name)) return [];
+
+    const reasons = supplement.indications.flatMap((indication) => {
+      const markers = matchingMarkers(flaggedMarkers, indication.analytes, indication.direction);
+      return markers.length > 0 ? [{ markers, text: `${describeMarkers(markers, indication.direction)} ${indication.reason}` }] : [];
+    });
+    if (reasons.length === 0) return [];
+
+    return [{
+      supplement,
+      dosage: supplement.dosage[species] ?? VET_DOSAGE,
+      rationale: reasons.map((reason) => reason.text).join(' '),
+      urgent: reasons.some((reason) => reason.markers.some(isCritical)),
+    }];
+  });
+}
+
+export async function loadScreeningContext(): Promise<ScreeningContext> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { medications: [], catalogue: [], interactions: [] };
+
+  const [medications, catalogue, interactions] = await Promise.all([
+    supabase
+      .from('user_medications')
+      .select('id, medication_id, medication_name')
+      .eq('profile_id', user.id)
+      .eq('active', true),
+    supabase.from('medications').select('id, name, generic_name, brand_names'),
+    supabase.from('medication_interactions').select('*').eq('interaction_type', 'drug_supplement'),
+  ]);
+
+  if (medications.error) throw medications.error;
+  if (catalogue.error) throw catalogue.error;
+  if (interactions.error) throw interactions.error;
+
+  return {
+    medications: medications.data || [],
+    catalogue: catalogue.data || [],
+    interactions: interactions.data || [],
+  };
+}
+
+async function raiseInteractionAlerts(profileId: string, protocols: SupplementProtocol[]): Promise<void> {
+  if (protocols.length === 0) return;
+
+  const { data: existing, error: existingError } = await supabase
+    .from('user_interaction_alerts')
+    .select('supplement_protocol_id, interaction_id, user_medication_ids')
+    .in('supplement_protocol_id', protocols.map((protocol) => protocol.id));
+
+  if (existingError) throw existingError;
+
+  const raised = new Set(
+    (existing || []).flatMap((alert) =>
+      readStrings(alert.user_medication_ids).map(
+        (medicationId) => `${alert.supplement_protocol_id}:${alert.interaction_id}:${medicationId}`
+      )
+    )
+  );
+
+  const alerts = protocols.flatMap((protocol) =>
+    readSupplementInteractions(protocol.interactions)
+      .filter(
+        (interaction) =>
+          !raised.has(`${protocol.id}:${interaction.interaction_id}:${interaction.user_medication_id}`)
+      )
+      .map((interaction) => ({
+        profile_id: profileId,
+        interaction_id: interaction.interaction_id,
+        supplement_protocol_id: protocol.id,
+        user_medication_ids: [interaction.user_medication_id],
+        alert_type: 'drug_supplement' as const,
+        severity: interaction.severity,
+        message: `${protocol.supplement_name} interacts with ${interaction.medication_name}: ${interaction.effect}`,
+        recommendation: interaction.recommendation,
+      }))
+  );
+
+  if (alerts.length === 0) return;
+
+  const { error } = await supabase.from('user_interaction_alerts').insert(alerts);
+  if (error) throw error;
+}
+
+export async function addSupplementProtocol(protocol: NewSupplementProtocol): Promise<SupplementProtocol> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not signed in');
+
+  const interactions = screenSupplement(protocol.supplement_name, await loadScreeningContext());
+
+  const { data, error } = await supabase
+    .from('supplement_protocols')
+    .insert({ ...protocol, profile_id: user.id, interactions, active: true })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await raiseInteractionAlerts(user.id, [data]);
+  return data;
+}
+
+export async function rescreenSupplementProtocols(): Promise<SupplementProtocol[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const [{ data: protocols, error }, context] = await Promise.all([
+    supabase
+      .from('supplement_protocols')
+      .select('*')
+      .eq('profile_id', user.id)
+      .eq('active', true)
+      .order('created_at', { ascending: false }),
+    loadScreeningContext(),
+  ]);
+
+  if (error) throw error;
+
+  const screened = await Promise.all(
+    (protocols || []).map(async (protocol) => {
+      const interactions = screenSupplement(protocol.supplement_name, context);
+      if (JSON.stringify(interactions) === JSON.stringify(readSupplementInteractions(protocol.interactions))) {
+        return protocol;
+      }
+
+      const { error: updateError } = await supabase
+        .from('supplement_protocols')
+        .update({ interactions })
+        .eq('id', protocol.id);
+
+      if (updateError) throw updateError;
+      return { ...protocol, interactions };
+    })
+  );
+
+  await raiseInteractionAlerts(user.id, screened);
+  return screened;
+}
+
+export async function stopSupplementProtocol(protocolId: string): Promise<void> {
+  const { error } = await supabase.from('supplement_protocols').update({ active: false }).eq('id', protocolId);
+  if (error) throw error;
+
+  const { error: alertError } = await supabase
+    .from('user_interaction_alerts')
+    .update({ dismissed: true })
+    .eq('supplement_protocol_id', protocolId)
+    .eq('acknowledged', false);
+
+  if (alertError) throw alertError;
+}
+
+export async function loadSupplementOptions(currentSupplements: string[]): Promise<SupplementOptions> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { species: null, suggestions: [] };
+
+  const [{ data: profile }, { data: records, error }] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('species_type, pet_species, biological_sex, date_of_birth')
+      .eq('id', user.id)
+      .maybeSingle(),
+    supabase.from('biomarker_records').select('*').eq('profile_id', user.id),
+  ]);
+
+  if (error) throw error;
+
+  const context = contextFromProfile(profile);
+  return {
+    species: context.species,
+    suggestions: suggestSupplements(latestFlaggedMarkers(records || [], context), context.species, currentSupplements),
+  };
+}
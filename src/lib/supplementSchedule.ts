@@ -0,0 +1,274 @@
+import { supabase } from './supabase';
+import type { Database, Json } from './database.types';
+import { containsPhrase, normaliseTerm } from './ingredientMatcher';
+import { findSupplement, type SupplementFrequency, type SupplementProtocol } from './supplementProtocols';
+
+export type SupplementDose = Database['public']['Tables']['supplement_doses']['Row'];
+export type DoseStatus = SupplementDose['status'];
+
+export type ScheduledProtocol = Pick<SupplementProtocol, 'id' | 'supplement_name' | 'frequency' | 'created_at'>;
+
+export interface ScheduledMedication {
+  medication_name: string;
+  schedule_times: Json;
+}
+
+export interface PlannedDose {
+  protocol_id: string;
+  supplement_name: string;
+  time: string;
+  preferred_time: string;
+  note: string | null;
+}
+
+interface SpacingRule {
+  first: string;
+  second: string;
+  hours: number;
+  reason: string;
+}
+
+interface TimelineItem {
+  key: string;
+  name: string;
+  minutes: number;
+}
+
+interface SpacingConflict {
+  item: TimelineItem;
+  rule: Pick<SpacingRule, 'hours' | 'reason'>;
+}
+
+const SPACING_RULES: SpacingRule[] = [
+  { first: 'iron', second: 'calcium', hours: 2, reason: 'Calcium reduces iron absorption' },
+  { first: 'iron', second: 'zinc', hours: 2, reason: 'Iron and zinc compete for absorption' },
+  { first: 'zinc', second: 'calcium', hours: 2, reason: 'Calcium reduces zinc absorption' },
+  { first: 'levothyroxine', second: 'calcium', hours: 4, reason: 'Calcium reduces levothyroxine absorption' },
+  { first: 'levothyroxine', second: 'iron', hours: 4, reason: 'Iron reduces levothyroxine absorption' },
+  { first: 'levothyroxine', second: 'magnesium', hours: 4, reason: 'Magnesium reduces levothyroxine absorption' },
+];
+
+const SAME_SUPPLEMENT_RULE = { hours: 4, reason: 'Doses of the same supplement should be spread through the day' };
+
+const DEFAULT_TIMES: Record<SupplementFrequency, string[]> = {
+  once_daily: ['08:00'],
+  twice_daily: ['08:00', '20:00'],
+  three_times_daily: ['08:00', '13:00', '19:00'],
+  weekly: ['08:00'],
+  as_needed: [],
+};
+
+const DAY_START_MINUTES = 7 * 60;
+const DAY_END_MINUTES = 22 * 60;
+const SLOT_MINUTES = 30;
+
+export const SCHEDULE_DAYS = 30;
+const RESCHEDULE_WITHIN_DAYS = 7;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function toTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function readScheduleTimes(times: Json): string[] {
+  return Array.isArray(times)
+    ? times.filter((time): time is string => typeof time === 'string' && /^\d{1,2}:\d{2}$/.test(time))
+    : [];
+}
+
+function matchesTerm(name: string, term: string): boolean {
+  const supplement = findSupplement(name);
+  return containsPhrase(normaliseTerm(name), term) || (!!supplement && containsPhrase(normaliseTerm(supplement.name), term));
+}
+
+function spacingRule(a: string, b: string): SpacingRule | undefined {
+  return SPACING_RULES.filter(
+    (rule) =>
+      (matchesTerm(a, rule.first) && matchesTerm(b, rule.second)) ||
+      (matchesTerm(a, rule.second) && matchesTerm(b, rule.first))
+  ).sort((x, y) => y.hours - x.hours)[0];
+}
+
+function conflictsAt(protocol: ScheduledProtocol, minutes: number, placed: TimelineItem[]): SpacingConflict[] {
+  return placed.flatMap((item) => {
+    const rule = item.key === protocol.id ? SAME_SUPPLEMENT_RULE : spacingRule(protocol.supplement_name, item.name);
+    return rule && Math.abs(minutes - item.minutes) < rule.hours * 60 ? [{ item, rule }] : [];
+  });
+}
+
+function candidateSlots(preferred: number): number[] {
+  const slots: number[] = [];
+  for (let minutes = DAY_START_MINUTES; minutes <= DAY_END_MINUTES; minutes += SLOT_MINUTES) slots.push(minutes);
+  return [preferred, ...slots.sort((a, b) => Math.abs(a - preferred) - Math.abs(b - preferred) || b - a)];
+}
+
+function describeConflict({ item, rule }: SpacingConflict): string {
+  return `${rule.reason} - keep ${rule.hours}h apart from ${item.name}`;
+}
+
+export function preferredTimes(frequency: string): string[] {
+  return DEFAULT_TIMES[frequency as SupplementFrequency] ?? DEFAULT_TIMES.once_daily;
+}
+
+export function planSupplementDay(protocols: ScheduledProtocol[], medications: ScheduledMedication[]): PlannedDose[] {
+  const placed: TimelineItem[] = medications.flatMap((medication) =>
+    readScheduleTimes(medication.schedule_times).map((time) => ({
+      key: `medication:${medication.medication_name}`,
+      name: medication.medication_name,
+      minutes: toMinutes(time),
+    }))
+  );
+
+  const constraintCount = (protocol: ScheduledProtocol) =>
+    [...placed.map((item) => item.name), ...protocols.map((other) => other.supplement_name)].filter(
+      (name) => name !== protocol.supplement_name && spacingRule(protocol.supplement_name, name)
+    ).length;
+
+  const ordered = [...protocols].sort((a, b) => constraintCount(b) - constraintCount(a));
+  const planned: PlannedDose[] = [];
+
+  for (const protocol of ordered) {
+    for (const preferredTime of preferredTimes(protocol.frequency)) {
+      const preferred = toMinutes(preferredTime);
+      const slot = candidateSlots(preferred).find((minutes) => conflictsAt(protocol, minutes, placed).length === 0);
+      const conflict = conflictsAt(protocol, preferred, placed)[0];
+
+      let note: string | null = null;
+      if (slot === undefined) {
+        note = `Couldn't find a time that avoids a clash: ${describeConflict(conflict)}`;
+      } else if (slot !== preferred) {
+        note = `Moved from ${preferredTime}: ${describeConflict(conflict)}`;
+      }
+
+      const minutes = slot ?? preferred;
+      placed.push({ key: protocol.id, name: protocol.supplement_name, minutes });
+      planned.push({
+        protocol_id: protocol.id,
+        supplement_name: protocol.supplement_name,
+        time: toTime(minutes),
+        preferred_time: preferredTime,
+        note,
+      });
+    }
+  }
+
+  return planned.sort((a, b) => a.time.localeCompare(b.time) || a.supplement_name.localeCompare(b.supplement_name));
+}
+
+function scheduledOn(protocol: ScheduledProtocol, date: Date): boolean {
+  return protocol.frequency !== 'weekly' || new Date(protocol.created_at).getDay() === date.getDay();
+}
+
+export function adherenceRate(doses: Pick<SupplementDose, 'scheduled_time' | 'status'>[], now = new Date()): number | null {
+  const due = doses.filter((dose) => new Date(dose.scheduled_time) <= now);
+  if (due.length === 0) return null;
+  return Math.round((due.filter((dose) => dose.status === 'taken').length / due.length) * 100);
+}
+
+export async function rebuildSupplementSchedule(): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const [{ data: protocols, error }, { data: medications }] = await Promise.all([
+    supabase
+      .from('supplement_protocols')
+      .select('id, supplement_name, frequency, created_at')
+      .eq('profile_id', user.id)
+      .eq('active', true),
+    supabase
+      .from('user_medications')
+      .select('medication_name, schedule_times')
+      .eq('profile_id', user.id)
+      .eq('active', true),
+  ]);
+
+  if (error) throw error;
+
+  const now = new Date();
+  const { error: deleteError } = await supabase
+    .from('supplement_doses')
+    .delete()
+    .eq('profile_id', user.id)
+    .eq('status', 'scheduled')
+    .gte('scheduled_time', now.toISOString());
+
+  if (deleteError) throw deleteError;
+
+  const plan = planSupplementDay(protocols || [], medications || []);
+  const protocolsById = new Map((protocols || []).map((protocol) => [protocol.id, protocol]));
+  const doses = [];
+
+  for (let day = 0; day < SCHEDULE_DAYS; day++) {
+    const date = new Date(now);
+    date.setDate(now.getDate() + day);
+
+    for (const dose of plan) {
+      const protocol = protocolsById.get(dose.protocol_id);
+      if (!protocol || !scheduledOn(protocol, date)) continue;
+
+      const [hours, minutes] = dose.time.split(':');
+      const scheduledTime = new Date(date);
+      scheduledTime.setHours(parseInt(hours), parseInt(minutes), 0, 0);
+      if (scheduledTime < now) continue;
+
+      doses.push({
+        supplement_protocol_id: dose.protocol_id,
+        profile_id: user.id,
+        scheduled_time: scheduledTime.toISOString(),
+        status: 'scheduled' as const,
+        schedule_note: dose.note,
+      });
+    }
+  }
+
+  if (doses.length === 0) return;
+
+  const { error: insertError } = await supabase.from('supplement_doses').insert(doses);
+  if (insertError) throw insertError;
+}
+
+export async function ensureSupplementSchedule(): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const horizon = new Date();
+  horizon.setDate(horizon.getDate() + RESCHEDULE_WITHIN_DAYS);
+
+  const { count, error } = await supabase
+    .from('supplement_doses')
+    .select('id', { count: 'exact', head: true })
+    .eq('profile_id', user.id)
+    .gte('scheduled_time', horizon.toISOString());
+
+  if (error) throw error;
+  if (!count) await rebuildSupplementSchedule();
+}
+
+export async function loadSupplementDoses(from: Date, to: Date): Promise<SupplementDose[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('supplement_doses')
+    .select('*')
+    .eq('profile_id', user.id)
+    .gte('scheduled_time', from.toISOString())
+    .lte('scheduled_time', to.toISOString())
+    .order('scheduled_time');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function recordSupplementDose(doseId: string, status: Extract<DoseStatus, 'taken' | 'skipped'>): Promise<void> {
+  const { error } = await supabase
+    .from('supplement_doses')
+    .update({ status, taken_time: status === 'taken' ? new Date().toISOString() : null })
+    .eq('id', doseId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,150 @@
+import { getAnalyte, normaliseUnit } from './analyteCatalogue';
+import type { AnalyteResult } from './biomarkers';
+
+export type UnitSystem = 'si' | 'conventional';
+
+interface AlternateUnit {
+  unit: string;
+  factor: number;
+  offset?: number;
+}
+
+interface AnalyteUnits {
+  conventional: string;
+  alternates: AlternateUnit[];
+}
+
+// Canonical (SI) value = alternate value × factor + offset
+const ANALYTE_UNITS: Record<string, AnalyteUnits> = {
+  hba1c: { conventional: '%', alternates: [{ unit: '%', factor: 10.929, offset: -23.5 }] },
+  glucose: { conventional: 'mg/dL', alternates: [{ unit: 'mg/dL', factor: 0.0555 }] },
+  insulin: {
+    conventional: 'uIU/mL',
+    alternates: [
+      { unit: 'uIU/mL', factor: 1 },
+      { unit: 'uU/mL', factor: 1 },
+      { unit: 'mIU/L', factor: 1 },
+      { unit: 'pmol/L', factor: 1 / 6 },
+    ],
+  },
+  uric_acid: { conventional: 'mg/dL', alternates: [{ unit: 'mg/dL', factor: 59.48 }] },
+  total_cholesterol: { conventional: 'mg/dL', alternates: [{ unit: 'mg/dL', factor: 0.02586 }] },
+  ldl: { conventional: 'mg/dL', alternates: [{ unit: 'mg/dL', factor: 0.02586 }] },
+  hdl: { conventional: 'mg/dL', alternates: [{ unit: 'mg/dL', factor: 0.02586 }] },
+  triglycerides: { conventional: 'mg/dL', alternates: [{ unit: 'mg/dL', factor: 0.01129 }] },
+  non_hdl: { conventional: 'mg/dL', alternates: [{ unit: 'mg/dL', factor: 0.02586 }] },
+  haemoglobin: { conventional: 'g/dL', alternates: [{ unit: 'g/dL', factor: 10 }] },
+  ferritin: { conventional: 'ng/mL', alternates: [{ unit: 'ng/mL', factor: 1 }] },
+  iron: { conventional: 'ug/dL', alternates: [{ unit: 'ug/dL', factor: 0.1791 }] },
+  tsh: {
+    conventional: 'uIU/mL',
+    alternates: [
+      { unit: 'uIU/mL', factor: 1 },
+      { unit: 'mIU/L', factor: 1 },
+    ],
+  },
+  free_t4: { conventional: 'ng/dL', alternates: [{ unit: 'ng/dL', factor: 12.87 }] },
+  alt: { conventional: 'U/L', alternates: [{ unit: 'IU/L', factor: 1 }] },
+  ast: { conventional: 'U/L', alternates: [{ unit: 'IU/L', factor: 1 }] },
+  albumin: { conventional: 'g/dL', alternates: [{ unit: 'g/dL', factor: 10 }] },
+  creatinine: { conventional: 'mg/dL', alternates: [{ unit: 'mg/dL', factor: 88.42 }] },
+  urea: { conventional: 'mg/dL', alternates: [{ unit: 'mg/dL', factor: 0.1665 }] },
+  bun: { conventional: 'mg/dL', alternates: [{ unit: 'mg/dL', factor: 0.357 }] },
+  vitamin_d: { conventional: 'ng/mL', alternates: [{ unit: 'ng/mL', factor: 2.496 }] },
+  vitamin_b12: {
+    conventional: 'pg/mL',
+    alternates: [
+      { unit: 'pg/mL', factor: 1 },
+      { unit: 'pmol/L', factor: 1.355 },
+    ],
+  },
+  folate: {
+    conventional: 'ng/mL',
+    alternates: [
+      { unit: 'ng/mL', factor: 1 },
+      { unit: 'nmol/L', factor: 0.4413 },
+    ],
+  },
+  crp: { conventional: 'mg/L', alternates: [{ unit: 'mg/dL', factor: 10 }] },
+  sodium: { conventional: 'mEq/L', alternates: [{ unit: 'mEq/L', factor: 1 }] },
+  potassium: { conventional: 'mEq/L', alternates: [{ unit: 'mEq/L', factor: 1 }] },
+  calcium: { conventional: 'mg/dL', alternates: [{ unit: 'mg/dL', factor: 0.2495 }] },
+};
+
+// BUN counts only the nitrogen in urea, so it has its own mg/dL factor, but
+// in mmol/L it is the same quantity and is stored as urea.
+const STORED_AS: Record<string, string> = { bun: 'urea' };
+
+export function roundValue(value: number): number {
+  if (value === 0) return 0;
+  const digits = Math.max(0, 2 - Math.floor(Math.log10(Math.abs(value))));
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+}
+
+export function unitsFor(analyteKey: string): string[] {
+  const analyte = getAnalyte(analyteKey);
+  if (!analyte) return [];
+  const alternates = ANALYTE_UNITS[analyteKey]?.alternates ?? [];
+  return [analyte.unit, ...alternates.map((alternate) => alternate.unit)];
+}
+
+function findAlternate(analyteKey: string, unit: string): AlternateUnit | undefined {
+  return ANALYTE_UNITS[analyteKey]?.alternates.find(
+    (alternate) => normaliseUnit(alternate.unit) === normaliseUnit(unit)
+  );
+}
+
+export function toCanonical(analyteKey: string, value: number, unit: string): { value: number; unit: string } | null {
+  const analyte = getAnalyte(analyteKey);
+  if (!analyte) return null;
+  if (normaliseUnit(unit) === normaliseUnit(analyte.unit)) return { value, unit: analyte.unit };
+
+  const alternate = findAlternate(analyteKey, unit);
+  if (!alternate) return null;
+
+  return { value: roundValue(value * alternate.factor + (alternate.offset ?? 0)), unit: analyte.unit };
+}
+
+export function fromCanonical(analyteKey: string, value: number, system: UnitSystem): { value: number; unit: string } | null {
+  const analyte = getAnalyte(analyteKey);
+  if (!analyte) return null;
+  if (system === 'si') return { value, unit: analyte.unit };
+
+  const units = ANALYTE_UNITS[analyteKey];
+  const alternate = units ? findAlternate(analyteKey, units.conventional) : undefined;
+  if (!alternate) return { value, unit: analyte.unit };
+
+  return { value: roundValue((value - (alternate.offset ?? 0)) / alternate.factor), unit: alternate.unit };
+}
+
+export function normaliseAnalyte(analyte: AnalyteResult): AnalyteResult {
+  if (!analyte.analyte_key) return analyte;
+
+  const converted = toCanonical(analyte.analyte_key, analyte.value, analyte.unit);
+  if (!converted) return analyte;
+
+  const convertBound = (bound: number | null) =>
+    bound === null ? null : toCanonical(analyte.analyte_key!, bound, analyte.unit)?.value ?? null;
+
+  return {
+    ...analyte,
+    analyte_key: STORED_AS[analyte.analyte_key] ?? analyte.analyte_key,
+    value: converted.value,
+    unit: converted.unit,
+    reference_low: convertBound(analyte.reference_low),
+    reference_high: convertBound(analyte.reference_high),
+  };
+}
+
+export function displayValue(
+  analyteKey: string | null,
+  value: number,
+  unit: string,
+  system: UnitSystem
+): { value: number; unit: string } {
+  if (!analyteKey) return { value, unit };
+  const canonical = toCanonical(analyteKey, value, unit);
+  if (!canonical) return { value, unit };
+  return fromCanonical(analyteKey, canonical.value, system) ?? canonical;
+}
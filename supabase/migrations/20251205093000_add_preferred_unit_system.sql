@@ -0,0 +1,23 @@
+/*
+  # Preferred Lab Unit System
+
+  ## Overview
+  Biomarker results are stored in canonical SI units. This migration lets each
+  profile choose whether results are displayed in SI or conventional units.
+
+  ## Modified Tables
+
+  ### `profiles`
+  - `preferred_unit_system` (text: 'si' or 'conventional', default 'si')
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'preferred_unit_system'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN preferred_unit_system text DEFAULT 'si'
+      CHECK (preferred_unit_system IN ('si', 'conventional'));
+  END IF;
+END $$;
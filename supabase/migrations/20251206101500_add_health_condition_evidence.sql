@@ -0,0 +1,22 @@
+/*
+  # Health Condition Evidence
+
+  ## Overview
+  Records which biomarker results or reported symptoms produced each health
+  condition so the conditions screen can show where a condition came from.
+
+  ## Modified Tables
+
+  ### `health_conditions`
+  - `evidence` (jsonb: array of biomarker results or symptom descriptions)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'health_conditions' AND column_name = 'evidence'
+  ) THEN
+    ALTER TABLE health_conditions ADD COLUMN evidence jsonb DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
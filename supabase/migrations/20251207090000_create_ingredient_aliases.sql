@@ -0,0 +1,68 @@
+/*
+  # Ingredient Aliases
+
+  ## Overview
+  Adds synonyms and regional names for ingredients so free-text lookups such as
+  "aubergine" or "garbanzo" resolve to the same Ingredient Knowledge Graph entry
+  as "eggplant" or "chickpeas".
+
+  ## New Tables
+
+  ### `ingredient_aliases`
+  - `id` (uuid, PK)
+  - `ingredient_id` (uuid, FK to ingredients)
+  - `alias` (text, unique case-insensitively)
+  - `region` (text: where the name is used, e.g. UK, US, AU, IN)
+  - `created_at` (timestamptz)
+
+  ## Seed Data
+  - Eggplant and Chickpeas ingredients
+  - Common synonyms and regional names for the sample ingredients
+
+  ## Security
+  - Aliases are globally readable, like the ingredients they point to
+*/
+
+CREATE TABLE IF NOT EXISTS ingredient_aliases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ingredient_id uuid NOT NULL REFERENCES ingredients(id) ON DELETE CASCADE,
+  alias text NOT NULL,
+  region text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ingredient_aliases_alias ON ingredient_aliases(lower(alias));
+CREATE INDEX IF NOT EXISTS idx_ingredient_aliases_ingredient ON ingredient_aliases(ingredient_id);
+
+INSERT INTO ingredients (name, category, nutritional_data, species_safe, toxicity_warnings)
+VALUES
+  ('Eggplant', 'vegetable', '{"fiber": 3, "potassium": 229, "manganese": 0.2}'::jsonb, '{"human": true, "dog": true, "cat": false}'::jsonb, '[]'::jsonb),
+  ('Chickpeas', 'legume', '{"protein": 19, "fiber": 17, "iron": 6.2, "folate": 557}'::jsonb, '{"human": true, "dog": true, "cat": true}'::jsonb, '[]'::jsonb)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO ingredient_aliases (ingredient_id, alias, region)
+SELECT i.id, a.alias, a.region
+FROM (
+  VALUES
+    ('Eggplant', 'aubergine', 'UK'),
+    ('Eggplant', 'brinjal', 'IN'),
+    ('Chickpeas', 'garbanzo', 'US'),
+    ('Chickpeas', 'garbanzo beans', 'US'),
+    ('Chickpeas', 'chana', 'IN'),
+    ('Chickpeas', 'ceci', NULL),
+    ('Sweet Potato', 'kumara', 'NZ'),
+    ('Sweet Potato', 'yam', 'US'),
+    ('Greek Yogurt', 'greek yoghurt', 'UK'),
+    ('Greek Yogurt', 'strained yogurt', NULL),
+    ('Chicken Breast', 'chicken', NULL),
+    ('Chicken Breast', 'chicken fillet', 'UK'),
+    ('Onion', 'brown onion', 'AU'),
+    ('Onion', 'yellow onion', 'US'),
+    ('Spinach', 'palak', 'IN'),
+    ('Spinach', 'english spinach', 'AU'),
+    ('Broccoli', 'calabrese', 'UK'),
+    ('Salmon', 'atlantic salmon', NULL),
+    ('Garlic', 'lahsun', 'IN')
+) AS a(ingredient_name, alias, region)
+JOIN ingredients i ON i.name = a.ingredient_name
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,30 @@
+/*
+  # Daily Intake Limits
+
+  ## Overview
+  Daily intake tracking totals the grams of each ingredient logged in meal
+  entries (`lifestyle_tracking` rows with `log_type = 'meal'`) and compares them
+  with `ingredient_contraindications.max_daily_amount`.
+
+  ## Modified Tables
+
+  ### `ingredient_contraindications`
+  - `max_daily_amount` documented as grams of the ingredient per day
+  - Sample CKD limit for salmon (phosphorus)
+
+  ### `lifestyle_tracking`
+  - Index on (profile_id, log_date, log_type) for daily meal totals
+*/
+
+COMMENT ON COLUMN ingredient_contraindications.max_daily_amount IS
+  'Maximum grams of the ingredient per day for people with the condition. NULL means no numeric limit.';
+
+UPDATE ingredient_contraindications
+SET max_daily_amount = 100
+WHERE condition_name = 'Chronic Kidney Disease'
+  AND species_type = 'human'
+  AND max_daily_amount IS NULL
+  AND ingredient_id IN (SELECT id FROM ingredients WHERE name = 'Salmon');
+
+CREATE INDEX IF NOT EXISTS idx_lifestyle_tracking_daily
+  ON lifestyle_tracking(profile_id, log_date, log_type);
@@ -0,0 +1,23 @@
+/*
+  # Food Lookup Decision Trace
+
+  ## Overview
+  Stores the steps behind each food lookup verdict (matched ingredient, rule
+  that fired and the profile fact it depended on) so past verdicts can be
+  explained after the profile has changed.
+
+  ## Modified Tables
+
+  ### `food_lookup_history`
+  - `decision_trace` (jsonb: array of trace steps)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'food_lookup_history' AND column_name = 'decision_trace'
+  ) THEN
+    ALTER TABLE food_lookup_history ADD COLUMN decision_trace jsonb DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
@@ -0,0 +1,62 @@
+/*
+  # Scanned Products
+
+  ## Overview
+  Caches packaged products that users have scanned but that aren't in
+  `grocery_products` yet. The first user to scan a barcode supplies the printed
+  ingredient list; later scans of the same barcode reuse it.
+
+  ## New Tables
+
+  ### `scanned_products`
+  - `id` (uuid, PK)
+  - `barcode` (text, unique: EAN-8, EAN-13, UPC-A or GTIN-14 digits)
+  - `name` (text)
+  - `brand` (text)
+  - `ingredients` (jsonb: array of ingredient names parsed from the label)
+  - `ingredients_text` (text: the label text as entered or recognised)
+  - `created_by` (uuid, FK to profiles)
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### `grocery_products`
+  - Index on `sku` for barcode lookups
+
+  ## Security
+  - Cached products are readable by every signed-in user, like the product catalogue
+  - Users can only add or correct products they cached themselves
+*/
+
+CREATE TABLE IF NOT EXISTS scanned_products (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  barcode text NOT NULL UNIQUE,
+  name text NOT NULL,
+  brand text,
+  ingredients jsonb DEFAULT '[]'::jsonb,
+  ingredients_text text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE scanned_products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view scanned products"
+  ON scanned_products FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can insert scanned products"
+  ON scanned_products FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by IN (SELECT id FROM profiles WHERE auth.uid() = id));
+
+CREATE POLICY "Users can update own scanned products"
+  ON scanned_products FOR UPDATE
+  TO authenticated
+  USING (created_by IN (SELECT id FROM profiles WHERE auth.uid() = id))
+  WITH CHECK (created_by IN (SELECT id FROM profiles WHERE auth.uid() = id));
+
+CREATE INDEX IF NOT EXISTS idx_grocery_products_sku ON grocery_products(sku);
@@ -0,0 +1,85 @@
+/*
+  # Supplement Interaction Screening
+
+  ## Overview
+  Supplement protocols are screened against the user's active medications using
+  the `drug_supplement` rows in `medication_interactions`. Each hit is stored on
+  the protocol and raised as an interaction alert linked back to the supplement
+  that caused it.
+
+  ## Modified Tables
+
+  ### `user_interaction_alerts`
+  - `supplement_protocol_id` (uuid, FK to supplement_protocols: set for
+    `drug_supplement` alerts raised by a supplement protocol)
+
+  ## Seed Data
+  - Warfarin added to `medications`
+  - `drug_supplement` interactions for levothyroxine with calcium, lisinopril
+    with potassium, and warfarin with vitamin K and fish oil
+
+  ## Security
+  - Users can raise alerts for their own profile
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_interaction_alerts' AND column_name = 'supplement_protocol_id'
+  ) THEN
+    ALTER TABLE user_interaction_alerts
+      ADD COLUMN supplement_protocol_id uuid REFERENCES supplement_protocols(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_alerts_supplement_protocol ON user_interaction_alerts(supplement_protocol_id);
+
+CREATE POLICY "Users can insert own alerts"
+  ON user_interaction_alerts FOR INSERT
+  TO authenticated
+  WITH CHECK (profile_id IN (SELECT id FROM profiles WHERE auth.uid() = id));
+
+INSERT INTO medications (name, generic_name, medication_class, species, common_dosages, requires_prescription)
+VALUES
+  ('Warfarin', 'Warfarin Sodium', 'Anticoagulant', 'human', '["1mg", "2mg", "5mg"]'::jsonb, true)
+ON CONFLICT DO NOTHING;
+
+DO $$
+DECLARE
+  levo_id uuid;
+  lisinopril_id uuid;
+  warfarin_id uuid;
+BEGIN
+  SELECT id INTO levo_id FROM medications WHERE name = 'Levothyroxine' LIMIT 1;
+  SELECT id INTO lisinopril_id FROM medications WHERE name = 'Lisinopril' LIMIT 1;
+  SELECT id INTO warfarin_id FROM medications WHERE name = 'Warfarin' LIMIT 1;
+
+  IF levo_id IS NOT NULL THEN
+    INSERT INTO medication_interactions (
+      interaction_type, medication_id_1, interacting_substance, severity, effect, recommendation
+    )
+    VALUES
+      ('drug_supplement', levo_id, 'Calcium supplements', 'moderate', 'Calcium binds levothyroxine in the gut and reduces its absorption', 'Take levothyroxine at least 4 hours apart from calcium supplements')
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  IF lisinopril_id IS NOT NULL THEN
+    INSERT INTO medication_interactions (
+      interaction_type, medication_id_1, interacting_substance, severity, effect, recommendation
+    )
+    VALUES
+      ('drug_supplement', lisinopril_id, 'Potassium supplements', 'major', 'ACE inhibitors raise blood potassium, and extra potassium can cause hyperkalaemia', 'Avoid potassium supplements unless prescribed, and have potassium levels checked')
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  IF warfarin_id IS NOT NULL THEN
+    INSERT INTO medication_interactions (
+      interaction_type, medication_id_1, interacting_substance, severity, effect, recommendation
+    )
+    VALUES
+      ('drug_supplement', warfarin_id, 'Vitamin K', 'major', 'Vitamin K counteracts warfarin and lowers its anticoagulant effect', 'Do not start or stop vitamin K supplements without checking with your prescriber'),
+      ('drug_supplement', warfarin_id, 'Fish oil', 'moderate', 'High-dose omega-3 may add to warfarin''s effect and increase bleeding risk', 'Discuss with your prescriber and monitor INR when starting fish oil')
+    ON CONFLICT DO NOTHING;
+  END IF;
+END $$;
@@ -0,0 +1,65 @@
+/*
+  # Supplement Doses
+
+  ## Overview
+  Scheduled dose log for supplement protocols, mirroring `medication_doses`.
+  Dose times are planned around spacing rules (e.g. iron away from calcium,
+  levothyroxine 4 hours apart from calcium) so the daily timeline avoids
+  absorption conflicts.
+
+  ## New Tables
+
+  ### `supplement_doses`
+  - `id` (uuid, PK)
+  - `supplement_protocol_id` (uuid, FK to supplement_protocols)
+  - `profile_id` (uuid, FK to profiles)
+  - `scheduled_time` (timestamptz)
+  - `taken_time` (timestamptz)
+  - `status` (text: scheduled, taken, missed, skipped)
+  - `schedule_note` (text: why the dose was moved from its usual time, or the
+    spacing conflict that couldn't be avoided)
+  - `created_at` (timestamptz)
+
+  ## Security
+  - Users can only view and manage their own doses
+  - Users can delete their own doses so future doses can be re-planned
+*/
+
+CREATE TABLE IF NOT EXISTS supplement_doses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplement_protocol_id uuid NOT NULL REFERENCES supplement_protocols(id) ON DELETE CASCADE,
+  profile_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  scheduled_time timestamptz NOT NULL,
+  taken_time timestamptz,
+  status text DEFAULT 'scheduled',
+  schedule_note text,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_supplement_dose_status CHECK (status IN ('scheduled', 'taken', 'missed', 'skipped'))
+);
+
+ALTER TABLE supplement_doses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own supplement doses"
+  ON supplement_doses FOR SELECT
+  TO authenticated
+  USING (profile_id IN (SELECT id FROM profiles WHERE auth.uid() = id));
+
+CREATE POLICY "Users can insert own supplement doses"
+  ON supplement_doses FOR INSERT
+  TO authenticated
+  WITH CHECK (profile_id IN (SELECT id FROM profiles WHERE auth.uid() = id));
+
+CREATE POLICY "Users can update own supplement doses"
+  ON supplement_doses FOR UPDATE
+  TO authenticated
+  USING (profile_id IN (SELECT id FROM profiles WHERE auth.uid() = id))
+  WITH CHECK (profile_id IN (SELECT id FROM profiles WHERE auth.uid() = id));
+
+CREATE POLICY "Users can delete own supplement doses"
+  ON supplement_doses FOR DELETE
+  TO authenticated
+  USING (profile_id IN (SELECT id FROM profiles WHERE auth.uid() = id));
+
+CREATE INDEX IF NOT EXISTS idx_supplement_doses_protocol ON supplement_doses(supplement_protocol_id);
+CREATE INDEX IF NOT EXISTS idx_supplement_doses_scheduled ON supplement_doses(scheduled_time);
+CREATE INDEX IF NOT EXISTS idx_supplement_doses_status ON supplement_doses(status);
@@ -0,0 +1,24 @@
+/*
+  # Profile Activity Level
+
+  ## Overview
+  Adds an activity level to profiles so daily energy and nutrient targets can be
+  calculated for meal plans. Targets are stored in the existing
+  `nutritional_targets` column on `meal_plans` and `weekly_meal_plans`.
+
+  ## Modified Tables
+
+  ### `profiles`
+  - `activity_level` (text: sedentary, light, moderate, active, very_active)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'activity_level'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN activity_level text
+      CONSTRAINT valid_activity_level CHECK (activity_level IN ('sedentary', 'light', 'moderate', 'active', 'very_active'));
+  END IF;
+END $$;
@@ -0,0 +1,23 @@
+/*
+  # Recipe Meal Types
+
+  ## Overview
+  Adds the meal slots a recipe suits so the weekly meal plan generator can put
+  porridge at breakfast and a stew at dinner rather than the other way round.
+  An empty list means the recipe is a main meal (lunch or dinner).
+
+  ## Modified Tables
+
+  ### `recipes`
+  - `meal_types` (jsonb: any of breakfast, lunch, dinner, snacks)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'recipes' AND column_name = 'meal_types'
+  ) THEN
+    ALTER TABLE recipes ADD COLUMN meal_types jsonb DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
@@ -0,0 +1,27 @@
+/*
+  # Single Active Meal Plan
+
+  ## Overview
+  A profile can only follow one weekly meal plan at a time. Any profile with
+  more than one active plan keeps its most recent and has the rest archived,
+  then a partial unique index stops a second active plan being created.
+
+  ## Modified Tables
+
+  ### `weekly_meal_plans`
+  - Unique index on `profile_id` where `status = 'active'`
+*/
+
+UPDATE weekly_meal_plans
+SET status = 'archived'
+WHERE status = 'active'
+  AND id NOT IN (
+    SELECT DISTINCT ON (profile_id) id
+    FROM weekly_meal_plans
+    WHERE status = 'active'
+    ORDER BY profile_id, created_at DESC
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meal_plans_one_active
+  ON weekly_meal_plans(profile_id)
+  WHERE status = 'active';
@@ -0,0 +1,31 @@
+/*
+  # Scanned Products Per User
+
+  ## Overview
+  A scanned product's ingredient list was shared by everyone, and only the user
+  who first entered it could correct it. Each user now keeps their own copy of
+  the label for a barcode. A barcode nobody else has entered still falls back
+  to the most recent list entered by another user, which is marked as such in
+  the scanner and can be re-entered.
+
+  ## Modified Tables
+
+  ### `scanned_products`
+  - `barcode` is no longer unique on its own
+  - Unique on (`barcode`, `created_by`)
+  - Index on `barcode` for lookups
+*/
+
+ALTER TABLE scanned_products DROP CONSTRAINT IF EXISTS scanned_products_barcode_key;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'scanned_products_barcode_created_by_key'
+  ) THEN
+    ALTER TABLE scanned_products
+      ADD CONSTRAINT scanned_products_barcode_created_by_key UNIQUE (barcode, created_by);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_scanned_products_barcode ON scanned_products(barcode);
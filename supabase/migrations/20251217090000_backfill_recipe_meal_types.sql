@@ -0,0 +1,32 @@
+/*
+  # Backfill Recipe Meal Types
+
+  ## Overview
+  `recipes.meal_types` was added empty, so every existing recipe was treated as
+  a lunch or dinner and breakfast and snack slots fell back to main meals.
+  This fills it in for recipes that have not been given meal types yet, based
+  on the recipe name and description:
+  - Pet recipes are fed morning and evening, so they suit breakfast and
+    dinner; treats are snacks and never planned as a meal.
+  - Human recipes that read as breakfast dishes suit breakfast, small bites
+    suit snacks, and everything else suits lunch and dinner.
+
+  ## Modified Tables
+
+  ### `recipes`
+  - `meal_types` filled where it is still an empty list
+*/
+
+UPDATE recipes
+SET meal_types = CASE
+  WHEN species_type IN ('dog', 'cat') AND (name || ' ' || coalesce(description, '')) ~* '\m(treats?|chews?|biscuits?)\M'
+    THEN '["snacks"]'::jsonb
+  WHEN species_type IN ('dog', 'cat')
+    THEN '["breakfast", "dinner"]'::jsonb
+  WHEN (name || ' ' || coalesce(description, '')) ~* '\m(breakfast|porridge|oats|oatmeal|overnight oats|granola|muesli|pancakes?|waffles?|omelett?es?|scrambled|frittata|smoothie|parfait)\M'
+    THEN '["breakfast"]'::jsonb
+  WHEN (name || ' ' || coalesce(description, '')) ~* '\m(snacks?|bites|energy balls?|bars?|dips?|hummus|trail mix|crackers)\M'
+    THEN '["snacks"]'::jsonb
+  ELSE '["lunch", "dinner"]'::jsonb
+END
+WHERE meal_types IS NULL OR meal_types = '[]'::jsonb;
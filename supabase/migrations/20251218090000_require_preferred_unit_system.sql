@@ -0,0 +1,18 @@
+/*
+  # Require Preferred Lab Unit System
+
+  ## Overview
+  `preferred_unit_system` was added with a default but still allowed nulls, so
+  a profile could end up with no unit system at all. Existing nulls are set to
+  SI and the column is made NOT NULL with an SI default.
+
+  ## Modified Tables
+
+  ### `profiles`
+  - `preferred_unit_system` NOT NULL DEFAULT 'si'
+*/
+
+UPDATE profiles SET preferred_unit_system = 'si' WHERE preferred_unit_system IS NULL;
+
+ALTER TABLE profiles ALTER COLUMN preferred_unit_system SET DEFAULT 'si';
+ALTER TABLE profiles ALTER COLUMN preferred_unit_system SET NOT NULL;
@@ -0,0 +1,40 @@
+/*
+  # Replace Nutrition Recommendations
+
+  ## Overview
+  Regenerating recommendations used to delete the profile's rows and insert the
+  new set in two requests, so a failed insert left the profile with none. This
+  function does both in one transaction.
+
+  ## New Functions
+
+  ### `replace_nutrition_recommendations(recommendations jsonb)`
+  - Replaces the signed-in profile's recommendations with the given list of
+    `{ recommendation_type, food_item, category, rationale, priority_level }`
+
+  ## Security
+  - Runs as the caller, so the existing RLS policies on
+    `nutrition_recommendations` still apply
+*/
+
+CREATE OR REPLACE FUNCTION replace_nutrition_recommendations(recommendations jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  DELETE FROM nutrition_recommendations WHERE profile_id = auth.uid();
+
+  INSERT INTO nutrition_recommendations (profile_id, recommendation_type, food_item, category, rationale, priority_level, active)
+  SELECT auth.uid(), r.recommendation_type, r.food_item, r.category, r.rationale, r.priority_level, true
+  FROM jsonb_to_recordset(recommendations)
+    AS r(recommendation_type text, food_item text, category text, rationale text, priority_level integer);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION replace_nutrition_recommendations(jsonb) TO authenticated;
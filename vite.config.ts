@@ -1,9 +1,43 @@
-import { defineConfig } from 'vite';
+import { createReadStream, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// OCR worker, WebAssembly core and English language data, served from /tesseract
+// so photo uploads never fetch code or models from a third-party CDN.
+const TESSERACT_ASSETS: Record<string, string> = {
+  'worker.min.js': 'tesseract.js/dist/worker.min.js',
+  'tesseract-core-lstm.wasm.js': 'tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'tesseract-core-simd-lstm.wasm.js': 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'eng.traineddata.gz': '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz',
+};
+
+function assetPath(modulePath: string): string {
+  return fileURLToPath(new URL(`./node_modules/${modulePath}`, import.meta.url));
+}
+
+function tesseractAssets(): Plugin {
+  return {
+    name: 'tesseract-assets',
+    configureServer(server) {
+      server.middlewares.use('/tesseract', (req, res, next) => {
+        const modulePath = TESSERACT_ASSETS[(req.url ?? '').split('?')[0].replace(/^\//, '')];
+        if (!modulePath) return next();
+        res.setHeader('Content-Type', modulePath.endsWith('.js') ? 'text/javascript' : 'application/octet-stream');
+        createReadStream(assetPath(modulePath)).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const [fileName, modulePath] of Object.entries(TESSERACT_ASSETS)) {
+        this.emitFile({ type: 'asset', fileName: `tesseract/${fileName}`, source: readFileSync(assetPath(modulePath)) });
+      }
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), tesseractAssets()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },